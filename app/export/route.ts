@@ -0,0 +1,60 @@
+import { openExport, type ExportDownload } from "@/lib/mongodb/export";
+import { AccessDeniedError } from "@/lib/mongodb/access";
+import { RateLimitError } from "@/lib/mongodb/rateLimit";
+import { ValidationError } from "@/lib/mongodb/security";
+
+// Force Node.js runtime (not Edge) for MongoDB driver compatibility
+export const runtime = "nodejs";
+
+// Disable response caching for dynamic data
+export const dynamic = "force-dynamic";
+
+// Exports stream for longer than tool calls run
+export const maxDuration = 300;
+
+function errorResponse(status: number, error: string): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Download the result of an export link (GET /export?token=...). The
+ * signed token is the credential, so no X-API-Key header is needed.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const token = new URL(request.url).searchParams.get("token");
+
+  if (!token) {
+    return errorResponse(400, "Missing token parameter");
+  }
+
+  let download: ExportDownload;
+  try {
+    download = await openExport(token);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof AccessDeniedError) {
+      return errorResponse(403, message);
+    }
+    if (error instanceof ValidationError) {
+      return errorResponse(400, message);
+    }
+    if (error instanceof RateLimitError) {
+      const response = errorResponse(429, message);
+      response.headers.set("Retry-After", String(error.retryAfterSeconds));
+      return response;
+    }
+    console.error("Export failed:", error);
+    return errorResponse(500, "Export failed");
+  }
+
+  return new Response(download.stream, {
+    headers: {
+      "Content-Type": download.contentType,
+      "Content-Disposition": `attachment; filename="${download.filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
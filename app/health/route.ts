@@ -0,0 +1,75 @@
+import {
+  authenticate,
+  hasFullAccess,
+  type AccessPolicy,
+} from "@/lib/mongodb/access";
+import { checkLiveness, checkReadiness } from "@/lib/mongodb/health";
+
+// Force Node.js runtime (not Edge) for MongoDB driver compatibility
+export const runtime = "nodejs";
+
+// Disable response caching for dynamic data
+export const dynamic = "force-dynamic";
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Liveness (GET /health) and readiness (GET /health?check=ready) probes.
+ * Anyone gets the up/down status, with 503 when down. Keys with full
+ * access also get the details, which name data sources, databases and
+ * users, by sending X-API-Key.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const apiKey = request.headers.get("X-API-Key");
+  let detailed = false;
+
+  if (apiKey) {
+    let policy: AccessPolicy | null;
+    try {
+      policy = authenticate(apiKey);
+    } catch {
+      // A broken key registry is reported by the liveness check itself
+      policy = null;
+    }
+
+    if (!policy) {
+      return jsonResponse(401, { error: "Invalid API key" });
+    }
+    if (!hasFullAccess(policy)) {
+      return jsonResponse(403, {
+        error: "API key may not read health details",
+      });
+    }
+    detailed = true;
+  }
+
+  const check = new URL(request.url).searchParams.get("check") ?? "live";
+
+  let report: { status: string; error?: string };
+  if (check === "live") {
+    report = checkLiveness();
+  } else if (check === "ready") {
+    try {
+      report = await checkReadiness();
+    } catch (error) {
+      report = {
+        status: "down",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  } else {
+    return jsonResponse(400, {
+      error: `Unknown check "${check}" (expected live or ready)`,
+    });
+  }
+
+  return jsonResponse(
+    report.status === "up" ? 200 : 503,
+    detailed ? report : { status: report.status }
+  );
+}
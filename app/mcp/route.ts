@@ -1,17 +1,90 @@
 import { createMcpHandler } from "mcp-handler";
 
-import { findSchema, findTool } from "@/lib/mongodb/tools/find";
-import { aggregateSchema, aggregateTool } from "@/lib/mongodb/tools/aggregate";
-import { countSchema, countTool } from "@/lib/mongodb/tools/count";
+import {
+  findSchema,
+  findOutputSchema,
+  findTool,
+} from "@/lib/mongodb/tools/find";
+import {
+  aggregateSchema,
+  aggregateOutputSchema,
+  aggregateTool,
+} from "@/lib/mongodb/tools/aggregate";
+import {
+  countSchema,
+  countOutputSchema,
+  countTool,
+} from "@/lib/mongodb/tools/count";
 import {
   listCollectionsSchema,
+  listCollectionsOutputSchema,
   listCollectionsTool,
 } from "@/lib/mongodb/tools/listCollections";
-import { explainSchema, explainTool } from "@/lib/mongodb/tools/explain";
+import {
+  listDatabasesSchema,
+  listDatabasesOutputSchema,
+  listDatabasesTool,
+} from "@/lib/mongodb/tools/listDatabases";
+import {
+  explainSchema,
+  explainOutputSchema,
+  explainTool,
+} from "@/lib/mongodb/tools/explain";
+import {
+  fieldStatsSchema,
+  fieldStatsOutputSchema,
+  fieldStatsTool,
+} from "@/lib/mongodb/tools/fieldStats";
+import {
+  listIndexesSchema,
+  listIndexesOutputSchema,
+  listIndexesTool,
+} from "@/lib/mongodb/tools/listIndexes";
+import {
+  suggestIndexesSchema,
+  suggestIndexesOutputSchema,
+  suggestIndexesTool,
+} from "@/lib/mongodb/tools/suggestIndexes";
 import {
   collectionSchemaSchema,
+  collectionSchemaOutputSchema,
   collectionSchemaTool,
 } from "@/lib/mongodb/tools/collectionSchema";
+import {
+  collectionStatsSchema,
+  collectionStatsOutputSchema,
+  collectionStatsTool,
+} from "@/lib/mongodb/tools/collectionStats";
+import {
+  searchSchema,
+  searchOutputSchema,
+  searchTool,
+} from "@/lib/mongodb/tools/search";
+import {
+  exportSchema,
+  exportOutputSchema,
+  exportTool,
+} from "@/lib/mongodb/tools/export";
+import {
+  createQueryTool,
+  describeQueryTool,
+  getQuerySchema,
+  queryOutputSchema,
+  toQueryArgs,
+} from "@/lib/mongodb/tools/query";
+import {
+  authenticate,
+  toAuthInfo,
+  type AccessPolicy,
+  type ToolExtra,
+} from "@/lib/mongodb/access";
+import { withAudit } from "@/lib/mongodb/audit";
+import { withRateLimit } from "@/lib/mongodb/rateLimit";
+import { withCache } from "@/lib/mongodb/queryCache";
+import { withTelemetry } from "@/lib/mongodb/telemetry";
+import { registerResources } from "@/lib/mongodb/resources";
+import { registerPrompts } from "@/lib/mongodb/prompts";
+import { getConfig, isToolEnabled } from "@/lib/mongodb/config";
 
 // Force Node.js runtime (not Edge) for MongoDB driver compatibility
 export const runtime = "nodejs";
@@ -22,42 +95,75 @@ export const dynamic = "force-dynamic";
 // Max duration for serverless function
 export const maxDuration = 60;
 
+function errorResponse(status: number, error: string): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
 /**
- * Validate API key from request headers.
- * Returns 401 response if validation fails, null if successful.
+ * Validate API key from request headers and attach the key's access policy.
+ * Returns an error response if validation fails, null if successful.
  */
 function validateApiKey(request: Request): Response | null {
   const apiKey = request.headers.get("X-API-Key");
-  const expectedKey = process.env.API_KEY;
-
-  if (!expectedKey) {
-    return new Response(
-      JSON.stringify({
-        error: "API_KEY environment variable is not configured",
-      }),
-      { status: 500, headers: { "Content-Type": "application/json" } }
+
+  let policy: AccessPolicy | null;
+  try {
+    policy = authenticate(apiKey);
+  } catch (error) {
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : String(error)
     );
   }
 
   if (!apiKey) {
-    return new Response(JSON.stringify({ error: "Missing X-API-Key header" }), {
-      status: 401,
-      headers: { "Content-Type": "application/json" },
-    });
+    return errorResponse(401, "Missing X-API-Key header");
   }
 
-  if (apiKey !== expectedKey) {
-    return new Response(JSON.stringify({ error: "Invalid API key" }), {
-      status: 401,
-      headers: { "Content-Type": "application/json" },
-    });
+  if (!policy) {
+    return errorResponse(401, "Invalid API key");
   }
 
+  request.auth = toAuthInfo(apiKey, policy);
+
   return null;
 }
 
+/**
+ * Wrap a tool with metrics and tracing, the audit log, the caller's rate
+ * limits and the result cache. Telemetry runs outermost so its span covers
+ * the whole call. Rate limiting runs inside the audit so rejected calls
+ * are logged too, and outside the cache so cached results still count.
+ */
+function instrument<Args, Result>(
+  tool: string,
+  handler: (args: Args, extra: ToolExtra) => Promise<Result>
+) {
+  return withTelemetry(
+    tool,
+    withAudit(tool, withRateLimit(tool, withCache(tool, handler)))
+  );
+}
+
+const config = getConfig();
+
 const mcpHandler = createMcpHandler(
-  async (server) => {
+  async (mcpServer) => {
+    // Tools the config doesn't enable are registered, then removed, so
+    // they're neither listed nor callable
+    const server = {
+      registerTool: ((name, toolConfig, callback) => {
+        const tool = mcpServer.registerTool(name, toolConfig, callback);
+        if (!isToolEnabled(name)) {
+          tool.remove();
+        }
+        return tool;
+      }) as typeof mcpServer.registerTool,
+    };
+
     // Find documents
     server.registerTool(
       "find",
@@ -66,8 +172,9 @@ const mcpHandler = createMcpHandler(
         description:
           "Query documents from a MongoDB collection with optional filtering, projection, sorting, and limiting",
         inputSchema: findSchema,
+        outputSchema: findOutputSchema,
       },
-      findTool
+      instrument("find", findTool)
     );
 
     // Aggregate
@@ -78,8 +185,9 @@ const mcpHandler = createMcpHandler(
         description:
           "Run an aggregation pipeline on a MongoDB collection for data transformation and analysis",
         inputSchema: aggregateSchema,
+        outputSchema: aggregateOutputSchema,
       },
-      aggregateTool
+      instrument("aggregate", aggregateTool)
     );
 
     // Count
@@ -90,8 +198,22 @@ const mcpHandler = createMcpHandler(
         description:
           "Count documents in a MongoDB collection, optionally filtered by query",
         inputSchema: countSchema,
+        outputSchema: countOutputSchema,
       },
-      countTool
+      instrument("count", countTool)
+    );
+
+    // Field stats
+    server.registerTool(
+      "field-stats",
+      {
+        title: "Field Statistics",
+        description:
+          "Describe the values of one field: null and missing rates, types, the most common values with counts, and min/max/avg, percentiles and a histogram for numbers and dates",
+        inputSchema: fieldStatsSchema,
+        outputSchema: fieldStatsOutputSchema,
+      },
+      instrument("field-stats", fieldStatsTool)
     );
 
     // List collections
@@ -99,10 +221,25 @@ const mcpHandler = createMcpHandler(
       "list-collections",
       {
         title: "List Collections",
-        description: "List all user collections in the configured database",
+        description:
+          "List all user collections in a database (the default database unless source/database are given)",
         inputSchema: listCollectionsSchema,
+        outputSchema: listCollectionsOutputSchema,
+      },
+      instrument("list-collections", listCollectionsTool)
+    );
+
+    // List databases
+    server.registerTool(
+      "list-databases",
+      {
+        title: "List Databases",
+        description:
+          "List the data sources and databases that tools can be pointed at with the source and database arguments",
+        inputSchema: listDatabasesSchema,
+        outputSchema: listDatabasesOutputSchema,
       },
-      listCollectionsTool
+      instrument("list-databases", listDatabasesTool)
     );
 
     // Explain
@@ -113,8 +250,35 @@ const mcpHandler = createMcpHandler(
         description:
           "Get the execution plan for a find or aggregate operation to analyze query performance",
         inputSchema: explainSchema,
+        outputSchema: explainOutputSchema,
+      },
+      instrument("explain", explainTool)
+    );
+
+    // List indexes
+    server.registerTool(
+      "list-indexes",
+      {
+        title: "List Indexes",
+        description:
+          "List the indexes of a collection with their key patterns, options (unique, partial, TTL, sparse) and usage counts",
+        inputSchema: listIndexesSchema,
+        outputSchema: listIndexesOutputSchema,
+      },
+      instrument("list-indexes", listIndexesTool)
+    );
+
+    // Suggest indexes
+    server.registerTool(
+      "suggest-indexes",
+      {
+        title: "Suggest Indexes",
+        description:
+          "Explain a find (filter and sort) or aggregation pipeline and propose a compound index following the equality, sort, range rule. Also flags redundant and unused indexes. Never creates indexes",
+        inputSchema: suggestIndexesSchema,
+        outputSchema: suggestIndexesOutputSchema,
       },
-      explainTool
+      instrument("suggest-indexes", suggestIndexesTool)
     );
 
     // Collection schema
@@ -125,16 +289,84 @@ const mcpHandler = createMcpHandler(
         description:
           "Infer the schema of a collection by sampling documents and analyzing field types and presence",
         inputSchema: collectionSchemaSchema,
+        outputSchema: collectionSchemaOutputSchema,
       },
-      collectionSchemaTool
+      instrument("collection-schema", collectionSchemaTool)
     );
+
+    // Storage, index sizes and options of a collection, or a view's pipeline
+    server.registerTool(
+      "collection-stats",
+      {
+        title: "Collection Stats",
+        description:
+          "Get storage statistics of a collection (document count, data and average document size, index sizes) and its type and options: capped, TTL indexes, validator, time-series settings, or a view's source and pipeline",
+        inputSchema: collectionStatsSchema,
+        outputSchema: collectionStatsOutputSchema,
+      },
+      instrument("collection-stats", collectionStatsTool)
+    );
+
+    // Full-text search through Atlas Search or a text index
+    server.registerTool(
+      "search",
+      {
+        title: "Search",
+        description:
+          "Full-text search of a collection, ranked by relevance with highlighted matches. Uses the collection's Atlas Search index when configured, or its text index. Prefer this over regex filters for finding documents that mention words or phrases",
+        inputSchema: searchSchema,
+        outputSchema: searchOutputSchema,
+      },
+      instrument("search", searchTool)
+    );
+
+    // Full results of a query as a signed, short-lived download link
+    server.registerTool(
+      "export",
+      {
+        title: "Export",
+        description:
+          "Export the full result of a find (filter, projection, sort) or an aggregation pipeline as NDJSON, CSV or Extended JSON. Returns a short-lived download link instead of the documents; use it when someone needs more data than find or aggregate return per call",
+        inputSchema: exportSchema,
+        outputSchema: exportOutputSchema,
+      },
+      instrument("export", exportTool)
+    );
+
+    // Operator-defined queries from the config, one tool each. The wrappers
+    // get the filled-in query, so it's audited and cached like find and
+    // aggregate calls
+    for (const query of config.queries) {
+      const run = instrument(query.name, createQueryTool(query));
+
+      server.registerTool(
+        query.name,
+        {
+          title: query.title,
+          description: describeQueryTool(query),
+          inputSchema: getQuerySchema(query),
+          outputSchema: queryOutputSchema,
+        },
+        (input, extra) => run(toQueryArgs(query, input), extra)
+      );
+    }
+
+    // Collections, schemas, indexes and samples as browsable resources
+    if (config.features.resources) {
+      registerResources(mcpServer);
+    }
+
+    // Guided investigation workflows
+    if (config.features.prompts) {
+      registerPrompts(mcpServer);
+    }
   },
   {},
   {
     basePath: "",
-    verboseLogs: true,
-    maxDuration: 60,
-    disableSse: true,
+    verboseLogs: config.server.verboseLogs,
+    maxDuration: config.server.maxDuration,
+    disableSse: config.server.disableSse,
   }
 );
 
@@ -0,0 +1,54 @@
+import {
+  authenticate,
+  hasFullAccess,
+  type AccessPolicy,
+} from "@/lib/mongodb/access";
+import { renderMetrics } from "@/lib/mongodb/metrics";
+
+// Metrics live in the memory of the Node.js instance serving the MCP route
+export const runtime = "nodejs";
+
+// Disable response caching for dynamic data
+export const dynamic = "force-dynamic";
+
+function errorResponse(status: number, error: string): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Serve tool and MongoDB command metrics in the Prometheus text format.
+ * Metric labels name every tool and collection, so only keys with full
+ * access may read them.
+ */
+export async function GET(request: Request): Promise<Response> {
+  const apiKey = request.headers.get("X-API-Key");
+
+  let policy: AccessPolicy | null;
+  try {
+    policy = authenticate(apiKey);
+  } catch (error) {
+    return errorResponse(
+      500,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  if (!apiKey) {
+    return errorResponse(401, "Missing X-API-Key header");
+  }
+
+  if (!policy) {
+    return errorResponse(401, "Invalid API key");
+  }
+
+  if (!hasFullAccess(policy)) {
+    return errorResponse(403, "API key may not read metrics");
+  }
+
+  return new Response(renderMetrics(), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
+}
@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  AccessDeniedError,
+  assertCollectionsAllowed,
+  assertTargetAllowed,
+  assertToolAllowed,
+  authenticate,
+} from "../access";
+
+const keys = [
+  {
+    name: "support-bot",
+    key: "support-key",
+    tools: ["find", "count"],
+    sources: ["main"],
+    databases: ["support"],
+    collections: ["tickets", "faq_*"],
+    limits: { maxLimit: 20 },
+  },
+  { name: "admin", key: "admin-key" },
+];
+
+beforeAll(() => {
+  process.env.API_KEYS = JSON.stringify(keys);
+});
+
+afterAll(() => {
+  delete process.env.API_KEYS;
+});
+
+/**
+ * Authenticate against a fresh copy of the registry, loaded from the given
+ * API_KEYS value.
+ */
+async function authenticateWith(apiKeys: unknown[], apiKey: string) {
+  const previous = process.env.API_KEYS;
+  process.env.API_KEYS = JSON.stringify(apiKeys);
+  vi.resetModules();
+
+  try {
+    const access = await import("../access");
+    return access.authenticate(apiKey);
+  } finally {
+    process.env.API_KEYS = previous;
+  }
+}
+
+describe("authenticate", () => {
+  it("returns the policy of a known key", () => {
+    const policy = authenticate("support-key");
+
+    expect(policy).toMatchObject({
+      name: "support-bot",
+      tools: ["find", "count"],
+      collections: ["tickets", "faq_*"],
+    });
+    expect(policy?.limits.maxLimit).toBe(20);
+  });
+
+  it("grants every tool and collection when the entry doesn't limit them", () => {
+    expect(authenticate("admin-key")).toMatchObject({
+      tools: null,
+      sources: ["*"],
+      databases: ["*"],
+      collections: ["*"],
+    });
+  });
+
+  it("returns null for missing and unknown keys", () => {
+    expect(authenticate(null)).toBeNull();
+    expect(authenticate("")).toBeNull();
+    expect(authenticate("support-key ")).toBeNull();
+  });
+
+  it("rejects limits above the server limits", async () => {
+    await expect(
+      authenticateWith(
+        [{ name: "greedy", key: "greedy-key", limits: { maxLimit: 1000 } }],
+        "greedy-key"
+      )
+    ).rejects.toThrow(
+      'API_KEYS environment variable is invalid at "0.limits.maxLimit": Must not be greater than limits.maxLimit (100)'
+    );
+  });
+
+  it("rejects duplicate key names", async () => {
+    await expect(
+      authenticateWith(
+        [
+          { name: "bot", key: "key-1" },
+          { name: "bot", key: "key-2" },
+        ],
+        "key-1"
+      )
+    ).rejects.toThrow("API key names must be unique");
+  });
+});
+
+describe("assertToolAllowed", () => {
+  it("allows the key's tools only", () => {
+    const policy = authenticate("support-key")!;
+
+    expect(() => assertToolAllowed(policy, "find")).not.toThrow();
+    expect(() => assertToolAllowed(policy, "aggregate")).toThrow(
+      'API key "support-bot" is not allowed to call tool "aggregate"'
+    );
+  });
+
+  it("allows every tool to keys without a tool list", () => {
+    const policy = authenticate("admin-key")!;
+
+    expect(() => assertToolAllowed(policy, "aggregate")).not.toThrow();
+  });
+});
+
+describe("assertCollectionsAllowed", () => {
+  it("matches collection names and patterns", () => {
+    const policy = authenticate("support-key")!;
+
+    expect(() =>
+      assertCollectionsAllowed(policy, ["tickets", "faq_billing"])
+    ).not.toThrow();
+  });
+
+  it("names the first collection that is not allowed", () => {
+    const policy = authenticate("support-key")!;
+
+    expect(() =>
+      assertCollectionsAllowed(policy, ["tickets", "users", "orders"])
+    ).toThrow(
+      new AccessDeniedError(
+        'API key "support-bot" is not allowed to read collection "users"'
+      )
+    );
+  });
+});
+
+describe("assertTargetAllowed", () => {
+  it("checks both the source and the database", () => {
+    const policy = authenticate("support-key")!;
+
+    expect(() =>
+      assertTargetAllowed(policy, { source: "main", database: "support" })
+    ).not.toThrow();
+    expect(() =>
+      assertTargetAllowed(policy, { source: "main", database: "billing" })
+    ).toThrow(AccessDeniedError);
+    expect(() =>
+      assertTargetAllowed(policy, { source: "archive", database: "support" })
+    ).toThrow(
+      'API key "support-bot" is not allowed to use database "support" of data source "archive"'
+    );
+  });
+});
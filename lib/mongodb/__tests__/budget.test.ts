@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { fitDocuments } from "../budget";
+import { serialize, toExtendedJson } from "../serializer";
+
+const docs = Array.from({ length: 10 }, (_, i) => ({
+  _id: i,
+  name: `customer ${i}`,
+  tags: ["a", "b", "c"],
+}));
+
+describe("fitDocuments", () => {
+  it("keeps the emitted text and structured copy within the budget", () => {
+    const maxBytes = 1000;
+    const { documents, omitted } = fitDocuments(docs, maxBytes);
+
+    const emitted =
+      Buffer.byteLength(serialize(documents)) +
+      Buffer.byteLength(JSON.stringify(toExtendedJson(documents)));
+    expect(emitted).toBeLessThanOrEqual(maxBytes);
+    expect(omitted).toBe(docs.length - documents.length);
+    expect(omitted).toBeGreaterThan(0);
+  });
+
+  it("always keeps the first document", () => {
+    const big = { _id: 1, text: "x".repeat(4000) };
+
+    expect(fitDocuments([big, docs[0]], 100)).toMatchObject({
+      documents: [big],
+      omitted: 1,
+    });
+  });
+
+  it("cuts oversized strings", () => {
+    const { documents } = fitDocuments([{ text: "x".repeat(5000) }], 100_000);
+
+    expect(documents[0].text).toMatch(/…\(truncated 904B\)$/);
+  });
+});
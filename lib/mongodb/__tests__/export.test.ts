@@ -0,0 +1,151 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  checkExportQuery,
+  createExportLink,
+  openExport,
+  type ExportRequest,
+} from "../export";
+import { encodeCursor } from "../pagination";
+import { AccessDeniedError, findAccessPolicy } from "../access";
+import { ValidationError } from "../security";
+import { checkOperationLimits, RateLimitError } from "../rateLimit";
+
+const request: ExportRequest = {
+  query: {
+    source: "default",
+    database: "app",
+    collection: "users",
+    filter: { status: "active" },
+  },
+  format: "ndjson",
+};
+
+function getToken(caller = "analyst", exportRequest = request): string {
+  const { url } = createExportLink(
+    caller,
+    exportRequest,
+    "https://mcp.example.com"
+  );
+  return new URL(url).searchParams.get("token")!;
+}
+
+beforeAll(() => {
+  process.env.EXPORT_SECRET = "test-export-secret";
+  process.env.API_KEYS = JSON.stringify([
+    { name: "analyst", key: "analyst-key", tools: ["export"] },
+    { name: "reader", key: "reader-key", tools: ["find"] },
+    {
+      name: "throttled",
+      key: "throttled-key",
+      tools: ["export"],
+      rateLimit: { requestsPerMinute: 1 },
+    },
+  ]);
+  process.env.REDACTION_POLICY = JSON.stringify({ users: { email: "drop" } });
+  // Downloads are audited to stdout
+  vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("export links", () => {
+  it("link to the export route on the given origin", () => {
+    const link = createExportLink(
+      "analyst",
+      request,
+      "https://mcp.example.com"
+    );
+
+    expect(link.url).toMatch(/^https:\/\/mcp\.example\.com\/export\?token=/);
+    expect(link.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("are rejected once expired", async () => {
+    const token = getToken();
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 301_000);
+
+    await expect(openExport(token)).rejects.toThrow("Export link expired");
+  });
+
+  it("are rejected when edited", async () => {
+    const [data, signature] = getToken().split(".");
+    const edited = Buffer.from(
+      Buffer.from(data, "base64url").toString().replace('"analyst"', '"reader"')
+    ).toString("base64url");
+
+    await expect(openExport(`${edited}.${signature}`)).rejects.toThrow(
+      "signature mismatch"
+    );
+  });
+
+  it("don't accept pagination cursors signed with the same secret", async () => {
+    process.env.CURSOR_SECRET = process.env.EXPORT_SECRET;
+    const cursor = encodeCursor({ collection: "users" }, [1]);
+
+    await expect(openExport(cursor)).rejects.toThrow(ValidationError);
+  });
+
+  it("re-check the key the link was issued to", async () => {
+    await expect(openExport(getToken("former-employee"))).rejects.toThrow(
+      AccessDeniedError
+    );
+    await expect(openExport(getToken("reader"))).rejects.toThrow(
+      AccessDeniedError
+    );
+  });
+
+  it("count every download against the key's rate limit", async () => {
+    // The first download of the minute used the only token
+    await checkOperationLimits(
+      findAccessPolicy("throttled")!,
+      "export-download"
+    );
+
+    await expect(openExport(getToken("throttled"))).rejects.toThrow(
+      RateLimitError
+    );
+  });
+
+  it("re-check the query for redacted fields", async () => {
+    const token = getToken("analyst", {
+      ...request,
+      query: { ...request.query, filter: { email: { $regex: "^a" } } },
+    });
+
+    await expect(openExport(token)).rejects.toThrow(
+      'Field "email" cannot be used in a filter'
+    );
+  });
+});
+
+describe("checkExportQuery", () => {
+  const policy = () => findAccessPolicy("analyst")!;
+
+  it("rejects banned filter operators", () => {
+    expect(() =>
+      checkExportQuery(policy(), {
+        ...request.query,
+        filter: { $where: "sleep(1000)" },
+      })
+    ).toThrow(ValidationError);
+  });
+
+  it("rejects pipelines that read redacted fields", () => {
+    expect(() =>
+      checkExportQuery(policy(), {
+        ...request.query,
+        filter: undefined,
+        pipeline: [{ $project: { leak: { $getField: "email" } } }],
+      })
+    ).toThrow(ValidationError);
+  });
+
+  it("returns the rules to redact the output with", () => {
+    expect(checkExportQuery(policy(), request.query)).toEqual({
+      email: "drop",
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { Decimal128, Int32, Long, type Document } from "bson";
+import type { Collection, ExplainVerbosityLike } from "mongodb";
+import { describe, expect, it } from "vitest";
+import { explainGoverned, governPipeline } from "../governor";
+import type { AccessLimits } from "../access";
+
+const limits: AccessLimits = {
+  maxLimit: 100,
+  maxSampleSize: 1000,
+  maxTimeMS: 5000,
+  maxResponseBytes: 100_000,
+  allowDiskUse: false,
+};
+
+describe("governPipeline", () => {
+  it("caps $sample sizes, including BSON numbers", () => {
+    for (const size of [5000, new Long(5000), Decimal128.fromString("5E+3")]) {
+      expect(() => governPipeline([{ $sample: { size } }], limits)).toThrow(
+        "$sample size 5000 at pipeline[0].$sample.size is over this API key's limit of 1000"
+      );
+    }
+
+    expect(() =>
+      governPipeline([{ $sample: { size: new Int32(10) } }], limits)
+    ).not.toThrow();
+  });
+
+  it("rejects $sample without a numeric size", () => {
+    for (const spec of [
+      { size: "5000" },
+      { size: { $numberLong: "5000" } },
+      {},
+    ]) {
+      expect(() =>
+        governPipeline([{ $facet: { sampled: [{ $sample: spec }] } }], limits)
+      ).toThrow(
+        "$sample at pipeline[0].$facet.sampled[0].$sample needs a numeric size"
+      );
+    }
+  });
+
+  it("caps $facet outputs at maxLimit", () => {
+    expect(
+      governPipeline([{ $facet: { all: [{ $match: {} }] } }], limits)
+    ).toEqual([{ $facet: { all: [{ $match: {} }, { $limit: 100 }] } }]);
+  });
+});
+
+describe("explainGoverned", () => {
+  const orders = {
+    collectionName: "orders",
+    estimatedDocumentCount: async () => 2_000_000,
+  } as unknown as Collection;
+  const scanLimits = { ...limits, maxScanDocuments: 1_000_000 };
+
+  function explainer(stage: string) {
+    const verbosities: ExplainVerbosityLike[] = [];
+    const explain = async (verbosity: ExplainVerbosityLike) => {
+      verbosities.push(verbosity);
+      return { queryPlanner: { winningPlan: { stage } } } as Document;
+    };
+    return { verbosities, explain };
+  }
+
+  it("skips execution stats for a query that would scan the collection", async () => {
+    const { verbosities, explain } = explainer("COLLSCAN");
+    const result = await explainGoverned(
+      orders,
+      scanLimits,
+      "executionStats",
+      explain
+    );
+
+    expect(verbosities).toEqual(["queryPlanner"]);
+    expect(result.explain).toEqual({
+      queryPlanner: { winningPlan: { stage: "COLLSCAN" } },
+    });
+    expect(result.executionSkipped).toContain("Execution stats were skipped");
+  });
+
+  it("collects execution stats for indexed queries", async () => {
+    const { verbosities, explain } = explainer("IXSCAN");
+    const result = await explainGoverned(
+      orders,
+      scanLimits,
+      "executionStats",
+      explain
+    );
+
+    expect(verbosities).toEqual(["queryPlanner", "executionStats"]);
+    expect(result.executionSkipped).toBeUndefined();
+  });
+});
@@ -0,0 +1,20 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+beforeAll(() => {
+  process.env.MCP_CONFIG = JSON.stringify({ limits: { maxLimit: 0 } });
+});
+
+afterAll(() => {
+  delete process.env.MCP_CONFIG;
+});
+
+describe("health route", () => {
+  it("reports an invalid config as down instead of failing to load", async () => {
+    const { GET } = await import("@/app/health/route");
+
+    const response = await GET(new Request("https://mcp.example.com/health"));
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ status: "down" });
+  });
+});
@@ -0,0 +1,126 @@
+import { ObjectId } from "bson";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  buildResumeFilter,
+  decodeCursor,
+  encodeCursor,
+  withTiebreaker,
+} from "../pagination";
+import { ValidationError } from "../security";
+import { getPaginationSort } from "../tools/aggregate";
+
+const scope = {
+  tool: "find",
+  source: "default",
+  db: "app",
+  collection: "orders",
+  filter: { status: "paid" },
+  sort: { createdAt: -1, _id: 1 },
+};
+
+beforeEach(() => {
+  process.env.CURSOR_SECRET = "test-cursor-secret";
+});
+
+describe("cursors", () => {
+  it("round-trips the sort key values", () => {
+    const values = [new Date("2024-01-31T00:00:00Z"), new ObjectId()];
+    const cursor = encodeCursor(scope, values);
+
+    expect(decodeCursor(cursor, scope)).toEqual(values);
+  });
+
+  it("rejects a cursor whose payload was edited", () => {
+    const cursor = encodeCursor(scope, [1, 2]);
+    const [data, signature] = cursor.split(".");
+    const edited = Buffer.from(
+      Buffer.from(data, "base64url").toString().replace('"1"', '"9"')
+    ).toString("base64url");
+
+    expect(() => decodeCursor(`${edited}.${signature}`, scope)).toThrow(
+      "signature mismatch"
+    );
+  });
+
+  it("rejects a cursor signed with another secret", () => {
+    const cursor = encodeCursor(scope, [1, 2]);
+    process.env.CURSOR_SECRET = "another-secret";
+
+    expect(() => decodeCursor(cursor, scope)).toThrow(ValidationError);
+  });
+
+  it("rejects a cursor from another query", () => {
+    const cursor = encodeCursor(scope, [1, 2]);
+
+    expect(() =>
+      decodeCursor(cursor, { ...scope, filter: { status: "open" } })
+    ).toThrow("different collection, filter, pipeline or sort");
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(() => decodeCursor("not-a-cursor", scope)).toThrow(
+      "malformed token"
+    );
+  });
+});
+
+describe("buildResumeFilter", () => {
+  it("resumes strictly after the last sort key", () => {
+    const sort = withTiebreaker({ total: -1 });
+
+    expect(buildResumeFilter(sort, [10, 5])).toEqual({
+      $or: [
+        { $or: [{ total: { $lt: 10 } }, { total: null }] },
+        { $and: [{ total: 10 }, { _id: { $gt: 5 } }] },
+      ],
+    });
+  });
+
+  it("rejects values that don't match the sort", () => {
+    expect(() => buildResumeFilter({ _id: 1 }, [1, 2])).toThrow(
+      "sort key mismatch"
+    );
+  });
+});
+
+describe("getPaginationSort", () => {
+  it("pages on the final $sort, or on _id without one", () => {
+    expect(
+      getPaginationSort([
+        { $match: { status: "paid" } },
+        { $project: { total: 1, _id: 1 } },
+        { $sort: { total: -1 } },
+      ])
+    ).toEqual({ total: -1, _id: 1 });
+    expect(getPaginationSort([{ $set: { paid: true } }])).toEqual({ _id: 1 });
+  });
+
+  it("gives no cursor when _id may repeat or be reshaped", () => {
+    const reshaping = [
+      { $unwind: "$items" },
+      { $group: { _id: "$status", n: { $sum: 1 } } },
+      { $replaceRoot: { newRoot: "$customer" } },
+      { $project: { _id: "$customerId" } },
+      { $set: { "_id.kind": "order" } },
+      {
+        $lookup: {
+          from: "users",
+          localField: "u",
+          foreignField: "_id",
+          as: "_id",
+        },
+      },
+      { $sample: { size: 10 } },
+    ];
+
+    for (const stage of reshaping) {
+      expect(getPaginationSort([stage, { $sort: { total: -1 } }])).toBeNull();
+    }
+  });
+
+  it("gives no cursor when stages follow the $sort", () => {
+    expect(
+      getPaginationSort([{ $sort: { total: -1 } }, { $limit: 10 }])
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { validatePipeline } from "../pipeline";
+import { AccessDeniedError, type AccessPolicy } from "../access";
+import { ValidationError } from "../security";
+
+const policy: AccessPolicy = {
+  name: "analyst",
+  tools: null,
+  sources: ["*"],
+  databases: ["*"],
+  collections: ["orders", "customers"],
+  limits: {
+    maxLimit: 100,
+    maxSampleSize: 1000,
+    maxTimeMS: 5000,
+    maxResponseBytes: 100_000,
+    allowDiskUse: false,
+  },
+};
+
+function rejection(pipeline: Record<string, unknown>[]): unknown {
+  try {
+    validatePipeline(pipeline, policy);
+  } catch (error) {
+    return error;
+  }
+  return null;
+}
+
+describe("validatePipeline", () => {
+  it("rejects write and admin stages with their path", () => {
+    expect(rejection([{ $match: {} }, { $out: "copy" }])).toEqual(
+      new ValidationError(
+        'Pipeline rejected at pipeline[1].$out: stage "$out" is not allowed because it writes data'
+      )
+    );
+    expect(rejection([{ $collStats: { count: {} } }])).toMatchObject({
+      message: expect.stringContaining(
+        'at pipeline[0].$collStats: stage "$collStats" is not allowed'
+      ),
+    });
+  });
+
+  it("rejects server-side JavaScript nested in sub-pipelines", () => {
+    expect(
+      rejection([
+        {
+          $facet: {
+            recent: [{ $match: { $where: "this.total > 10" } }],
+          },
+        },
+      ])
+    ).toMatchObject({
+      message:
+        'Pipeline rejected at pipeline[0].$facet.recent[0].$match.$where: operator "$where" is not allowed because it runs server-side JavaScript',
+    });
+
+    expect(
+      rejection([
+        {
+          $lookup: {
+            from: "customers",
+            as: "customer",
+            pipeline: [
+              {
+                $set: {
+                  score: {
+                    $function: { body: "return 1", args: [], lang: "js" },
+                  },
+                },
+              },
+            ],
+          },
+        },
+      ])
+    ).toMatchObject({
+      message: expect.stringContaining(
+        "at pipeline[0].$lookup.pipeline[0].$set.score.$function"
+      ),
+    });
+  });
+
+  it("rejects unknown stages and operators", () => {
+    expect(rejection([{ $search: { text: {} } }])).toMatchObject({
+      message: expect.stringContaining(
+        'at pipeline[0].$search: stage "$search" is not supported'
+      ),
+    });
+    expect(
+      rejection([{ $project: { total: { $madeUp: ["$a"] } } }])
+    ).toMatchObject({
+      message:
+        'Pipeline rejected at pipeline[0].$project.total.$madeUp: operator "$madeUp" is not supported',
+    });
+  });
+
+  it("rejects joins of collections the key may not read", () => {
+    const error = rejection([
+      { $unionWith: { coll: "orders", pipeline: [{ $unionWith: "payroll" }] } },
+    ]);
+
+    expect(error).toBeInstanceOf(AccessDeniedError);
+    expect(error).toMatchObject({
+      message: expect.stringContaining(
+        'collection "payroll" (referenced at pipeline[0].$unionWith.pipeline[0].$unionWith)'
+      ),
+    });
+  });
+
+  it("lets read-only pipelines through, and $literal contents", () => {
+    expect(
+      rejection([
+        { $match: { status: "paid" } },
+        {
+          $lookup: {
+            from: "customers",
+            localField: "customerId",
+            foreignField: "_id",
+            as: "customer",
+          },
+        },
+        { $group: { _id: "$status", total: { $sum: "$total" } } },
+        { $set: { note: { $literal: { $where: "not an operator" } } } },
+      ])
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  createMemoryQuotaStore,
+  createMongoQuotaStore,
+  setQuotaStore,
+  withRateLimit,
+} from "../rateLimit";
+import { findAccessPolicy, toAuthInfo, type ToolExtra } from "../access";
+import { recordInvocation } from "../invocation";
+
+function extraFor(name: string): ToolExtra {
+  const policy = findAccessPolicy(name)!;
+  return { authInfo: toAuthInfo(`${name}-key`, policy) } as ToolExtra;
+}
+
+/** A tool returning the given number of documents */
+function tool(name: string, documents = 0) {
+  return withRateLimit(name, async () => {
+    recordInvocation({ documentsReturned: documents });
+    return { content: [] };
+  });
+}
+
+beforeAll(() => {
+  process.env.API_KEYS = JSON.stringify([
+    {
+      name: "limited",
+      key: "limited-key",
+      rateLimit: {
+        requestsPerMinute: 2,
+        tools: { count: { requestsPerMinute: 1 } },
+      },
+    },
+    {
+      name: "metered",
+      key: "metered-key",
+      quota: { documentsPerDay: 3 },
+    },
+  ]);
+});
+
+beforeEach(() => {
+  setQuotaStore(createMemoryQuotaStore());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("withRateLimit", () => {
+  it("rejects calls past the key's rate with a retry hint", async () => {
+    const find = tool("find");
+    const extra = extraFor("limited");
+
+    expect(await find({}, extra)).toEqual({ content: [] });
+    expect(await find({}, extra)).toEqual({ content: [] });
+    expect(await find({}, extra)).toMatchObject({
+      isError: true,
+      _meta: { error: "rate_limited", retryAfterSeconds: 30 },
+    });
+  });
+
+  it("refills the bucket over time", async () => {
+    vi.useFakeTimers();
+    const find = tool("find");
+    const extra = extraFor("limited");
+
+    await find({}, extra);
+    await find({}, extra);
+    vi.advanceTimersByTime(30_000);
+
+    expect(await find({}, extra)).toEqual({ content: [] });
+  });
+
+  it("applies per-tool limits on top of the key's", async () => {
+    const extra = extraFor("limited");
+
+    expect(await tool("count")({}, extra)).toEqual({ content: [] });
+    expect(await tool("count")({}, extra)).toMatchObject({
+      isError: true,
+      content: [{ text: expect.stringContaining('call "count" 1 times') }],
+    });
+  });
+
+  it("rejects calls once the daily document quota is used", async () => {
+    const extra = extraFor("metered");
+    const find = tool("find", 3);
+
+    expect(await find({}, extra)).toEqual({ content: [] });
+    expect(await find({}, extra)).toMatchObject({
+      isError: true,
+      _meta: { error: "quota_exceeded" },
+    });
+  });
+});
+
+describe("createMongoQuotaStore", () => {
+  it("requires its own connection string", () => {
+    delete process.env.RATE_LIMIT_MONGODB_URI;
+
+    expect(() => createMongoQuotaStore()).toThrow(
+      "RATE_LIMIT_MONGODB_URI environment variable is not set"
+    );
+  });
+});
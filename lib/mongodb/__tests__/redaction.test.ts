@@ -0,0 +1,200 @@
+import { Double, Int32, Long } from "bson";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  assertFilterNotRedacted,
+  getAggregationRedactionRules,
+  getRedactionRules,
+  redactDocuments,
+} from "../redaction";
+import { ValidationError } from "../security";
+
+beforeAll(() => {
+  process.env.REDACTION_SECRET = "test-redaction-secret";
+  process.env.REDACTION_POLICY = JSON.stringify({
+    users: { email: "drop", "auth.token": "drop" },
+    accounts: { iban: "mask", balance: "hash" },
+  });
+});
+
+describe("redactDocuments", () => {
+  it("drops redacted fields, including inside arrays", () => {
+    const docs = [
+      { _id: 1, email: "a@x.com", auth: [{ token: "t", kind: "pw" }] },
+    ];
+
+    redactDocuments(docs, getRedactionRules("users"));
+
+    expect(docs).toEqual([{ _id: 1, auth: [{ kind: "pw" }] }]);
+  });
+
+  it("hashes BSON numbers like the numbers they promote to", () => {
+    const docs = [5, new Int32(5), new Long(5), new Double(5)].map(
+      (balance) => ({ balance })
+    );
+
+    redactDocuments(docs, getRedactionRules("accounts"));
+
+    expect(new Set(docs.map(({ balance }) => balance)).size).toBe(1);
+  });
+
+  it("requires REDACTION_SECRET for hash rules", async () => {
+    const secret = process.env.REDACTION_SECRET;
+    delete process.env.REDACTION_SECRET;
+    vi.resetModules();
+
+    try {
+      const redaction = await import("../redaction");
+      expect(() => redaction.getRedactionRules("accounts")).toThrow(
+        "REDACTION_SECRET environment variable is not set"
+      );
+    } finally {
+      process.env.REDACTION_SECRET = secret;
+    }
+  });
+});
+
+describe("getAggregationRedactionRules", () => {
+  const rejects = (pipeline: Record<string, unknown>[], collection = "users") =>
+    expect(() => getAggregationRedactionRules(collection, pipeline)).toThrow(
+      ValidationError
+    );
+
+  it("rejects field references to redacted fields", () => {
+    rejects([{ $project: { leak: "$email" } }]);
+    rejects([{ $group: { _id: "$auth.token" } }]);
+  });
+
+  it("treats $match values as literals but reads $expr", () => {
+    expect(() =>
+      getAggregationRedactionRules("users", [
+        { $match: { note: "$email", tags: { $in: ["$auth.token"] } } },
+      ])
+    ).not.toThrow();
+    rejects([{ $match: { email: "a@x.com" } }]);
+    rejects([{ $match: { $expr: { $eq: ["$email", "a@x.com"] } } }]);
+    rejects([
+      { $match: { $or: [{ $expr: { $gt: [{ $getField: "email" }, ""] } }] } },
+    ]);
+  });
+
+  it("rejects $getField on a redacted field of the current document", () => {
+    rejects([{ $project: { leak: { $getField: "email" } } }]);
+    rejects([{ $project: { leak: { $getField: { field: "email" } } } }]);
+    rejects([
+      {
+        $project: {
+          leak: {
+            $getField: { field: { $literal: "email" }, input: "$$CURRENT" },
+          },
+        },
+      },
+    ]);
+  });
+
+  it("rejects $getField with a computed field name", () => {
+    rejects([
+      { $project: { leak: { $getField: { $concat: ["em", "ail"] } } } },
+    ]);
+  });
+
+  it("rejects $setField and $unsetField on the whole document", () => {
+    rejects([
+      {
+        $replaceWith: {
+          $setField: { field: "copy", input: "$$ROOT", value: 1 },
+        },
+      },
+    ]);
+    rejects([
+      { $replaceWith: { $unsetField: { field: "name", input: "$$ROOT" } } },
+    ]);
+  });
+
+  it("rejects pipelines joining redacted fields of another collection", () => {
+    rejects(
+      [
+        {
+          $lookup: {
+            from: "users",
+            localField: "userId",
+            foreignField: "_id",
+            as: "user",
+          },
+        },
+        { $project: { leak: "$user.email" } },
+      ],
+      "orders"
+    );
+    rejects(
+      [
+        {
+          $lookup: {
+            from: "users",
+            pipeline: [{ $project: { leak: { $getField: "email" } } }],
+            as: "user",
+          },
+        },
+      ],
+      "orders"
+    );
+  });
+
+  it("redacts documents embedded by $lookup", () => {
+    const rules = getAggregationRedactionRules("orders", [
+      {
+        $lookup: {
+          from: "users",
+          localField: "userId",
+          foreignField: "_id",
+          as: "user",
+        },
+      },
+    ]);
+
+    expect(rules).toMatchObject({ "user.email": "drop" });
+  });
+
+  it("allows $getField on unredacted fields and other inputs", () => {
+    expect(() =>
+      getAggregationRedactionRules("users", [
+        { $project: { name: { $getField: "name" } } },
+        { $project: { n: { $getField: { field: "x", input: "$name" } } } },
+      ])
+    ).not.toThrow();
+  });
+});
+
+describe("assertFilterNotRedacted", () => {
+  const check = (filter: Record<string, unknown>) => () =>
+    assertFilterNotRedacted(filter, getRedactionRules("users"));
+
+  it("rejects filters that match on redacted fields", () => {
+    expect(check({ email: { $regex: "^a" } })).toThrow(
+      'Field "email" cannot be used in a filter'
+    );
+    expect(check({ "auth.token": "t" })).toThrow(ValidationError);
+    expect(check({ auth: { $elemMatch: { token: "t" } } })).toThrow(
+      ValidationError
+    );
+    expect(check({ $or: [{ name: "a" }, { email: "a@x.com" }] })).toThrow(
+      ValidationError
+    );
+    expect(check({ $expr: { $eq: ["$email", "a@x.com"] } })).toThrow(
+      ValidationError
+    );
+    expect(check({ $expr: { $eq: [{ $getField: "email" }, "a"] } })).toThrow(
+      ValidationError
+    );
+  });
+
+  it("rejects $text, which reads fields the filter doesn't name", () => {
+    expect(check({ $text: { $search: "a@x.com" } })).toThrow("$text");
+  });
+
+  it("allows filters on other fields", () => {
+    expect(check({ name: "a", "auth.kind": "pw" })).not.toThrow();
+    expect(() =>
+      assertFilterNotRedacted({ email: "a" }, getRedactionRules("orders"))
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,67 @@
+import { ObjectId } from "bson";
+import { describe, expect, it } from "vitest";
+import { getColumns, serializeDocuments, toCsvLine } from "../serializer";
+
+describe("csv", () => {
+  it("quotes fields with commas, quotes and newlines", () => {
+    const csv = serializeDocuments(
+      [{ name: 'Ann "Jr", PhD', note: "line 1\nline 2", city: "Oslo" }],
+      { format: "csv" }
+    );
+
+    expect(csv).toBe('name,note,city\n"Ann ""Jr"", PhD","line 1\nline 2",Oslo');
+  });
+
+  it("flattens nested fields into dotted columns and keeps arrays whole", () => {
+    const docs = [
+      { _id: 1, address: { city: "Oslo", zip: "0150" }, tags: ["a", "b"] },
+      { _id: 2, address: { city: "Bergen" }, phone: "555" },
+    ];
+
+    expect(serializeDocuments(docs, { format: "csv" })).toBe(
+      [
+        "_id,address.city,address.zip,tags,phone",
+        '1,Oslo,0150,"[""a"",""b""]",',
+        "2,Bergen,,,555",
+      ].join("\n")
+    );
+  });
+
+  it("writes the same lines one row at a time", () => {
+    const id = new ObjectId("65a1b2c3d4e5f60718293a4b");
+    const docs = [{ _id: id, total: 5, address: { city: "Oslo, NO" } }];
+    const columns = getColumns(docs);
+
+    expect(columns).toEqual(["_id", "total", "address.city"]);
+    expect([toCsvLine(columns), toCsvLine(columns, docs[0])]).toEqual([
+      "_id,total,address.city",
+      '65a1b2c3d4e5f60718293a4b,5,"Oslo, NO"',
+    ]);
+  });
+
+  it("uses the given columns, in order", () => {
+    const csv = serializeDocuments([{ a: 1, b: { c: 2 }, d: 3 }], {
+      format: "csv",
+      columns: ["d", "b.c", "missing"],
+    });
+
+    expect(csv).toBe("d,b.c,missing\n3,2,");
+  });
+});
+
+describe("markdown", () => {
+  it("escapes pipes and backslashes and keeps rows on one line", () => {
+    const markdown = serializeDocuments(
+      [{ expr: "a|b", path: "C:\\temp", note: "one\ntwo" }],
+      { format: "markdown" }
+    );
+
+    expect(markdown).toBe(
+      [
+        "| expr | path | note |",
+        "|---|---|---|",
+        "| a\\|b | C:\\\\temp | one<br>two |",
+      ].join("\n")
+    );
+  });
+});
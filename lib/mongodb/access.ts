@@ -0,0 +1,425 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { RequestInfo } from "@modelcontextprotocol/sdk/types.js";
+import { SECURITY_LIMITS } from "./security";
+import { getConfig, isToolEnabled, type CollectionLimits } from "./config";
+
+/**
+ * API key registry and per-key access policies.
+ *
+ * Keys are configured through the API_KEYS env var as a JSON array, e.g.
+ *   [{ "name": "support-bot", "key": "...", "tools": ["find", "count"],
+ *      "sources": ["main"], "databases": ["support"],
+ *      "collections": ["tickets", "faq_*"], "limits": { "maxLimit": 20 } }]
+ * A single API_KEY env var is still accepted and grants full access.
+ */
+
+/** Limits a key may only lower, below the server-wide limits */
+const CAPPED_LIMITS = [
+  "maxLimit",
+  "maxSampleSize",
+  "maxTimeMS",
+  "maxResponseBytes",
+] as const;
+
+const limitOverridesSchema = z
+  .object({
+    maxLimit: z.number().int().min(1),
+    maxSampleSize: z.number().int().min(1),
+    maxTimeMS: z.number().int().min(1),
+    maxResponseBytes: z.number().int().min(1),
+    maxScanDocuments: z.number().int().min(0),
+    allowDiskUse: z.boolean(),
+  })
+  .partial()
+  .strict()
+  // Checked when keys are parsed, not on import, since it reads the config
+  .superRefine((limits, ctx) => {
+    for (const key of CAPPED_LIMITS) {
+      const value = limits[key];
+      if (value !== undefined && value > SECURITY_LIMITS[key]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `Must not be greater than limits.${key} (${SECURITY_LIMITS[key]})`,
+        });
+      }
+    }
+  });
+
+const bucketSchema = z
+  .object({
+    requestsPerMinute: z.number().positive(),
+    burst: z.number().int().min(1).optional(),
+  })
+  .strict();
+
+const rateLimitSchema = bucketSchema
+  .extend({
+    tools: z.record(z.string().min(1), bucketSchema).optional(),
+  })
+  .strict();
+
+const quotaSchema = z
+  .object({
+    documentsPerDay: z.number().int().min(1),
+    executionSecondsPerDay: z.number().positive(),
+  })
+  .partial()
+  .strict();
+
+const apiKeyEntrySchema = z
+  .object({
+    name: z.string().min(1),
+    key: z.string().min(1),
+    tools: z.array(z.string().min(1)).optional(),
+    sources: z.array(z.string().min(1)).optional(),
+    databases: z.array(z.string().min(1)).optional(),
+    collections: z.array(z.string().min(1)).optional(),
+    limits: limitOverridesSchema.optional(),
+    rateLimit: rateLimitSchema.optional(),
+    quota: quotaSchema.optional(),
+  })
+  .strict();
+
+const apiKeyRegistrySchema = z
+  .array(apiKeyEntrySchema)
+  .min(1)
+  .refine(
+    (entries) =>
+      new Set(entries.map((entry) => entry.name)).size === entries.length,
+    { message: "API key names must be unique" }
+  );
+
+type ApiKeyEntry = z.infer<typeof apiKeyEntrySchema>;
+
+export interface AccessLimits {
+  maxLimit: number;
+  maxSampleSize: number;
+  maxTimeMS: number;
+  maxResponseBytes: number;
+  /** Collections with more documents than this can't be fully scanned */
+  maxScanDocuments?: number;
+  /** Whether sorts and groups may spill to disk */
+  allowDiskUse: boolean;
+}
+
+export type RateLimitConfig = z.infer<typeof rateLimitSchema>;
+
+export type QuotaConfig = z.infer<typeof quotaSchema>;
+
+export interface AccessPolicy {
+  /** Name of the API key, used as the caller identity */
+  name: string;
+  /** Tools the key may call, or null for every tool */
+  tools: string[] | null;
+  /** Glob patterns of data sources the key may use */
+  sources: string[];
+  /** Glob patterns of databases the key may use, on any of those sources */
+  databases: string[];
+  /** Glob patterns of collections the key may read */
+  collections: string[];
+  limits: AccessLimits;
+  /** Token bucket limits, or undefined for the server default */
+  rateLimit?: RateLimitConfig;
+  /** Daily usage quotas, or undefined for none */
+  quota?: QuotaConfig;
+}
+
+/**
+ * The part of the MCP request context tools need for access checks and
+ * tracing.
+ */
+export interface ToolExtra {
+  authInfo?: AuthInfo;
+  requestInfo?: RequestInfo;
+}
+
+/**
+ * Error thrown when a caller is not allowed to perform an operation.
+ */
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(`Access denied: ${message}`);
+    this.name = "AccessDeniedError";
+  }
+}
+
+let registry: ApiKeyEntry[] | null = null;
+
+/**
+ * Load and validate the API key registry from the environment.
+ */
+function getApiKeyRegistry(): ApiKeyEntry[] {
+  if (registry) {
+    return registry;
+  }
+
+  const rawKeys = process.env.API_KEYS;
+
+  if (rawKeys) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawKeys);
+    } catch {
+      throw new Error("API_KEYS environment variable is not valid JSON");
+    }
+
+    const result = apiKeyRegistrySchema.safeParse(parsed);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(
+        `API_KEYS environment variable is invalid at "${issue.path.join(".")}": ${issue.message}`
+      );
+    }
+
+    registry = result.data;
+    return registry;
+  }
+
+  const apiKey = process.env.API_KEY;
+
+  if (!apiKey) {
+    throw new Error(
+      "API_KEYS or API_KEY environment variable is not configured"
+    );
+  }
+
+  registry = [{ name: "default", key: apiKey }];
+  return registry;
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function toPolicy(entry: ApiKeyEntry): AccessPolicy {
+  return {
+    name: entry.name,
+    tools: entry.tools ?? null,
+    sources: entry.sources ?? ["*"],
+    databases: entry.databases ?? ["*"],
+    collections: entry.collections ?? ["*"],
+    limits: {
+      maxLimit: entry.limits?.maxLimit ?? SECURITY_LIMITS.maxLimit,
+      maxSampleSize:
+        entry.limits?.maxSampleSize ?? SECURITY_LIMITS.maxSampleSize,
+      maxTimeMS: entry.limits?.maxTimeMS ?? SECURITY_LIMITS.maxTimeMS,
+      maxResponseBytes:
+        entry.limits?.maxResponseBytes ?? SECURITY_LIMITS.maxResponseBytes,
+      maxScanDocuments: entry.limits?.maxScanDocuments,
+      allowDiskUse: entry.limits?.allowDiskUse ?? false,
+    },
+    rateLimit: entry.rateLimit,
+    quota: entry.quota,
+  };
+}
+
+/**
+ * Look up the access policy for an API key.
+ * Returns null if the key is missing or unknown. Throws if the registry is
+ * misconfigured, even when no key is given.
+ */
+export function authenticate(apiKey: string | null): AccessPolicy | null {
+  const entries = getApiKeyRegistry();
+
+  if (!apiKey) {
+    return null;
+  }
+
+  const candidate = digest(apiKey);
+
+  // Compare digests in constant time against every key
+  let match: ApiKeyEntry | null = null;
+  for (const entry of entries) {
+    if (timingSafeEqual(candidate, digest(entry.key)) && !match) {
+      match = entry;
+    }
+  }
+
+  return match ? toPolicy(match) : null;
+}
+
+/**
+ * Look up the current access policy of an API key by name, e.g. to
+ * re-check a signed link issued to it. Returns null if the key is gone.
+ */
+export function findAccessPolicy(name: string): AccessPolicy | null {
+  const entry = getApiKeyRegistry().find(
+    (candidate) => candidate.name === name
+  );
+  return entry ? toPolicy(entry) : null;
+}
+
+/**
+ * Attach an access policy to the MCP auth info of a request.
+ */
+export function toAuthInfo(apiKey: string, policy: AccessPolicy): AuthInfo {
+  return {
+    token: apiKey,
+    clientId: policy.name,
+    scopes: policy.tools ?? ["*"],
+    extra: { policy },
+  };
+}
+
+/**
+ * Get the configured limits of a collection. An exact collection name
+ * takes precedence over patterns.
+ */
+function getCollectionLimits(collection: string): CollectionLimits {
+  const { collections } = getConfig();
+
+  if (Object.prototype.hasOwnProperty.call(collections, collection)) {
+    return collections[collection];
+  }
+
+  const pattern = Object.keys(collections).find((candidate) =>
+    matchesGlob(collection, candidate)
+  );
+  return pattern ? collections[pattern] : {};
+}
+
+/**
+ * Check if a policy may call every tool on every collection of every
+ * database, as required for operator endpoints (metrics, health details).
+ */
+export function hasFullAccess(policy: AccessPolicy): boolean {
+  return (
+    policy.tools === null &&
+    policy.sources.includes("*") &&
+    policy.databases.includes("*") &&
+    policy.collections.includes("*")
+  );
+}
+
+/**
+ * Get the access policy of the caller from the MCP request context.
+ * Given a collection, the policy's limits are tightened to the limits
+ * configured for it.
+ */
+export function getAccessPolicy(
+  extra: ToolExtra,
+  collection?: string
+): AccessPolicy {
+  const policy = extra.authInfo?.extra?.policy as AccessPolicy | undefined;
+
+  if (!policy) {
+    throw new AccessDeniedError("request is not authenticated");
+  }
+
+  return collection === undefined
+    ? policy
+    : withCollectionLimits(policy, collection);
+}
+
+/**
+ * Tighten a policy's limits to the limits configured for a collection.
+ */
+export function withCollectionLimits(
+  policy: AccessPolicy,
+  collection: string
+): AccessPolicy {
+  const overrides = getCollectionLimits(collection);
+  const limits = { ...policy.limits };
+  for (const key of ["maxLimit", "maxSampleSize", "maxTimeMS"] as const) {
+    limits[key] = Math.min(limits[key], overrides[key] ?? limits[key]);
+  }
+
+  return { ...policy, limits };
+}
+
+/**
+ * Check if a name matches a glob pattern (* and ? wildcards).
+ */
+export function matchesGlob(name: string, pattern: string): boolean {
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Check if the caller may read a collection.
+ */
+export function isCollectionAllowed(
+  policy: AccessPolicy,
+  collection: string
+): boolean {
+  return policy.collections.some((pattern) => matchesGlob(collection, pattern));
+}
+
+/**
+ * Check if the caller may use a data source.
+ */
+export function isSourceAllowed(policy: AccessPolicy, source: string): boolean {
+  return policy.sources.some((pattern) => matchesGlob(source, pattern));
+}
+
+/**
+ * Check if the caller may use a database of a data source.
+ */
+export function isTargetAllowed(
+  policy: AccessPolicy,
+  target: { source: string; database: string }
+): boolean {
+  return (
+    isSourceAllowed(policy, target.source) &&
+    policy.databases.some((pattern) => matchesGlob(target.database, pattern))
+  );
+}
+
+/**
+ * Ensure the caller may use a database of a data source.
+ * Throws an AccessDeniedError otherwise.
+ */
+export function assertTargetAllowed(
+  policy: AccessPolicy,
+  target: { source: string; database: string }
+): void {
+  if (!isTargetAllowed(policy, target)) {
+    throw new AccessDeniedError(
+      `API key "${policy.name}" is not allowed to use database "${target.database}" of data source "${target.source}"`
+    );
+  }
+}
+
+/**
+ * Ensure the tool is enabled and the caller may call it.
+ * Throws an AccessDeniedError otherwise.
+ */
+export function assertToolAllowed(policy: AccessPolicy, tool: string): void {
+  if (!isToolEnabled(tool)) {
+    throw new AccessDeniedError(`tool "${tool}" is disabled on this server`);
+  }
+
+  if (policy.tools && !policy.tools.includes(tool)) {
+    throw new AccessDeniedError(
+      `API key "${policy.name}" is not allowed to call tool "${tool}"`
+    );
+  }
+}
+
+/**
+ * Ensure the caller may read every given collection.
+ * Throws an AccessDeniedError naming the first one that is not allowed.
+ */
+export function assertCollectionsAllowed(
+  policy: AccessPolicy,
+  collections: string[]
+): void {
+  for (const collection of collections) {
+    if (!isCollectionAllowed(policy, collection)) {
+      throw new AccessDeniedError(
+        `API key "${policy.name}" is not allowed to read collection "${collection}"`
+      );
+    }
+  }
+}
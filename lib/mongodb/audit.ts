@@ -0,0 +1,328 @@
+import { appendFile } from "node:fs/promises";
+import { EJSON } from "bson";
+import { getClientFor } from "./client";
+import { AccessDeniedError, type ToolExtra } from "./access";
+import { ValidationError } from "./security";
+import { resolveTarget } from "./dataSources";
+import { runInvocation } from "./invocation";
+import {
+  getRedactionRules,
+  isRedacted,
+  type RedactionRules,
+} from "./redaction";
+
+/**
+ * Audit log of tool invocations.
+ *
+ * Every tool call and export download produces one entry, written to the
+ * sinks listed in the AUDIT_SINKS env var (comma-separated, default
+ * "stdout"):
+ * - stdout: one JSON line per entry
+ * - file: JSON lines appended to AUDIT_FILE
+ * - mongodb: documents inserted into AUDIT_COLLECTION (default "mcp_audit_log")
+ *   of AUDIT_DB (default "mcp_audit") via AUDIT_MONGODB_URI, which is
+ *   required. The log is kept out of the data sources' databases so tools
+ *   can't read it
+ */
+
+export interface AuditEntry {
+  timestamp: string;
+  /** Name of the API key that made the call */
+  caller: string | null;
+  tool: string;
+  /** Data source and database the call targeted */
+  source?: string;
+  database?: string;
+  collection?: string;
+  filter?: unknown;
+  pipeline?: unknown;
+  status: "success" | "rejected" | "error";
+  /** Why validation or access control rejected the call */
+  rejection?: string;
+  error?: string;
+  durationMs: number;
+  documentsReturned?: number;
+  /** Bytes streamed by an export download */
+  bytesReturned?: number;
+  /** Set when an export download stopped at its row or byte ceiling */
+  truncated?: boolean;
+}
+
+export interface AuditSink {
+  name: string;
+  write(entry: AuditEntry): Promise<void>;
+}
+
+const SCRUBBED = "[scrubbed]";
+
+/**
+ * Keys whose values are treated as secrets wherever they appear.
+ */
+const SECRET_KEY_PATTERN = /pass(word)?|secret|token|api[-_]?key|credential/i;
+
+const stdoutSink: AuditSink = {
+  name: "stdout",
+  async write(entry) {
+    console.log(JSON.stringify(entry));
+  },
+};
+
+function createFileSink(): AuditSink {
+  const path = process.env.AUDIT_FILE;
+
+  if (!path) {
+    throw new Error(
+      "AUDIT_FILE environment variable is not set (required for the file audit sink)"
+    );
+  }
+
+  return {
+    name: "file",
+    async write(entry) {
+      await appendFile(path, `${JSON.stringify(entry)}\n`);
+    },
+  };
+}
+
+function createMongoSink(uri = process.env.AUDIT_MONGODB_URI): AuditSink {
+  // The main connection is expected to be read-only
+  if (!uri) {
+    throw new Error(
+      "AUDIT_MONGODB_URI environment variable is not set (required for the mongodb audit sink)"
+    );
+  }
+
+  const dbName = process.env.AUDIT_DB || "mcp_audit";
+  const collectionName = process.env.AUDIT_COLLECTION || "mcp_audit_log";
+
+  return {
+    name: "mongodb",
+    async write(entry) {
+      const client = await getClientFor(uri);
+      await client
+        .db(dbName)
+        .collection<AuditEntry>(collectionName)
+        .insertOne({ ...entry }, { ignoreUndefined: true });
+    },
+  };
+}
+
+let sinks: AuditSink[] | null = null;
+
+/**
+ * Get the configured audit sinks.
+ */
+function getAuditSinks(): AuditSink[] {
+  if (sinks) {
+    return sinks;
+  }
+
+  const names = (process.env.AUDIT_SINKS ?? "stdout")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  sinks = names.map((name) => {
+    if (name === "stdout") return stdoutSink;
+    if (name === "file") return createFileSink();
+    if (name === "mongodb") return createMongoSink();
+    throw new Error(
+      `Unknown audit sink "${name}" in AUDIT_SINKS (expected stdout, file or mongodb)`
+    );
+  });
+
+  return sinks;
+}
+
+/**
+ * Add a custom audit sink alongside the configured ones.
+ */
+export function addAuditSink(sink: AuditSink): void {
+  getAuditSinks().push(sink);
+}
+
+function isFieldReference(value: unknown, rules: RedactionRules): boolean {
+  return (
+    typeof value === "string" &&
+    value.startsWith("$") &&
+    !value.startsWith("$$") &&
+    isRedacted(value.slice(1), rules)
+  );
+}
+
+/**
+ * Convert a filter or pipeline to plain JSON, replacing values of secret-like
+ * keys and of redacted fields (including literals compared against them).
+ */
+function scrub(value: unknown, rules: RedactionRules): unknown {
+  if (Array.isArray(value)) {
+    // e.g. { $eq: ["$email", "jane@x.com"] }
+    const comparesRedacted = value.some((item) =>
+      isFieldReference(item, rules)
+    );
+
+    return value.map((item) =>
+      comparesRedacted &&
+      !isFieldReference(item, rules) &&
+      typeof item !== "object"
+        ? SCRUBBED
+        : scrub(item, rules)
+    );
+  }
+
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const isField = !key.startsWith("$");
+    result[key] =
+      SECRET_KEY_PATTERN.test(key) || (isField && isRedacted(key, rules))
+        ? SCRUBBED
+        : scrub(item, rules);
+  }
+
+  return result;
+}
+
+type QueryDescription = Pick<
+  AuditEntry,
+  "source" | "database" | "collection" | "filter" | "pipeline"
+>;
+
+/**
+ * Extract the target, queried collection, filter and pipeline from tool
+ * arguments.
+ */
+function describeQuery(args: Record<string, unknown>): QueryDescription {
+  // Record what the caller asked for if it can't be resolved
+  let target: Pick<AuditEntry, "source" | "database"> = {
+    source: typeof args.source === "string" ? args.source : undefined,
+    database: typeof args.database === "string" ? args.database : undefined,
+  };
+  try {
+    const { source, database } = resolveTarget(target, null);
+    target = { source, database };
+  } catch {
+    // Keep the requested target
+  }
+
+  const collection =
+    typeof args.collection === "string" ? args.collection : undefined;
+
+  if (!collection) {
+    return target;
+  }
+
+  const operationArgs = (args.operationArgs ?? {}) as Record<string, unknown>;
+  const filter = args.filter ?? operationArgs.filter;
+  const pipeline = args.pipeline ?? operationArgs.pipeline;
+
+  // Normalize BSON values (ObjectId, Date, ...) to plain JSON first
+  const rules = getRedactionRules(collection);
+  const normalize = (query: unknown) =>
+    query === undefined
+      ? undefined
+      : scrub(EJSON.serialize({ query }).query, rules);
+
+  return {
+    ...target,
+    collection,
+    filter: normalize(filter),
+    pipeline: normalize(pipeline),
+  };
+}
+
+/**
+ * Describe the query of tool arguments, or nothing if they're malformed.
+ */
+function tryDescribeQuery(args: Record<string, unknown>): QueryDescription {
+  try {
+    return describeQuery(args);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Write an entry to every sink. Sink failures are logged, never thrown,
+ * so auditing can't break a tool call.
+ */
+async function writeAuditEntry(entry: AuditEntry): Promise<void> {
+  let targets: AuditSink[];
+  try {
+    targets = getAuditSinks();
+  } catch (error) {
+    console.error("Audit log is misconfigured:", error);
+    return;
+  }
+
+  const results = await Promise.allSettled(
+    targets.map((sink) => sink.write(entry))
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(
+        `Audit sink "${targets[index].name}" failed:`,
+        result.reason
+      );
+    }
+  });
+}
+
+/**
+ * Wrap a tool handler so every call is written to the audit log.
+ */
+export function withAudit<Args, Result>(
+  tool: string,
+  handler: (args: Args, extra: ToolExtra) => Promise<Result>
+): (args: Args, extra: ToolExtra) => Promise<Result> {
+  return (args, extra) =>
+    runInvocation(tool, async (invocation) => {
+      const startedAt = Date.now();
+
+      let status: AuditEntry["status"] = "success";
+      let message: string | undefined;
+
+      try {
+        const result = await handler(args, extra);
+        if (invocation.rejection) {
+          status = "rejected";
+          message = invocation.rejection;
+        }
+        return result;
+      } catch (error) {
+        const isRejection =
+          error instanceof ValidationError ||
+          error instanceof AccessDeniedError;
+        status = isRejection ? "rejected" : "error";
+        message = error instanceof Error ? error.message : String(error);
+        throw error;
+      } finally {
+        await writeAuditEntry({
+          timestamp: new Date(startedAt).toISOString(),
+          caller: extra.authInfo?.clientId ?? null,
+          tool,
+          ...tryDescribeQuery(args as Record<string, unknown>),
+          status,
+          rejection: status === "rejected" ? message : undefined,
+          error: status === "error" ? message : undefined,
+          durationMs: Date.now() - startedAt,
+          documentsReturned: invocation.documentsReturned,
+        });
+      }
+    });
+}
+
+/**
+ * Write an audit entry for work done outside a tool call, such as an
+ * export download. The query in args is scrubbed as for tool calls.
+ */
+export async function auditOperation(
+  entry: Omit<AuditEntry, keyof QueryDescription>,
+  args: Record<string, unknown>
+): Promise<void> {
+  await writeAuditEntry({ ...entry, ...tryDescribeQuery(args) });
+}
@@ -0,0 +1,157 @@
+import type { Document } from "bson";
+import {
+  serializeDocuments,
+  toExtendedJson,
+  type FormatOptions,
+} from "./serializer";
+
+/**
+ * Response size budget. Large values are truncated with a marker before
+ * documents are written out, and documents that would push the response
+ * past its byte budget are left out (and reported) instead of flooding
+ * the client's context window.
+ */
+
+/** Strings longer than this many characters are cut */
+const MAX_STRING_LENGTH = 4096;
+
+/** Binary values larger than this many bytes are replaced by a marker */
+const MAX_BINARY_BYTES = 1024;
+
+/** Subdocuments and arrays nested deeper than this are replaced by a marker */
+const MAX_DEPTH = 10;
+
+export interface BudgetResult {
+  /** Truncated copies of the documents that fit the budget */
+  documents: Document[];
+  /** Number of documents left out because the budget ran out */
+  omitted: number;
+}
+
+/**
+ * Format a byte count, e.g. 512B, 12.5KB, 4.8MB or 1.2GB.
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes}B`;
+  }
+
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(1)}${units[unit]}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function marker(description: string): string {
+  return `…(truncated ${description})`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Copy a value with oversized strings and binaries cut and deep nesting
+ * replaced by markers. Other BSON values are kept as they are.
+ */
+function truncateValue(value: unknown, depth: number): unknown {
+  if (typeof value === "string") {
+    if (value.length <= MAX_STRING_LENGTH) {
+      return value;
+    }
+    const kept = value.slice(0, MAX_STRING_LENGTH);
+    const removed = Buffer.byteLength(value) - Buffer.byteLength(kept, "utf8");
+    return `${kept}${marker(formatBytes(removed))}`;
+  }
+
+  if ((value as { _bsontype?: string } | null)?._bsontype === "Binary") {
+    const length = (value as { length(): number }).length();
+    return length > MAX_BINARY_BYTES
+      ? marker(`binary ${formatBytes(length)}`)
+      : value;
+  }
+
+  if (Array.isArray(value)) {
+    return depth >= MAX_DEPTH
+      ? marker(`array of ${plural(value.length, "item")}`)
+      : value.map((item) => truncateValue(item, depth + 1));
+  }
+
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value);
+    if (depth >= MAX_DEPTH) {
+      return marker(`subdocument with ${plural(keys.length, "field")}`);
+    }
+
+    const copy: Record<string, unknown> = {};
+    for (const key of keys) {
+      copy[key] = truncateValue(value[key], depth + 1);
+    }
+    return copy;
+  }
+
+  return value;
+}
+
+/**
+ * Bytes a document adds to a response: its text in the output format plus
+ * its Extended JSON copy in structuredContent. Measured one document at a
+ * time, so table headers are counted per document and the total errs high.
+ */
+function responseBytes(doc: Document, options: FormatOptions): number {
+  const text = serializeDocuments([doc], options);
+  const structured = JSON.stringify(toExtendedJson([doc], options.format)[0]);
+  // Separators between documents in the text and the structured array
+  return Buffer.byteLength(text) + Buffer.byteLength(structured) + 4;
+}
+
+/**
+ * Truncate oversized values and keep as many leading documents as fit in
+ * `maxBytes`, measured as the response emits them (see responseBytes).
+ * The first document is always kept, so a cursor can move past it even
+ * when it is over budget on its own. The input documents are not modified.
+ */
+export function fitDocuments(
+  docs: Document[],
+  maxBytes: number,
+  options: FormatOptions = {}
+): BudgetResult {
+  const documents: Document[] = [];
+  let used = 0;
+
+  for (const doc of docs) {
+    const truncated = truncateValue(doc, 0) as Document;
+    const size = responseBytes(truncated, options);
+
+    if (documents.length > 0 && used + size > maxBytes) {
+      break;
+    }
+
+    documents.push(truncated);
+    used += size;
+  }
+
+  return { documents, omitted: docs.length - documents.length };
+}
+
+/**
+ * Describe documents left out of a response for the budget.
+ */
+export function describeOmitted(omitted: number, maxBytes: number): string {
+  return `${omitted} document${omitted === 1 ? "" : "s"} omitted to stay within the ${formatBytes(
+    maxBytes
+  )} response budget; return fewer fields or pass a larger maxBytes`;
+}
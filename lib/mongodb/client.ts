@@ -1,62 +1,155 @@
 import { MongoClient, type Db } from "mongodb";
+import { getDataSource, type Target } from "./dataSources";
+import { getConfig } from "./config";
+import { monitorCommands } from "./telemetry";
 
-let client: MongoClient | null = null;
-let clientPromise: Promise<MongoClient> | null = null;
+const clients = new Map<string, MongoClient>();
+const clientPromises = new Map<string, Promise<MongoClient>>();
+
+const extraClientPromises = new Map<string, Promise<MongoClient>>();
 
 /**
- * Get or create a MongoDB client singleton.
- * Reuses the same client across serverless function invocations.
+ * Connection pool counters of a data source client, from the driver's
+ * connection pool events.
  */
-async function getMongoClient(): Promise<MongoClient> {
-  const uri = process.env.MONGODB_URI;
+export interface PoolStats {
+  maxPoolSize: number;
+  /** Connections currently open */
+  open: number;
+  /** Open connections checked out by an operation */
+  inUse: number;
+  /** Operations waiting for a connection */
+  waiting: number;
+  created: number;
+  closed: number;
+  checkOutFailures: number;
+}
 
-  if (!uri) {
-    throw new Error("MONGODB_URI environment variable is not set");
-  }
+const poolStats = new Map<string, PoolStats>();
+
+function monitorPool(client: MongoClient, sourceName: string): void {
+  const stats: PoolStats = {
+    maxPoolSize: client.options.maxPoolSize,
+    open: 0,
+    inUse: 0,
+    waiting: 0,
+    created: 0,
+    closed: 0,
+    checkOutFailures: 0,
+  };
+  poolStats.set(sourceName, stats);
+
+  client.on("connectionCreated", () => {
+    stats.open += 1;
+    stats.created += 1;
+  });
+  client.on("connectionClosed", () => {
+    stats.open -= 1;
+    stats.closed += 1;
+  });
+  client.on("connectionCheckOutStarted", () => {
+    stats.waiting += 1;
+  });
+  client.on("connectionCheckedOut", () => {
+    stats.waiting -= 1;
+    stats.inUse += 1;
+  });
+  client.on("connectionCheckOutFailed", () => {
+    stats.waiting -= 1;
+    stats.checkOutFailures += 1;
+  });
+  client.on("connectionCheckedIn", () => {
+    stats.inUse -= 1;
+  });
+}
+
+/**
+ * Get the pool counters of a data source's client, or null if it hasn't
+ * been created yet.
+ */
+export function getPoolStats(sourceName: string): PoolStats | null {
+  const stats = poolStats.get(sourceName);
+  return stats ? { ...stats } : null;
+}
+
+/**
+ * Get or create the MongoDB client singleton of a data source
+ * (the default source if none is given).
+ * Reuses the same client across serverless function invocations.
+ */
+export async function getMongoClient(
+  sourceName?: string
+): Promise<MongoClient> {
+  const source = getDataSource(sourceName);
 
+  const client = clients.get(source.name);
   if (client) {
     return client;
   }
 
-  if (!clientPromise) {
-    clientPromise = MongoClient.connect(uri, {
-      maxPoolSize: 10,
-      minPoolSize: 1,
-      maxIdleTimeMS: 60000,
-      serverSelectionTimeoutMS: 10000,
-    }).then((connectedClient) => {
-      client = connectedClient;
+  let promise = clientPromises.get(source.name);
+
+  if (!promise) {
+    const newClient = new MongoClient(source.uri, {
+      ...getConfig().pool,
+      ...source.pool,
+      monitorCommands: true,
+    });
+    monitorCommands(newClient);
+    monitorPool(newClient, source.name);
+
+    promise = newClient.connect().then((connectedClient) => {
+      clients.set(source.name, connectedClient);
       return connectedClient;
     });
+    // Retry on the next call if connecting failed
+    promise.catch(() => clientPromises.delete(source.name));
+    clientPromises.set(source.name, promise);
   }
 
-  return clientPromise;
+  return promise;
 }
 
 /**
- * Get the configured database.
- * Database name is fixed via MONGODB_DB env to prevent unauthorized access.
+ * Get a client for a separate connection string, e.g. a user that may write
+ * to the audit log while the main connection stays read-only.
+ * Falls back to the default source's client when no connection string is given.
  */
-export async function getDatabase(): Promise<Db> {
-  const dbName = process.env.MONGODB_DB;
+export async function getClientFor(uri?: string): Promise<MongoClient> {
+  if (!uri) {
+    return getMongoClient();
+  }
+
+  let promise = extraClientPromises.get(uri);
 
-  if (!dbName) {
-    throw new Error("MONGODB_DB environment variable is not set");
+  if (!promise) {
+    promise = MongoClient.connect(uri, {
+      maxPoolSize: 2,
+      serverSelectionTimeoutMS: 10000,
+    });
+    // Retry on the next call if connecting failed
+    promise.catch(() => extraClientPromises.delete(uri));
+    extraClientPromises.set(uri, promise);
   }
 
-  const mongoClient = await getMongoClient();
-  return mongoClient.db(dbName);
+  return promise;
 }
 
 /**
- * Get the database name from environment.
+ * Get the database of a resolved target.
+ * Targets come from resolveTarget, which checks them against the data
+ * source registry to prevent unauthorized access.
  */
-export function getDatabaseName(): string {
-  const dbName = process.env.MONGODB_DB;
-
-  if (!dbName) {
-    throw new Error("MONGODB_DB environment variable is not set");
-  }
+export async function getDatabase(target: Target): Promise<Db> {
+  const mongoClient = await getMongoClient(target.source);
+  return mongoClient.db(target.database);
+}
 
-  return dbName;
+/**
+ * Get the default database name, used for the server's own collections
+ * (audit log, rate limits) when no database is configured for them.
+ */
+export function getDefaultDatabaseName(): string | undefined {
+  const source = getDataSource();
+  return source.defaultDatabase ?? process.env.MONGODB_DB;
 }
@@ -0,0 +1,503 @@
+import { readFileSync } from "node:fs";
+import { extname, resolve } from "node:path";
+import { load } from "js-yaml";
+import { z } from "zod";
+
+/**
+ * Server configuration: query limits, connection pool defaults, enabled
+ * tools, per-collection limits, Atlas Search indexes, export links, feature
+ * toggles, MCP handler options and operator-defined query tools (see
+ * tools/query.ts).
+ *
+ * Read once at startup from the file named by MCP_CONFIG_FILE (.json,
+ * .yaml or .yml) or from the MCP_CONFIG env var (JSON or YAML), e.g.
+ *   limits: { maxLimit: 50, maxTimeMS: 10000 }
+ *   tools: [find, count, collection-schema]
+ *   collections: { "events_*": { maxLimit: 20 } }
+ *   features: { prompts: false }
+ *   queries: [{ name: orders-for-customer, collection: orders, ... }]
+ * Every setting is optional; anything left out keeps its default.
+ * Secrets (connection strings, API keys) stay in their own env vars.
+ */
+
+/** Names of every tool the server provides */
+export const TOOL_NAMES = [
+  "find",
+  "aggregate",
+  "count",
+  "field-stats",
+  "list-collections",
+  "list-databases",
+  "list-indexes",
+  "suggest-indexes",
+  "explain",
+  "collection-schema",
+  "collection-stats",
+  "search",
+  "export",
+] as const;
+
+/** Tool arguments every query tool has, so params can't use their names */
+const RESERVED_PARAM_NAMES = [
+  "cursor",
+  "format",
+  "columns",
+  "maxBytes",
+  "noCache",
+];
+
+/**
+ * A whole string value naming a query parameter, e.g. "{{customerId}}".
+ * Placeholders only ever stand for a value, never a key or part of one.
+ */
+export const PLACEHOLDER_PATTERN = /^\{\{\s*([A-Za-z_]\w*)\s*\}\}$/;
+
+const positiveInt = z.number().int().min(1);
+
+const limitsSchema = z
+  .object({
+    maxTimeMS: positiveInt.default(30_000),
+    maxLimit: positiveInt.default(100),
+    defaultLimit: positiveInt.default(10),
+    maxSampleSize: positiveInt.default(1000),
+    defaultSampleSize: positiveInt.default(100),
+    maxResponseBytes: positiveInt.default(1_000_000),
+    defaultResponseBytes: positiveInt.default(100_000),
+  })
+  .strict()
+  .superRefine((limits, ctx) => {
+    const pairs = [
+      ["defaultLimit", "maxLimit"],
+      ["defaultSampleSize", "maxSampleSize"],
+      ["defaultResponseBytes", "maxResponseBytes"],
+    ] as const;
+
+    for (const [defaultKey, maxKey] of pairs) {
+      if (limits[defaultKey] > limits[maxKey]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [defaultKey],
+          message: `Must not be greater than ${maxKey} (${limits[maxKey]})`,
+        });
+      }
+    }
+  });
+
+const poolSchema = z
+  .object({
+    maxPoolSize: positiveInt.default(10),
+    minPoolSize: z.number().int().min(0).default(1),
+    maxIdleTimeMS: z.number().int().min(0).default(60_000),
+    serverSelectionTimeoutMS: positiveInt.default(10_000),
+  })
+  .strict();
+
+const collectionLimitsSchema = z
+  .object({
+    maxLimit: positiveInt,
+    maxSampleSize: positiveInt,
+    maxTimeMS: positiveInt,
+  })
+  .partial()
+  .strict();
+
+const queryParamSchema = z
+  .object({
+    type: z.enum([
+      "string",
+      "number",
+      "integer",
+      "boolean",
+      "date",
+      "objectId",
+    ]),
+    description: z.string().min(1).optional(),
+    /** Makes the parameter optional */
+    default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    /** Allowed values (strings only) */
+    enum: z.array(z.string()).min(1).optional(),
+    /** Length limit (strings only) */
+    maxLength: positiveInt.optional(),
+    /** Regular expression the whole value must match (strings only) */
+    pattern: z.string().min(1).optional(),
+    /** Bounds (numbers and integers only) */
+    min: z.number().optional(),
+    max: z.number().optional(),
+  })
+  .strict()
+  .superRefine((param, ctx) => {
+    const isString = param.type === "string";
+    const isNumber = param.type === "number" || param.type === "integer";
+
+    for (const key of ["enum", "maxLength", "pattern"] as const) {
+      if (param[key] !== undefined && !isString) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: "Only allowed for string parameters",
+        });
+      }
+    }
+    for (const key of ["min", "max"] as const) {
+      if (param[key] !== undefined && !isNumber) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: "Only allowed for number and integer parameters",
+        });
+      }
+    }
+
+    if (param.pattern !== undefined) {
+      try {
+        new RegExp(param.pattern);
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["pattern"],
+          message: "Must be a valid regular expression",
+        });
+      }
+    }
+
+    if (param.default !== undefined) {
+      const expected =
+        param.type === "boolean" ? "boolean" : isNumber ? "number" : "string";
+      if (typeof param.default !== expected) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["default"],
+          message: `Must be a ${expected}`,
+        });
+      }
+    }
+  });
+
+/**
+ * Check the placeholders of a query template: whole string values naming
+ * declared parameters. Adds the parameters found to `used`.
+ */
+function checkPlaceholders(
+  template: unknown,
+  params: Record<string, unknown>,
+  path: (string | number)[],
+  ctx: z.RefinementCtx,
+  used: Set<string>
+): void {
+  if (typeof template === "string") {
+    const match = PLACEHOLDER_PATTERN.exec(template);
+    if (match) {
+      if (Object.prototype.hasOwnProperty.call(params, match[1])) {
+        used.add(match[1]);
+      } else {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path,
+          message: `Unknown parameter "${match[1]}"`,
+        });
+      }
+    } else if (template.includes("{{")) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path,
+        message: `Placeholders must be the whole value, e.g. "{{name}}"`,
+      });
+    }
+    return;
+  }
+
+  if (template === null || typeof template !== "object") {
+    return;
+  }
+
+  for (const [key, value] of Object.entries(template)) {
+    if (key.includes("{{")) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, key],
+        message: "Placeholders can't be used in keys",
+      });
+    }
+    checkPlaceholders(
+      value,
+      params,
+      [...path, Array.isArray(template) ? Number(key) : key],
+      ctx,
+      used
+    );
+  }
+}
+
+const querySchema = z
+  .object({
+    /** Tool name */
+    name: z
+      .string()
+      .regex(
+        /^[a-z][a-z0-9-]*$/,
+        "Must be lowercase letters, digits and -, starting with a letter"
+      ),
+    title: z.string().min(1).optional(),
+    description: z.string().min(1),
+    collection: z.string().min(1),
+    /** Data source and database, defaulting like any tool call */
+    source: z.string().min(1).optional(),
+    database: z.string().min(1).optional(),
+    params: z
+      .record(
+        z.string().regex(/^[A-Za-z_]\w*$/, "Must be a valid identifier"),
+        queryParamSchema
+      )
+      .default({}),
+    find: z
+      .object({
+        filter: z.record(z.unknown()).default({}),
+        projection: z.record(z.union([z.number(), z.boolean()])).optional(),
+        sort: z.record(z.union([z.literal(1), z.literal(-1)])).optional(),
+        limit: positiveInt.optional(),
+      })
+      .strict()
+      .optional(),
+    aggregate: z.array(z.record(z.unknown())).min(1).optional(),
+  })
+  .strict()
+  .superRefine((query, ctx) => {
+    if ((query.find === undefined) === (query.aggregate === undefined)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Define either find or aggregate",
+      });
+      return;
+    }
+
+    for (const name of Object.keys(query.params)) {
+      if (RESERVED_PARAM_NAMES.includes(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["params", name],
+          message: `"${name}" is reserved for a tool argument`,
+        });
+      }
+    }
+
+    const used = new Set<string>();
+    if (query.find) {
+      checkPlaceholders(
+        query.find.filter,
+        query.params,
+        ["find", "filter"],
+        ctx,
+        used
+      );
+    } else {
+      checkPlaceholders(
+        query.aggregate,
+        query.params,
+        ["aggregate"],
+        ctx,
+        used
+      );
+    }
+
+    for (const name of Object.keys(query.params)) {
+      if (!used.has(name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["params", name],
+          message: "Parameter is not used in the query",
+        });
+      }
+    }
+  });
+
+const exportSchema = z
+  .object({
+    /** How long an export link stays valid */
+    ttlSeconds: positiveInt.max(86_400).default(300),
+    /** Ceilings per export; the download stops when either is reached */
+    maxRows: positiveInt.default(100_000),
+    maxBytes: positiveInt.default(100 * 1024 * 1024),
+  })
+  .strict();
+
+const featuresSchema = z
+  .object({
+    /** Collections, schemas, indexes and samples as MCP resources */
+    resources: z.boolean().default(true),
+    /** Guided investigation prompts */
+    prompts: z.boolean().default(true),
+    /** Result caching, see queryCache.ts */
+    queryCache: z.boolean().default(true),
+  })
+  .strict();
+
+const serverSchema = z
+  .object({
+    maxDuration: positiveInt.default(60),
+    // Raw request logs bypass audit scrubbing, so they're opt-in
+    verboseLogs: z
+      .boolean()
+      .default(() => process.env.MCP_VERBOSE_LOGS === "true"),
+    disableSse: z.boolean().default(true),
+  })
+  .strict();
+
+const configSchema = z
+  .object({
+    limits: limitsSchema.default({}),
+    pool: poolSchema.default({}),
+    tools: z
+      .array(z.enum(TOOL_NAMES))
+      .min(1)
+      .default([...TOOL_NAMES]),
+    collections: z
+      .record(z.string().min(1), collectionLimitsSchema)
+      .default({}),
+    /** Atlas Search index used by the search tool, per collection or pattern */
+    searchIndexes: z.record(z.string().min(1), z.string().min(1)).default({}),
+    export: exportSchema.default({}),
+    features: featuresSchema.default({}),
+    server: serverSchema.default({}),
+    queries: z.array(querySchema).default([]),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    const names = new Set<string>(TOOL_NAMES);
+    config.queries.forEach((query, index) => {
+      if (names.has(query.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["queries", index, "name"],
+          message: `Tool "${query.name}" already exists`,
+        });
+      }
+      names.add(query.name);
+
+      const limit = query.find?.limit;
+      if (limit !== undefined && limit > config.limits.maxLimit) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["queries", index, "find", "limit"],
+          message: `Must not be greater than limits.maxLimit (${config.limits.maxLimit})`,
+        });
+      }
+    });
+
+    // Collection limits can only tighten the server limits
+    for (const [pattern, limits] of Object.entries(config.collections)) {
+      for (const key of ["maxLimit", "maxSampleSize", "maxTimeMS"] as const) {
+        const value = limits[key];
+        if (value !== undefined && value > config.limits[key]) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["collections", pattern, key],
+            message: `Must not be greater than limits.${key} (${config.limits[key]})`,
+          });
+        }
+      }
+    }
+  });
+
+export type Config = z.infer<typeof configSchema>;
+
+export type CollectionLimits = z.infer<typeof collectionLimitsSchema>;
+
+export type QueryDefinition = z.infer<typeof querySchema>;
+
+export type QueryParam = z.infer<typeof queryParamSchema>;
+
+/**
+ * Read the raw config and name where it came from, for error messages.
+ */
+function readRawConfig(): { origin: string; value: unknown } {
+  const file = process.env.MCP_CONFIG_FILE;
+  const inline = process.env.MCP_CONFIG;
+
+  if (file && inline) {
+    throw new Error("Set either MCP_CONFIG_FILE or MCP_CONFIG, not both");
+  }
+
+  if (file) {
+    const origin = `Config file "${file}"`;
+    const extension = extname(file).toLowerCase();
+
+    if (![".json", ".yaml", ".yml"].includes(extension)) {
+      throw new Error(`${origin} must be a .json, .yaml or .yml file`);
+    }
+
+    let text: string;
+    try {
+      text = readFileSync(resolve(process.cwd(), file), "utf8");
+    } catch (error) {
+      throw new Error(
+        `${origin} can't be read: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    try {
+      return {
+        origin,
+        value: extension === ".json" ? JSON.parse(text) : load(text),
+      };
+    } catch (error) {
+      throw new Error(
+        `${origin} is not valid ${extension === ".json" ? "JSON" : "YAML"}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+
+  if (inline) {
+    const origin = "MCP_CONFIG environment variable";
+
+    // JSON is valid YAML, so one parser reads both
+    try {
+      return { origin, value: load(inline) };
+    } catch (error) {
+      throw new Error(
+        `${origin} is not valid JSON or YAML: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return { origin: "Default config", value: {} };
+}
+
+let config: Config | null = null;
+
+/**
+ * Load and validate the server config. The first call happens when the
+ * tool modules load, so an invalid config stops the server at startup
+ * with every problem listed.
+ */
+export function getConfig(): Config {
+  if (config) {
+    return config;
+  }
+
+  const { origin, value } = readRawConfig();
+
+  const result = configSchema.safeParse(value ?? {});
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `at "${issue.path.join(".")}": ${issue.message}`
+    );
+    throw new Error(`${origin} is invalid ${problems.join("; ")}`);
+  }
+
+  config = result.data;
+  return config;
+}
+
+/**
+ * Check if the config enables a tool. Query tools are enabled by being
+ * defined.
+ */
+export function isToolEnabled(tool: string): boolean {
+  const { tools, queries } = getConfig();
+  return (
+    (tools as string[]).includes(tool) ||
+    queries.some((query) => query.name === tool)
+  );
+}
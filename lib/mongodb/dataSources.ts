@@ -0,0 +1,256 @@
+import { z } from "zod";
+import {
+  AccessDeniedError,
+  assertTargetAllowed,
+  isTargetAllowed,
+  matchesGlob,
+  type AccessPolicy,
+} from "./access";
+import { ValidationError } from "./security";
+
+/**
+ * Registry of named data sources (clusters) and the databases tools may use.
+ *
+ * Sources are configured through the DATA_SOURCES env var as a JSON object,
+ * e.g.
+ *   { "main": { "uri": "mongodb+srv://...", "databases": ["app", "reports_*"],
+ *               "defaultDatabase": "app", "pool": { "maxPoolSize": 20 } },
+ *     "archive": { "uri": "mongodb+srv://...", "databases": ["archive"] } }
+ * The first source is the default. Without DATA_SOURCES, MONGODB_URI and
+ * MONGODB_DB define a single source named "default".
+ */
+
+const poolSchema = z
+  .object({
+    maxPoolSize: z.number().int().min(1),
+    minPoolSize: z.number().int().min(0),
+    maxIdleTimeMS: z.number().int().min(0),
+    serverSelectionTimeoutMS: z.number().int().min(1),
+  })
+  .partial()
+  .strict();
+
+const dataSourceSchema = z
+  .object({
+    uri: z.string().min(1),
+    databases: z.array(z.string().min(1)).min(1),
+    defaultDatabase: z.string().min(1).optional(),
+    pool: poolSchema.optional(),
+  })
+  .strict();
+
+const dataSourceRegistrySchema = z
+  .record(
+    z
+      .string()
+      .regex(
+        /^[\w-]+$/,
+        "Source names may only contain letters, digits, _ and -"
+      ),
+    dataSourceSchema
+  )
+  .refine((sources) => Object.keys(sources).length > 0, {
+    message: "At least one data source is required",
+  });
+
+export type PoolOptions = z.infer<typeof poolSchema>;
+
+export interface DataSource {
+  name: string;
+  uri: string;
+  /** Database names or glob patterns tools may use */
+  databases: string[];
+  defaultDatabase?: string;
+  pool: PoolOptions;
+}
+
+/**
+ * A resolved source and database to run a tool against.
+ */
+export interface Target {
+  source: string;
+  database: string;
+}
+
+/**
+ * Optional tool arguments selecting the source and database.
+ */
+export const targetShape = {
+  source: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Data source name (see list-databases). Defaults to the first configured source"
+    ),
+  database: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      "Database name (see list-databases). Defaults to the source's default database"
+    ),
+};
+
+let registry: DataSource[] | null = null;
+
+/**
+ * Load and validate the data source registry from the environment.
+ */
+export function getDataSources(): DataSource[] {
+  if (registry) {
+    return registry;
+  }
+
+  const rawSources = process.env.DATA_SOURCES;
+
+  if (rawSources) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawSources);
+    } catch {
+      throw new Error("DATA_SOURCES environment variable is not valid JSON");
+    }
+
+    const result = dataSourceRegistrySchema.safeParse(parsed);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(
+        `DATA_SOURCES environment variable is invalid at "${issue.path.join(".")}": ${issue.message}`
+      );
+    }
+
+    registry = Object.entries(result.data).map(([name, source]) => ({
+      name,
+      uri: source.uri,
+      databases: source.databases,
+      defaultDatabase: source.defaultDatabase,
+      pool: source.pool ?? {},
+    }));
+    return registry;
+  }
+
+  const uri = process.env.MONGODB_URI;
+  const dbName = process.env.MONGODB_DB;
+
+  if (!uri) {
+    throw new Error("MONGODB_URI environment variable is not set");
+  }
+
+  if (!dbName) {
+    throw new Error("MONGODB_DB environment variable is not set");
+  }
+
+  registry = [
+    {
+      name: "default",
+      uri,
+      databases: [dbName],
+      defaultDatabase: dbName,
+      pool: {},
+    },
+  ];
+  return registry;
+}
+
+/**
+ * Get a data source by name, or the default source.
+ */
+export function getDataSource(name?: string): DataSource {
+  const sources = getDataSources();
+
+  if (!name) {
+    return sources[0];
+  }
+
+  const source = sources.find((candidate) => candidate.name === name);
+
+  if (!source) {
+    throw new ValidationError(
+      `Unknown data source "${name}". Available sources: ${sources
+        .map((candidate) => candidate.name)
+        .join(", ")}`
+    );
+  }
+
+  return source;
+}
+
+/**
+ * Check if a source allows a database.
+ */
+export function isDatabaseAllowed(
+  source: DataSource,
+  database: string
+): boolean {
+  return source.databases.some((pattern) => matchesGlob(database, pattern));
+}
+
+/**
+ * Get the database used when a tool call names none.
+ */
+function getDefaultDatabase(source: DataSource): string {
+  if (source.defaultDatabase) {
+    return source.defaultDatabase;
+  }
+
+  const [first] = source.databases;
+  if (!/[*?]/.test(first)) {
+    return first;
+  }
+
+  throw new ValidationError(
+    `Data source "${source.name}" has no default database; pass "database" (see list-databases)`
+  );
+}
+
+/**
+ * Resolve the source and database a tool call targets, checking them
+ * against the registry and the caller's access policy. A null policy
+ * only checks the registry, e.g. to describe a call.
+ */
+export function resolveTarget(
+  args: { source?: string; database?: string },
+  policy: AccessPolicy | null
+): Target {
+  const source = getDataSource(args.source);
+
+  const database = args.database ?? getDefaultDatabase(source);
+
+  if (!isDatabaseAllowed(source, database)) {
+    throw new AccessDeniedError(
+      `database "${database}" is not available on data source "${source.name}" (see list-databases)`
+    );
+  }
+
+  const target = { source: source.name, database };
+  if (policy) {
+    assertTargetAllowed(policy, target);
+  }
+
+  return target;
+}
+
+/**
+ * Resolve a database named without a source (e.g. in a resource URI) to the
+ * first data source that allows it, and that the caller may use unless the
+ * policy is null.
+ */
+export function findTarget(
+  database: string,
+  policy: AccessPolicy | null
+): Target {
+  const source = getDataSources().find(
+    (candidate) =>
+      isDatabaseAllowed(candidate, database) &&
+      (!policy || isTargetAllowed(policy, { source: candidate.name, database }))
+  );
+
+  if (!source) {
+    throw new AccessDeniedError(
+      `database "${database}" is not available on any data source (see list-databases)`
+    );
+  }
+
+  return { source: source.name, database };
+}
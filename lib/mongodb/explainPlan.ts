@@ -0,0 +1,565 @@
+import type { Document } from "bson";
+
+/**
+ * Helpers to read explain output of find and aggregate, on a replica set or
+ * through mongos, regardless of where the server nests the query plans.
+ */
+
+/**
+ * The query plan of one collection scan of an explained command.
+ */
+export interface QueryPlan {
+  /** Shard that ran the plan, when explained through mongos */
+  shard?: string;
+  winningPlan: Document;
+  rejectedPlans: Document[];
+  /** Execution stats of the winning plan, when explained with them */
+  executionStats?: Document;
+}
+
+function isDocument(value: unknown): value is Document {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Get the plan tree of a winning or rejected plan. Slot-based engine plans
+ * nest it under "queryPlan".
+ */
+export function getPlanTree(plan: Document): Document {
+  return isDocument(plan.queryPlan) ? plan.queryPlan : plan;
+}
+
+/**
+ * Get the input stages of a plan or execution stage.
+ */
+export function getInputStages(stage: Document): Document[] {
+  const inputs: Document[] = [];
+
+  for (const key of [
+    "inputStage",
+    "outerStage",
+    "innerStage",
+    "thenStage",
+    "elseStage",
+  ]) {
+    if (isDocument(stage[key])) {
+      inputs.push(stage[key]);
+    }
+  }
+
+  if (Array.isArray(stage.inputStages)) {
+    inputs.push(...stage.inputStages.filter(isDocument));
+  }
+
+  return inputs;
+}
+
+/**
+ * Flatten a plan tree into its stages, parents first.
+ */
+export function flattenStages(stage: Document): Document[] {
+  return [stage, ...getInputStages(stage).flatMap(flattenStages)];
+}
+
+function fromQueryPlanner(
+  queryPlanner: Document,
+  executionStats: Document | undefined,
+  shard?: string
+): QueryPlan[] {
+  const winningPlan = queryPlanner.winningPlan;
+
+  if (!isDocument(winningPlan)) {
+    return [];
+  }
+
+  // Find through mongos: one entry per shard under winningPlan.shards
+  if (Array.isArray(winningPlan.shards)) {
+    const shardStats: Document[] = Array.isArray(
+      executionStats?.executionStages?.shards
+    )
+      ? executionStats.executionStages.shards
+      : [];
+
+    return winningPlan.shards.filter(isDocument).map((shardPlan) => {
+      const stats = shardStats.find(
+        (candidate) => candidate.shardName === shardPlan.shardName
+      );
+
+      return {
+        shard: shardPlan.shardName,
+        winningPlan: shardPlan.winningPlan ?? {},
+        rejectedPlans: shardPlan.rejectedPlans ?? [],
+        executionStats: stats,
+      };
+    });
+  }
+
+  return [
+    {
+      shard,
+      winningPlan,
+      rejectedPlans: Array.isArray(queryPlanner.rejectedPlans)
+        ? queryPlanner.rejectedPlans
+        : [],
+      executionStats,
+    },
+  ];
+}
+
+/**
+ * Extract the query plans from explain output.
+ * Handles find, aggregate with and without a $cursor stage, and both
+ * shapes of sharded output.
+ */
+export function getQueryPlans(explain: Document, shard?: string): QueryPlan[] {
+  if (isDocument(explain.queryPlanner)) {
+    return fromQueryPlanner(
+      explain.queryPlanner,
+      isDocument(explain.executionStats) ? explain.executionStats : undefined,
+      shard
+    );
+  }
+
+  // Aggregate: the query runs in the first stage
+  if (Array.isArray(explain.stages)) {
+    const cursor = explain.stages[0]?.$cursor;
+    return isDocument(cursor) ? getQueryPlans(cursor, shard) : [];
+  }
+
+  // Aggregate through mongos: { shards: { <name>: <explain> } }
+  if (isDocument(explain.shards)) {
+    return Object.entries(explain.shards).flatMap(([name, shardExplain]) =>
+      isDocument(shardExplain) ? getQueryPlans(shardExplain, name) : []
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Get the names of the indexes the winning plans use.
+ */
+export function getUsedIndexes(plans: QueryPlan[]): string[] {
+  const names = plans.flatMap((plan) =>
+    flattenStages(getPlanTree(plan.winningPlan))
+      .map((stage) => stage.indexName)
+      .filter((name): name is string => typeof name === "string")
+  );
+
+  return [...new Set(names)];
+}
+
+/**
+ * Check if any winning plan scans the whole collection.
+ */
+export function hasCollectionScan(plans: QueryPlan[]): boolean {
+  return plans.some((plan) =>
+    flattenStages(getPlanTree(plan.winningPlan)).some(
+      (stage) => stage.stage === "COLLSCAN"
+    )
+  );
+}
+
+export interface ExecutionTotals {
+  keysExamined: number;
+  docsExamined: number;
+  returned: number;
+  executionTimeMs: number;
+}
+
+/**
+ * Sum the execution stats of every plan. Returns null if the explain output
+ * has no execution stats.
+ */
+export function getExecutionTotals(plans: QueryPlan[]): ExecutionTotals | null {
+  const withStats = plans.filter((plan) => plan.executionStats);
+
+  if (withStats.length === 0) {
+    return null;
+  }
+
+  const totals: ExecutionTotals = {
+    keysExamined: 0,
+    docsExamined: 0,
+    returned: 0,
+    executionTimeMs: 0,
+  };
+
+  for (const { executionStats } of withStats) {
+    totals.keysExamined += Number(executionStats?.totalKeysExamined ?? 0);
+    totals.docsExamined += Number(executionStats?.totalDocsExamined ?? 0);
+    totals.returned += Number(executionStats?.nReturned ?? 0);
+    // Shards run in parallel, so the slowest one is the elapsed time
+    totals.executionTimeMs = Math.max(
+      totals.executionTimeMs,
+      Number(
+        executionStats?.executionTimeMillis ??
+          executionStats?.executionTimeMillisEstimate ??
+          0
+      )
+    );
+  }
+
+  return totals;
+}
+
+/** FETCH stages reading at least this many documents are checked */
+const LARGE_FETCH_DOCS = 1000;
+
+/** A FETCH returning less than this share of what it read is flagged */
+const LOW_SELECTIVITY_RATIO = 0.1;
+
+function formatNumber(value: unknown): string {
+  return Number(value ?? 0).toLocaleString();
+}
+
+function formatKeyPattern(pattern: unknown): string {
+  if (!isDocument(pattern)) {
+    return "";
+  }
+
+  const fields = Object.entries(pattern).map(
+    ([field, direction]) => `${field}: ${JSON.stringify(direction)}`
+  );
+  return `{ ${fields.join(", ")} }`;
+}
+
+/**
+ * Describe a stage in one line, e.g. IXSCAN status_1 { status: 1 }.
+ */
+function describeStage(stage: Document): string {
+  const parts = [String(stage.stage ?? "UNKNOWN")];
+
+  if (typeof stage.indexName === "string") {
+    parts.push(stage.indexName);
+  }
+  if (isDocument(stage.keyPattern)) {
+    parts.push(formatKeyPattern(stage.keyPattern));
+  }
+  if (isDocument(stage.sortPattern)) {
+    parts.push(`by ${formatKeyPattern(stage.sortPattern)}`);
+  }
+  if (isDocument(stage.filter)) {
+    parts.push("with filter");
+  }
+
+  return parts.join(" ");
+}
+
+/**
+ * Describe the execution stats of a stage, e.g. (returned 12, docs 40, ~3 ms).
+ */
+function describeStageStats(stats: Document | undefined): string {
+  if (!stats) {
+    return "";
+  }
+
+  const parts = [`returned ${formatNumber(stats.nReturned)}`];
+
+  if (stats.keysExamined !== undefined) {
+    parts.push(`keys ${formatNumber(stats.keysExamined)}`);
+  }
+  if (stats.docsExamined !== undefined) {
+    parts.push(`docs ${formatNumber(stats.docsExamined)}`);
+  }
+  if (stats.executionTimeMillisEstimate !== undefined) {
+    parts.push(`~${formatNumber(stats.executionTimeMillisEstimate)} ms`);
+  }
+
+  return ` (${parts.join(", ")})`;
+}
+
+/**
+ * Pair the stages of a plan tree with their execution stats. The stats tree
+ * mirrors the plan on the classic engine only; otherwise stages get none.
+ */
+function pairStages(
+  plan: Document,
+  stats: Document | undefined
+): { stage: Document; stats?: Document; depth: number }[] {
+  const matching = stats && stats.stage === plan.stage ? stats : undefined;
+  const planInputs = getInputStages(plan);
+  const statInputs = matching ? getInputStages(matching) : [];
+
+  return [
+    { stage: plan, stats: matching, depth: 0 },
+    ...planInputs.flatMap((input, index) =>
+      pairStages(input, statInputs[index]).map((entry) => ({
+        ...entry,
+        depth: entry.depth + 1,
+      }))
+    ),
+  ];
+}
+
+/**
+ * Describe a plan as a chain of stages, leaf first,
+ * e.g. IXSCAN createdAt_1 { createdAt: 1 } -> FETCH.
+ */
+function describePlanChain(plan: Document): string {
+  return flattenStages(getPlanTree(plan))
+    .reverse()
+    .map(describeStage)
+    .join(" -> ");
+}
+
+/**
+ * Find the problems worth pointing out in a plan.
+ */
+function findPlanIssues(
+  stages: { stage: Document; stats?: Document }[],
+  totals: ExecutionTotals | null
+): string[] {
+  const issues: string[] = [];
+
+  for (const { stage, stats } of stages) {
+    const name = String(stage.stage ?? "");
+
+    if (name === "COLLSCAN") {
+      issues.push(
+        "COLLSCAN: every document in the collection is read. An index on the filtered fields would avoid this."
+      );
+    }
+
+    if (name === "SORT") {
+      issues.push(
+        `In-memory SORT${
+          isDocument(stage.sortPattern)
+            ? ` on ${formatKeyPattern(stage.sortPattern)}`
+            : ""
+        }: no index provides this order${
+          stats?.usedDisk ? ", and it spilled to disk" : ""
+        }. Add the sort fields to an index after the equality fields.`
+      );
+    }
+
+    if (name === "FETCH" && stats) {
+      const docsExamined = Number(stats.docsExamined ?? 0);
+      const returned = Number(stats.nReturned ?? 0);
+
+      if (
+        docsExamined >= LARGE_FETCH_DOCS &&
+        returned < docsExamined * LOW_SELECTIVITY_RATIO
+      ) {
+        issues.push(
+          `Large FETCH: read ${formatNumber(docsExamined)} documents to return ${formatNumber(returned)}. The index doesn't cover the filter; add the filtered fields to it.`
+        );
+      }
+    }
+  }
+
+  // Without per-stage stats (slot-based engine), judge from the totals
+  const hasFetchStats = stages.some(
+    ({ stage, stats }) => stage.stage === "FETCH" && stats
+  );
+  if (
+    !hasFetchStats &&
+    totals &&
+    totals.docsExamined >= LARGE_FETCH_DOCS &&
+    totals.returned < totals.docsExamined * LOW_SELECTIVITY_RATIO &&
+    !stages.some(({ stage }) => stage.stage === "COLLSCAN")
+  ) {
+    issues.push(
+      `Low selectivity: read ${formatNumber(totals.docsExamined)} documents to return ${formatNumber(totals.returned)}. The index doesn't cover the filter; add the filtered fields to it.`
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Find the problems of one winning plan, labelled with its shard.
+ */
+function getPlanIssues(
+  plan: QueryPlan,
+  stages: { stage: Document; stats?: Document }[],
+  plans: QueryPlan[],
+  totals: ExecutionTotals | null
+): string[] {
+  return findPlanIssues(
+    stages,
+    plans.length === 1 ? totals : getExecutionTotals([plan])
+  ).map((issue) => (plan.shard ? `${issue} (shard ${plan.shard})` : issue));
+}
+
+function describeRatio(examined: number, returned: number): string {
+  if (returned === 0) {
+    return examined > 0 ? "none returned" : "";
+  }
+
+  const ratio = examined / returned;
+  return `${ratio.toLocaleString(undefined, { maximumFractionDigits: 1 })} per document returned`;
+}
+
+/**
+ * Describe the stages of an aggregation that run after the query,
+ * e.g. $group (returned 5, ~3 ms) -> $sort.
+ */
+function describePipelineStages(explain: Document): string | null {
+  const stages = Array.isArray(explain.stages)
+    ? explain.stages
+    : isDocument(explain.shards)
+      ? (Object.values(explain.shards).find(
+          (shard) => isDocument(shard) && Array.isArray(shard.stages)
+        )?.stages ?? null)
+      : null;
+
+  if (!stages) {
+    return null;
+  }
+
+  return stages
+    .filter(isDocument)
+    .map((stage: Document) => {
+      const name = Object.keys(stage).find((key) => key.startsWith("$")) ?? "?";
+      const stats =
+        stage.nReturned !== undefined
+          ? ` (returned ${formatNumber(stage.nReturned)}${
+              stage.executionTimeMillisEstimate !== undefined
+                ? `, ~${formatNumber(stage.executionTimeMillisEstimate)} ms`
+                : ""
+            }${stage.usedDisk ? ", spilled to disk" : ""})`
+          : "";
+      return `${name}${stats}`;
+    })
+    .join(" -> ");
+}
+
+/**
+ * Summarize explain output: totals and ratios, the winning plan as a
+ * compact stage tree, likely problems and the rejected plans.
+ */
+export function summarizeExplain(explain: Document): string {
+  const plans = getQueryPlans(explain);
+  const totals = getExecutionTotals(plans);
+  const lines: string[] = [];
+
+  if (totals) {
+    lines.push(
+      "Summary:",
+      `  Query returned ${formatNumber(totals.returned)} document${
+        totals.returned === 1 ? "" : "s"
+      } in ${formatNumber(totals.executionTimeMs)} ms`,
+      `  Keys examined: ${formatNumber(totals.keysExamined)}${
+        totals.returned || totals.keysExamined
+          ? ` (${describeRatio(totals.keysExamined, totals.returned)})`
+          : ""
+      }`,
+      `  Documents examined: ${formatNumber(totals.docsExamined)}${
+        totals.returned || totals.docsExamined
+          ? ` (${describeRatio(totals.docsExamined, totals.returned)})`
+          : ""
+      }`,
+      ""
+    );
+  }
+
+  const pipeline = describePipelineStages(explain);
+  if (pipeline) {
+    lines.push(`Pipeline: ${pipeline}`, "");
+  }
+
+  if (plans.length === 0) {
+    lines.push("No query plan found in the explain output.");
+    return lines.join("\n").trimEnd();
+  }
+
+  const issues: string[] = [];
+
+  for (const plan of plans) {
+    const stages = pairStages(
+      getPlanTree(plan.winningPlan),
+      plan.executionStats?.executionStages
+    );
+    const shardLabel = plan.shard ? ` on shard ${plan.shard}` : "";
+
+    lines.push(`Winning plan${shardLabel}:`);
+    for (const { stage, stats, depth } of stages) {
+      lines.push(
+        `${"  ".repeat(depth + 1)}${describeStage(stage)}${describeStageStats(stats)}`
+      );
+    }
+
+    if (plan.shard && plan.executionStats) {
+      const shardTotals = getExecutionTotals([plan]);
+      if (shardTotals) {
+        lines.push(
+          `  Shard totals: returned ${formatNumber(shardTotals.returned)}, keys ${formatNumber(shardTotals.keysExamined)}, docs ${formatNumber(shardTotals.docsExamined)}`
+        );
+      }
+    }
+
+    issues.push(...getPlanIssues(plan, stages, plans, totals));
+
+    if (plan.rejectedPlans.length > 0) {
+      lines.push(
+        `  Rejected plans (${plan.rejectedPlans.length}):`,
+        ...plan.rejectedPlans.map(
+          (rejected) => `    - ${describePlanChain(rejected)}`
+        )
+      );
+    } else {
+      lines.push("  No other plans were considered.");
+    }
+
+    lines.push("");
+  }
+
+  lines.push("Issues:");
+  if (issues.length > 0) {
+    lines.push(...[...new Set(issues)].map((issue) => `  - ${issue}`));
+  } else {
+    lines.push("  None found.");
+  }
+
+  return lines.join("\n");
+}
+
+export interface PlanSummary {
+  shard?: string;
+  /** Winning plan as a chain of stages, leaf first */
+  winningPlan: string;
+  rejectedPlans: string[];
+}
+
+export interface ExplainSummary {
+  totals: ExecutionTotals | null;
+  collectionScan: boolean;
+  indexes: string[];
+  plans: PlanSummary[];
+  issues: string[];
+}
+
+/**
+ * Summarize explain output as data: the same totals, plans and issues
+ * summarizeExplain describes.
+ */
+export function getExplainSummary(explain: Document): ExplainSummary {
+  const plans = getQueryPlans(explain);
+  const totals = getExecutionTotals(plans);
+  const issues = new Set<string>();
+
+  const planSummaries = plans.map((plan) => {
+    const stages = pairStages(
+      getPlanTree(plan.winningPlan),
+      plan.executionStats?.executionStages
+    );
+    for (const issue of getPlanIssues(plan, stages, plans, totals)) {
+      issues.add(issue);
+    }
+
+    return {
+      shard: plan.shard,
+      winningPlan: describePlanChain(plan.winningPlan),
+      rejectedPlans: plan.rejectedPlans.map(describePlanChain),
+    };
+  });
+
+  return {
+    totals,
+    collectionScan: hasCollectionScan(plans),
+    indexes: getUsedIndexes(plans),
+    plans: planSummaries,
+    issues: [...issues],
+  };
+}
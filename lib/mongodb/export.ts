@@ -0,0 +1,494 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { EJSON, type Document } from "bson";
+import type {
+  AggregationCursor,
+  Collection,
+  FindCursor,
+  SortDirection,
+} from "mongodb";
+import { getDatabase } from "./client";
+import { getConfig } from "./config";
+import { resolveTarget } from "./dataSources";
+import { validateFilter, ValidationError } from "./security";
+import { validatePipeline } from "./pipeline";
+import { getQueryOptions, governPipeline } from "./governor";
+import { getColumns, toCsvLine } from "./serializer";
+import { auditOperation } from "./audit";
+import { checkOperationLimits, RateLimitError, recordUsage } from "./rateLimit";
+import {
+  assertFilterNotRedacted,
+  assertNotRedacted,
+  getAggregationRedactionRules,
+  getRedactionRules,
+  redactDocuments,
+  type RedactionRules,
+} from "./redaction";
+import {
+  AccessDeniedError,
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  findAccessPolicy,
+  withCollectionLimits,
+  type AccessPolicy,
+} from "./access";
+
+/**
+ * Signed download links for the export tool.
+ *
+ * The tool checks a query and signs it, with the name of the calling API
+ * key and an expiry, into a token for the /export route (HMAC-SHA256, like
+ * pagination cursors). The route checks the query again against the key's
+ * current access policy, then streams the result from a driver cursor one
+ * batch at a time, redacting each batch and stopping at the row and byte
+ * ceilings of the config's `export` section. Every download counts against
+ * the key's rate limits (as "export-download") and its rows and time
+ * against its daily quota, so replaying a link is charged each time.
+ */
+
+export const EXPORT_FORMATS = ["ndjson", "csv", "ejson"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * A find (filter, projection, sort) or an aggregation (pipeline) on a
+ * resolved source and database.
+ */
+export interface ExportQuery {
+  source: string;
+  database: string;
+  collection: string;
+  filter?: Document;
+  projection?: Record<string, number | boolean>;
+  sort?: Record<string, 1 | -1>;
+  pipeline?: Document[];
+}
+
+export interface ExportRequest {
+  query: ExportQuery;
+  format: ExportFormat;
+  /** CSV columns; taken from the first batch when not given */
+  columns?: string[];
+}
+
+export interface ExportLink {
+  url: string;
+  expiresAt: Date;
+  maxRows: number;
+  maxBytes: number;
+}
+
+export interface ExportDownload {
+  stream: ReadableStream<Uint8Array>;
+  contentType: string;
+  filename: string;
+}
+
+const TOKEN_VERSION = 1;
+
+/** Documents per getMore, which is also what's held in memory at once */
+const BATCH_SIZE = 500;
+
+/** Longest token that fits in a URL every proxy accepts */
+const MAX_TOKEN_LENGTH = 6000;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: "application/x-ndjson; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  ejson: "application/json; charset=utf-8",
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  ndjson: "ndjson",
+  csv: "csv",
+  ejson: "json",
+};
+
+/**
+ * Signed tokens are checked against this schema too, since other tokens
+ * may be signed with the same secret.
+ */
+const exportPayloadSchema = z.object({
+  v: z.number(),
+  /** Name of the API key the link was issued to */
+  c: z.string().min(1),
+  r: z.object({
+    query: z.object({
+      source: z.string().min(1),
+      database: z.string().min(1),
+      collection: z.string().min(1),
+      filter: z.record(z.unknown()).optional(),
+      projection: z.record(z.union([z.number(), z.boolean()])).optional(),
+      sort: z.record(z.union([z.literal(1), z.literal(-1)])).optional(),
+      pipeline: z.array(z.record(z.unknown())).optional(),
+    }),
+    format: z.enum(EXPORT_FORMATS),
+    columns: z.array(z.string().min(1)).optional(),
+  }),
+  /** Expiry, in milliseconds since the epoch */
+  exp: z.number(),
+});
+
+type ExportPayload = z.infer<typeof exportPayloadSchema>;
+
+/**
+ * Get the secret used to sign export links.
+ */
+function getExportSecret(): string {
+  const secret = process.env.EXPORT_SECRET;
+
+  if (!secret) {
+    throw new Error(
+      "EXPORT_SECRET environment variable is not set (required for export links)"
+    );
+  }
+
+  return secret;
+}
+
+/**
+ * Sign token data. The prefix keeps tokens signed with the same secret
+ * for other purposes (e.g. pagination cursors) from passing as exports.
+ */
+function sign(data: string): string {
+  return createHmac("sha256", getExportSecret())
+    .update(`export:${data}`)
+    .digest("base64url");
+}
+
+/**
+ * Check an export query for a caller the way find and aggregate check
+ * theirs. Returns the redaction rules for its output.
+ */
+export function checkExportQuery(
+  policy: AccessPolicy,
+  query: ExportQuery
+): RedactionRules {
+  assertToolAllowed(policy, "export");
+  assertCollectionsAllowed(policy, [query.collection]);
+
+  if (query.pipeline) {
+    validatePipeline(query.pipeline, policy);
+    return getAggregationRedactionRules(query.collection, query.pipeline);
+  }
+
+  validateFilter(query.filter ?? {});
+  const rules = getRedactionRules(query.collection);
+  assertFilterNotRedacted(query.filter ?? {}, rules);
+  assertNotRedacted(Object.keys(query.sort ?? {}), rules, "a sort");
+  return rules;
+}
+
+/**
+ * Open a cursor over the result of an export query. It reads one document
+ * past maxRows, to tell whether the ceiling cut the result short. EJSON
+ * exports keep Int32, Long and Double apart, so they read without
+ * promoteValues.
+ */
+export async function openExportCursor(
+  policy: AccessPolicy,
+  { query, format }: ExportRequest,
+  maxRows: number
+): Promise<{
+  collection: Collection;
+  cursor: FindCursor<Document> | AggregationCursor<Document>;
+}> {
+  const db = await getDatabase(resolveTarget(query, policy));
+  const collection = db.collection(query.collection);
+  const options = {
+    ...getQueryOptions(policy.limits),
+    batchSize: BATCH_SIZE,
+    promoteValues: format !== "ejson",
+  };
+
+  const cursor = query.pipeline
+    ? collection.aggregate(
+        [
+          ...governPipeline(query.pipeline, policy.limits),
+          { $limit: maxRows + 1 },
+        ],
+        options
+      )
+    : collection.find(query.filter ?? {}, {
+        projection: query.projection,
+        sort: query.sort as Record<string, SortDirection> | undefined,
+        limit: maxRows + 1,
+        ...options,
+      });
+
+  return { collection, cursor };
+}
+
+/**
+ * Sign an export request into a link for the caller, valid for the
+ * configured TTL.
+ */
+export function createExportLink(
+  caller: string,
+  request: ExportRequest,
+  baseUrl: string
+): ExportLink {
+  const { ttlSeconds, maxRows, maxBytes } = getConfig().export;
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+  const payload: ExportPayload = {
+    v: TOKEN_VERSION,
+    c: caller,
+    r: request,
+    exp: expiresAt.getTime(),
+  };
+  const data = Buffer.from(
+    EJSON.stringify(payload, { relaxed: false })
+  ).toString("base64url");
+  const token = `${data}.${sign(data)}`;
+
+  if (token.length > MAX_TOKEN_LENGTH) {
+    throw new ValidationError(
+      "Query is too large for an export link; shorten the filter or pipeline"
+    );
+  }
+
+  const url = new URL("/export", baseUrl);
+  url.searchParams.set("token", token);
+
+  return { url: url.toString(), expiresAt, maxRows, maxBytes };
+}
+
+/**
+ * Verify an export token and return what it was issued for.
+ * Throws an error if the token was tampered with or has expired.
+ */
+function readExportToken(token: string): ExportPayload {
+  const [data, signature] = token.split(".");
+
+  if (!data || !signature) {
+    throw new ValidationError("Invalid export link: malformed token");
+  }
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new ValidationError("Invalid export link: signature mismatch");
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = EJSON.parse(Buffer.from(data, "base64url").toString());
+  } catch {
+    throw new ValidationError("Invalid export link: malformed token");
+  }
+
+  const result = exportPayloadSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ValidationError("Invalid export link: malformed token");
+  }
+
+  const payload = result.data;
+  if (payload.v !== TOKEN_VERSION) {
+    throw new ValidationError("Invalid export link: unsupported token version");
+  }
+
+  if (Date.now() > payload.exp) {
+    throw new ValidationError(
+      `Export link expired at ${new Date(payload.exp).toISOString()}; call export again for a new link`
+    );
+  }
+
+  return payload;
+}
+
+/**
+ * Lines of an export file. Rows are joined by the format's separator and
+ * wrapped in its opening and closing text.
+ */
+interface ExportWriter {
+  open(firstBatch: Document[]): string;
+  row(doc: Document, index: number): string;
+  close(): string;
+}
+
+function createWriter(request: ExportRequest): ExportWriter {
+  switch (request.format) {
+    case "ndjson":
+      return {
+        open: () => "",
+        row: (doc) => `${EJSON.stringify(doc, { relaxed: true })}\n`,
+        close: () => "",
+      };
+    case "csv": {
+      let columns = request.columns ?? [];
+      return {
+        open(firstBatch) {
+          columns = request.columns ?? getColumns(firstBatch);
+          return `${toCsvLine(columns)}\r\n`;
+        },
+        row: (doc) => `${toCsvLine(columns, doc)}\r\n`,
+        close: () => "",
+      };
+    }
+    case "ejson":
+      return {
+        open: () => "[",
+        row: (doc, index) =>
+          `${index === 0 ? "\n" : ",\n"}${EJSON.stringify(doc, { relaxed: false })}`,
+        close: () => "\n]\n",
+      };
+  }
+}
+
+/**
+ * Open the download of an export link: check the token, the API key it was
+ * issued to and the query, then stream the result. The download is written
+ * to the audit log when it ends, fails or is cancelled, or when the checks
+ * reject it.
+ */
+export async function openExport(token: string): Promise<ExportDownload> {
+  const { c: caller, r: request } = readExportToken(token);
+  const { query } = request;
+  const { maxRows, maxBytes } = getConfig().export;
+  const startedAt = Date.now();
+
+  let rows = 0;
+  let bytes = 0;
+  let truncated = false;
+
+  const audit = (error?: unknown) => {
+    const isRejection =
+      error instanceof ValidationError ||
+      error instanceof AccessDeniedError ||
+      error instanceof RateLimitError;
+    const message = error instanceof Error ? error.message : String(error);
+
+    return auditOperation(
+      {
+        timestamp: new Date(startedAt).toISOString(),
+        caller,
+        tool: "export-download",
+        status:
+          error === undefined ? "success" : isRejection ? "rejected" : "error",
+        rejection: error !== undefined && isRejection ? message : undefined,
+        error: error !== undefined && !isRejection ? message : undefined,
+        durationMs: Date.now() - startedAt,
+        documentsReturned: rows,
+        bytesReturned: bytes,
+        truncated,
+      },
+      { ...query }
+    );
+  };
+
+  let policy: AccessPolicy;
+  let rules: RedactionRules;
+  let rowLimit: number;
+  let cursor: FindCursor<Document> | AggregationCursor<Document>;
+  try {
+    // Keys can be revoked or narrowed after the link was issued
+    const current = findAccessPolicy(caller);
+    if (!current) {
+      throw new AccessDeniedError(
+        `the API key "${caller}" this export link was issued to no longer exists`
+      );
+    }
+    policy = withCollectionLimits(current, query.collection);
+
+    rules = checkExportQuery(policy, query);
+
+    // Stop where the key's daily document quota runs out
+    const remaining = await checkOperationLimits(policy, "export-download");
+    rowLimit = Math.min(maxRows, remaining);
+
+    ({ cursor } = await openExportCursor(policy, request, rowLimit));
+  } catch (error) {
+    await audit(error);
+    throw error;
+  }
+
+  const writer = createWriter(request);
+  const encoder = new TextEncoder();
+  let opened = false;
+  let done = false;
+
+  const finish = async (error?: unknown) => {
+    if (done) return;
+    done = true;
+    await cursor.close().catch(() => undefined);
+    await recordUsage(policy, startedAt, {
+      documents: rows,
+      executionMs: Date.now() - startedAt,
+    });
+    await audit(error);
+  };
+
+  /**
+   * Read the next batch and format it, or return null at the end. Only
+   * the cursor's current batch is in memory.
+   */
+  const readChunk = async (): Promise<string | null> => {
+    if (done) {
+      return null;
+    }
+
+    const first = await cursor.next();
+    const batch = first ? [first, ...cursor.readBufferedDocuments()] : [];
+    redactDocuments(batch, rules);
+
+    let text = "";
+    if (!opened) {
+      opened = true;
+      text += writer.open(batch);
+      bytes += Buffer.byteLength(text);
+    }
+
+    for (const doc of batch) {
+      const line = writer.row(doc, rows);
+      const size = Buffer.byteLength(line);
+      if (rows >= rowLimit || bytes + size > maxBytes) {
+        truncated = true;
+        break;
+      }
+      text += line;
+      bytes += size;
+      rows++;
+    }
+
+    if (batch.length === 0 || truncated) {
+      const closing = writer.close();
+      text += closing;
+      bytes += Buffer.byteLength(closing);
+      await finish();
+    }
+
+    return text;
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        // pull is only called again after something is enqueued
+        let chunk: string | null;
+        do {
+          chunk = await readChunk();
+        } while (chunk === "");
+
+        if (chunk === null) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      } catch (error) {
+        controller.error(error);
+        await finish(error);
+      }
+    },
+    async cancel() {
+      await finish(new Error("Download cancelled by the client"));
+    },
+  });
+
+  const timestamp = new Date(startedAt).toISOString().replace(/[:.]/g, "-");
+  return {
+    stream,
+    contentType: CONTENT_TYPES[request.format],
+    filename: `${query.collection.replace(/[^\w.-]/g, "_")}-${timestamp}.${EXTENSIONS[request.format]}`,
+  };
+}
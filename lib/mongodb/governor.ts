@@ -0,0 +1,288 @@
+import type { Document } from "bson";
+import type { Collection, ExplainVerbosityLike } from "mongodb";
+import { ValidationError } from "./security";
+import { getPlanTree, getInputStages, getQueryPlans } from "./explainPlan";
+import type { AccessLimits } from "./access";
+
+/**
+ * Resource governor for queries, on top of the caller's maxTimeMS.
+ *
+ * - $sample sizes are capped at the key's maxSampleSize and $facet outputs
+ *   at its maxLimit (tools cap the final output themselves)
+ * - Sorts and groups may only spill to disk when the key allows it
+ * - With limits.maxScanDocuments set, a queryPlanner explain runs first on
+ *   larger collections and queries that would scan the whole collection
+ *   are rejected
+ */
+
+/** Server errors for sorts and groups that ran out of memory */
+const MEMORY_LIMIT_ERROR_CODES = [292, 16819, 16820];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Get the value of a JavaScript or BSON number (Int32, Long, Double,
+ * Decimal128), or null for anything else.
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isNaN(value) ? null : value;
+  }
+
+  switch ((value as { _bsontype?: string } | null)?._bsontype) {
+    case "Int32":
+    case "Long":
+    case "Double":
+    case "Decimal128": {
+      const number = Number(String(value));
+      return Number.isNaN(number) ? null : number;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Options passed to every find and aggregate a tool runs for the caller.
+ */
+export function getQueryOptions(limits: AccessLimits): {
+  maxTimeMS: number;
+  allowDiskUse: boolean;
+} {
+  return { maxTimeMS: limits.maxTimeMS, allowDiskUse: limits.allowDiskUse };
+}
+
+/**
+ * Cap a $facet sub-pipeline unless it already ends with a small enough
+ * $limit or a $count.
+ */
+function capFacet(
+  pipeline: Record<string, unknown>[],
+  maxLimit: number
+): Record<string, unknown>[] {
+  const last = pipeline[pipeline.length - 1];
+
+  if (
+    last &&
+    ("$count" in last ||
+      (typeof last.$limit === "number" && last.$limit <= maxLimit))
+  ) {
+    return pipeline;
+  }
+
+  return [...pipeline, { $limit: maxLimit }];
+}
+
+function governStages(
+  pipeline: Record<string, unknown>[],
+  path: string,
+  limits: AccessLimits
+): Record<string, unknown>[] {
+  return pipeline.map((stage, index) => {
+    const [[name, spec]] = Object.entries(stage);
+    const specPath = `${path}[${index}].${name}`;
+
+    if (name === "$sample") {
+      const size = isPlainObject(spec) ? toNumber(spec.size) : null;
+
+      if (size === null) {
+        throw new ValidationError(
+          `$sample at ${specPath} needs a numeric size`
+        );
+      }
+
+      if (size > limits.maxSampleSize) {
+        throw new ValidationError(
+          `$sample size ${size} at ${specPath}.size is over this API key's limit of ${limits.maxSampleSize}. ` +
+            `Use a smaller size, or narrow the input with $match before $sample`
+        );
+      }
+    }
+
+    if (!isPlainObject(spec)) {
+      return stage;
+    }
+
+    if (name === "$facet") {
+      return {
+        $facet: Object.fromEntries(
+          Object.entries(spec).map(([facet, subPipeline]) => [
+            facet,
+            capFacet(
+              governStages(
+                subPipeline as Record<string, unknown>[],
+                `${specPath}.${facet}`,
+                limits
+              ),
+              limits.maxLimit
+            ),
+          ])
+        ),
+      };
+    }
+
+    if ((name === "$lookup" || name === "$unionWith") && spec.pipeline) {
+      return {
+        [name]: {
+          ...spec,
+          pipeline: governStages(
+            spec.pipeline as Record<string, unknown>[],
+            `${specPath}.pipeline`,
+            limits
+          ),
+        },
+      };
+    }
+
+    return stage;
+  });
+}
+
+/**
+ * Apply the caller's limits to a validated pipeline: reject oversized
+ * $sample stages and cap every $facet output at maxLimit documents.
+ * Returns the pipeline to run; the input is not modified.
+ */
+export function governPipeline(
+  pipeline: Record<string, unknown>[],
+  limits: AccessLimits
+): Record<string, unknown>[] {
+  return governStages(pipeline, "pipeline", limits);
+}
+
+/**
+ * Check if a plan reads every document of the collection. A collection
+ * scan is bounded only when a limit stops it early: no filter on the scan
+ * and no blocking sort above it.
+ */
+function scansWholeCollection(
+  stage: Document,
+  limited = false,
+  sorted = false
+): boolean {
+  if (stage.stage === "COLLSCAN") {
+    return !limited || sorted || stage.filter !== undefined;
+  }
+
+  const isLimit = stage.stage === "LIMIT";
+  const isSort =
+    typeof stage.stage === "string" && stage.stage.startsWith("SORT");
+
+  return getInputStages(stage).some((input) =>
+    scansWholeCollection(input, limited || isLimit, sorted || isSort)
+  );
+}
+
+/**
+ * Reject a query that would scan the whole collection when the collection
+ * holds more than limits.maxScanDocuments documents. The plan comes from
+ * `explain`, which should run the same query with "queryPlanner"
+ * verbosity. Does nothing when the limit is not configured.
+ */
+export async function checkCollectionScan(
+  collection: Collection,
+  limits: AccessLimits,
+  explain: () => Promise<Document>
+): Promise<void> {
+  if (limits.maxScanDocuments === undefined) {
+    return;
+  }
+
+  const total = await collection.estimatedDocumentCount({
+    maxTimeMS: limits.maxTimeMS,
+  });
+
+  if (total <= limits.maxScanDocuments) {
+    return;
+  }
+
+  const plans = getQueryPlans(await explain());
+  if (
+    !plans.some((plan) => scansWholeCollection(getPlanTree(plan.winningPlan)))
+  ) {
+    return;
+  }
+
+  throw new ValidationError(
+    `Query rejected: it would scan all ~${total.toLocaleString()} documents of "${collection.collectionName}" without an index ` +
+      `(collections over ${limits.maxScanDocuments.toLocaleString()} documents can't be scanned with this API key). ` +
+      `Filter on an indexed field (see list-indexes), sort on an indexed field, ` +
+      `or call suggest-indexes to find an index that would serve this query`
+  );
+}
+
+export interface GovernedExplain {
+  explain: Document;
+  /** Why execution stats were left out, when they were */
+  executionSkipped?: string;
+}
+
+/**
+ * Explain a query at the given verbosity. Verbosities above queryPlanner
+ * run the query, so a query checkCollectionScan would reject is explained
+ * with queryPlanner only, and the reason is returned with it.
+ */
+export async function explainGoverned(
+  collection: Collection,
+  limits: AccessLimits,
+  verbosity: ExplainVerbosityLike,
+  explain: (verbosity: ExplainVerbosityLike) => Promise<Document>
+): Promise<GovernedExplain> {
+  if (verbosity === "queryPlanner") {
+    return { explain: await explain(verbosity) };
+  }
+
+  let plan: Document | undefined;
+  try {
+    await checkCollectionScan(collection, limits, async () => {
+      plan = await explain("queryPlanner");
+      return plan;
+    });
+  } catch (error) {
+    if (!(error instanceof ValidationError)) {
+      throw error;
+    }
+    return {
+      explain: plan ?? (await explain("queryPlanner")),
+      executionSkipped: `Execution stats were skipped: running the query would scan the whole collection, over this API key's limit of ${limits.maxScanDocuments?.toLocaleString()} documents. The plan below is the query planner's.`,
+    };
+  }
+
+  return { explain: await explain(verbosity) };
+}
+
+/**
+ * Run a query, explaining memory limit errors in terms the caller can act
+ * on when the key may not spill sorts and groups to disk.
+ */
+export async function runGoverned<T>(
+  limits: AccessLimits,
+  run: () => Promise<T>
+): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    const code = (error as { code?: unknown }).code;
+
+    if (
+      !limits.allowDiskUse &&
+      typeof code === "number" &&
+      MEMORY_LIMIT_ERROR_CODES.includes(code)
+    ) {
+      throw new Error(
+        "Query exceeded the server's memory limit for a sort or group, and this API key may not use disk for it. " +
+          "Sort on an indexed field, add a $match or $limit before the $sort or $group, " +
+          "or $project away fields that aren't needed first"
+      );
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,262 @@
+import type { Document } from "bson";
+import { getMongoClient, getPoolStats, type PoolStats } from "./client";
+import { getDataSources, type DataSource } from "./dataSources";
+import { authenticate } from "./access";
+import { getConfig } from "./config";
+
+/**
+ * Liveness and readiness checks for the /health routes.
+ *
+ * Liveness only checks that the server config, data sources and API keys
+ * load. Readiness connects to every data source, pings it, lists the
+ * collections of each configured database and warns when the connected
+ * user can write, since a read-only user is expected.
+ */
+
+export type HealthStatus = "up" | "down";
+
+export interface CheckResult {
+  status: HealthStatus;
+  error?: string;
+}
+
+export interface LivenessReport {
+  status: HealthStatus;
+  checks: Record<"config" | "dataSources" | "apiKeys", CheckResult>;
+}
+
+export interface DatabaseReport extends CheckResult {
+  name: string;
+  /** Collections the credentials can list */
+  collections?: number;
+}
+
+export interface SourceReport extends CheckResult {
+  name: string;
+  serverVersion?: string;
+  pingMs?: number;
+  databases: DatabaseReport[];
+  pool: PoolStats | null;
+  warnings: string[];
+}
+
+export interface ReadinessReport {
+  status: HealthStatus;
+  checkedAt: string;
+  sources: SourceReport[];
+}
+
+/** How long a data source may take to answer before it counts as down */
+const SOURCE_TIMEOUT_MS = 5000;
+
+/** How long a readiness report is reused, so probes can't flood the cluster */
+const READINESS_CACHE_MS = 5000;
+
+/** Actions that let a user change data or collections */
+const WRITE_ACTIONS = new Set([
+  "insert",
+  "update",
+  "remove",
+  "createCollection",
+  "dropCollection",
+  "dropDatabase",
+  "createIndex",
+  "dropIndex",
+  "renameCollectionSameDB",
+  "collMod",
+]);
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function runCheck(check: () => unknown): CheckResult {
+  try {
+    check();
+    return { status: "up" };
+  } catch (error) {
+    return { status: "down", error: errorMessage(error) };
+  }
+}
+
+/**
+ * Check that the server can start: its config, data sources and API keys
+ * are valid.
+ */
+export function checkLiveness(): LivenessReport {
+  const checks = {
+    config: runCheck(getConfig),
+    dataSources: runCheck(getDataSources),
+    apiKeys: runCheck(() => authenticate(null)),
+  };
+
+  return {
+    status: Object.values(checks).every((check) => check.status === "up")
+      ? "up"
+      : "down",
+    checks,
+  };
+}
+
+function withTimeout<T>(promise: Promise<T>, what: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${what} timed out after ${SOURCE_TIMEOUT_MS}ms`)),
+      SOURCE_TIMEOUT_MS
+    );
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function describeResource(resource: Document): string {
+  if (resource.anyResource || resource.cluster) {
+    return "the cluster";
+  }
+  return `${resource.db || "*"}.${resource.collection || "*"}`;
+}
+
+/**
+ * Describe what the connected user may write, from connectionStatus with
+ * privileges. Built-in and custom roles are judged by the actions they
+ * grant, not by name.
+ */
+function findWriteAccess(status: Document): string[] {
+  const authInfo = status.authInfo ?? {};
+  const users: Document[] = authInfo.authenticatedUsers ?? [];
+
+  if (users.length === 0) {
+    return [
+      "Connection is not authenticated, so nothing stops it from writing; use a read-only user",
+    ];
+  }
+
+  const writable = new Map<string, Set<string>>();
+  for (const privilege of authInfo.authenticatedUserPrivileges ?? []) {
+    const actions = (privilege.actions as string[]).filter((action) =>
+      WRITE_ACTIONS.has(action)
+    );
+    // Every user may write to its own session records
+    if (
+      actions.length === 0 ||
+      privilege.resource?.collection === "system.sessions"
+    ) {
+      continue;
+    }
+
+    const resource = describeResource(privilege.resource ?? {});
+    const granted = writable.get(resource) ?? new Set<string>();
+    actions.forEach((action) => granted.add(action));
+    writable.set(resource, granted);
+  }
+
+  if (writable.size === 0) {
+    return [];
+  }
+
+  const user = users.map(({ user, db }) => `${user}@${db}`).join(", ");
+  const roles = (authInfo.authenticatedUserRoles ?? [])
+    .map(({ role, db }: Document) => `${role}@${db}`)
+    .join(", ");
+  const grants = [...writable]
+    .map(([resource, actions]) => `${[...actions].join("/")} on ${resource}`)
+    .join("; ");
+
+  return [
+    `User ${user} (roles: ${roles || "none"}) can write: ${grants}. The server expects a read-only user`,
+  ];
+}
+
+async function checkSource(source: DataSource): Promise<SourceReport> {
+  const report: SourceReport = {
+    name: source.name,
+    status: "up",
+    databases: [],
+    pool: null,
+    warnings: [],
+  };
+
+  try {
+    const client = await withTimeout(getMongoClient(source.name), "Connecting");
+    const admin = client.db("admin");
+
+    const startedAt = Date.now();
+    await withTimeout(admin.command({ ping: 1 }), "Ping");
+    report.pingMs = Date.now() - startedAt;
+
+    const [buildInfo, connectionStatus] = await withTimeout(
+      Promise.all([
+        admin.command({ buildInfo: 1 }),
+        admin.command({ connectionStatus: 1, showPrivileges: true }),
+      ]),
+      "Server info"
+    );
+    report.serverVersion = buildInfo.version;
+    report.warnings.push(...findWriteAccess(connectionStatus));
+
+    // Patterns are expanded per call by list-databases, so only named
+    // databases are checked
+    const names = source.databases.filter((name) => !/[*?]/.test(name));
+    if (names.length < source.databases.length) {
+      report.warnings.push(
+        `Database patterns (${source.databases.filter((name) => !names.includes(name)).join(", ")}) are not checked`
+      );
+    }
+
+    report.databases = await Promise.all(
+      names.map(async (name): Promise<DatabaseReport> => {
+        try {
+          const collections = await withTimeout(
+            client.db(name).listCollections({}, { nameOnly: true }).toArray(),
+            `Listing collections of "${name}"`
+          );
+          return { name, status: "up", collections: collections.length };
+        } catch (error) {
+          return { name, status: "down", error: errorMessage(error) };
+        }
+      })
+    );
+
+    if (report.databases.some((database) => database.status === "down")) {
+      report.status = "down";
+    }
+  } catch (error) {
+    report.status = "down";
+    report.error = errorMessage(error);
+  }
+
+  report.pool = getPoolStats(source.name);
+  return report;
+}
+
+let lastReadiness: { at: number; report: Promise<ReadinessReport> } | null =
+  null;
+
+/**
+ * Check that every data source is reachable and its databases readable.
+ * Reports are reused for a few seconds.
+ */
+export function checkReadiness(): Promise<ReadinessReport> {
+  if (lastReadiness && Date.now() - lastReadiness.at < READINESS_CACHE_MS) {
+    return lastReadiness.report;
+  }
+
+  const report = (async (): Promise<ReadinessReport> => {
+    const sources = await Promise.all(getDataSources().map(checkSource));
+    return {
+      status: sources.every((source) => source.status === "up") ? "up" : "down",
+      checkedAt: new Date().toISOString(),
+      sources,
+    };
+  })();
+
+  lastReadiness = { at: Date.now(), report };
+  // Don't reuse a check that threw (e.g. invalid data source config)
+  report.catch(() => {
+    lastReadiness = null;
+  });
+
+  return report;
+}
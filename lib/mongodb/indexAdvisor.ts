@@ -0,0 +1,307 @@
+import type { Document } from "bson";
+
+/**
+ * Index recommendations following the equality, sort, range (ESR) rule, and
+ * checks for redundant or unused existing indexes. Nothing here creates
+ * indexes; suggestions are only reported.
+ */
+
+export type IndexKey = Record<string, 1 | -1>;
+
+export interface IndexInfo {
+  name: string;
+  key: Record<string, unknown>;
+  unique?: boolean;
+  sparse?: boolean;
+  partialFilterExpression?: Document;
+  expireAfterSeconds?: number;
+  hidden?: boolean;
+}
+
+/**
+ * Usage counters from $indexStats.
+ */
+export interface IndexUsage {
+  ops: number;
+  since?: Date;
+}
+
+export interface QueryShape {
+  /** Fields compared for equality, e.g. { status: "active" } or $in */
+  equality: string[];
+  /** Sort fields in order */
+  sort: IndexKey;
+  /** Fields compared with range operators, e.g. $gt, $ne or $regex */
+  range: string[];
+  /** Why parts of the query can't use a single index */
+  notes: string[];
+}
+
+export interface IndexSuggestion {
+  key: IndexKey;
+  shape: QueryShape;
+}
+
+const EQUALITY_OPERATORS = new Set(["$eq", "$in"]);
+const RANGE_OPERATORS = new Set([
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$ne",
+  "$nin",
+  "$regex",
+  "$exists",
+  "$type",
+  "$elemMatch",
+  "$all",
+  "$size",
+  "$mod",
+  "$not",
+]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function addUnique(list: string[], value: string) {
+  if (!list.includes(value)) {
+    list.push(value);
+  }
+}
+
+/**
+ * Sort the fields of a filter into equality and range predicates.
+ */
+function collectPredicates(
+  filter: Record<string, unknown>,
+  shape: QueryShape
+): void {
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === "$and" && Array.isArray(value)) {
+      value
+        .filter(isPlainObject)
+        .forEach((clause) => collectPredicates(clause, shape));
+    } else if (key === "$or" || key === "$nor") {
+      shape.notes.push(
+        `${key} clauses are not included; each clause needs its own index`
+      );
+    } else if (key === "$expr" || key === "$text" || key.startsWith("$")) {
+      shape.notes.push(`${key} can't be matched to index fields`);
+    } else {
+      const operators =
+        isPlainObject(value) &&
+        Object.keys(value).some((k) => k.startsWith("$"))
+          ? Object.keys(value)
+          : null;
+
+      if (!operators || operators.some((op) => EQUALITY_OPERATORS.has(op))) {
+        addUnique(shape.equality, key);
+      } else if (operators.some((op) => RANGE_OPERATORS.has(op))) {
+        addUnique(shape.range, key);
+      }
+    }
+  }
+
+  // A field with both kinds of predicates is used for equality
+  shape.range = shape.range.filter((field) => !shape.equality.includes(field));
+}
+
+/**
+ * Describe which fields of a find filter and sort an index can serve.
+ */
+export function getFindShape(
+  filter: Record<string, unknown>,
+  sort?: IndexKey
+): QueryShape {
+  const shape: QueryShape = {
+    equality: [],
+    sort: { ...(sort ?? {}) },
+    range: [],
+    notes: [],
+  };
+
+  collectPredicates(filter, shape);
+  return shape;
+}
+
+/**
+ * Describe which fields of a pipeline's leading $match and $sort stages an
+ * index can serve. Later stages run on documents already fetched.
+ */
+export function getPipelineShape(
+  pipeline: Record<string, unknown>[]
+): QueryShape {
+  let filter: Record<string, unknown> = {};
+  let sort: IndexKey | undefined;
+
+  for (const stage of pipeline) {
+    if (isPlainObject(stage.$match) && !sort) {
+      filter = Object.keys(filter).length
+        ? { $and: [filter, stage.$match] }
+        : stage.$match;
+    } else if (isPlainObject(stage.$sort) && !sort) {
+      sort = stage.$sort as IndexKey;
+    } else {
+      break;
+    }
+  }
+
+  const shape = getFindShape(filter, sort);
+
+  if (Object.keys(filter).length === 0 && !sort) {
+    shape.notes.push(
+      "The pipeline doesn't start with $match or $sort, so no index can be used"
+    );
+  }
+
+  return shape;
+}
+
+/**
+ * Build the ESR index for a query shape: equality fields, then sort fields,
+ * then range fields. Returns null if the query has nothing to index.
+ */
+export function suggestIndex(shape: QueryShape): IndexSuggestion | null {
+  const key: IndexKey = {};
+
+  for (const field of shape.equality) {
+    key[field] = 1;
+  }
+
+  for (const [field, direction] of Object.entries(shape.sort)) {
+    if (!(field in key)) {
+      key[field] = direction === -1 ? -1 : 1;
+    }
+  }
+
+  for (const field of shape.range) {
+    if (!(field in key)) {
+      key[field] = 1;
+    }
+  }
+
+  return Object.keys(key).length > 0 ? { key, shape } : null;
+}
+
+/**
+ * Check if `prefix` is a leading part of `key`. With `allowReversed`, a key
+ * with every direction flipped counts too (an index can be walked backwards).
+ */
+function isKeyPrefix(
+  prefix: Record<string, unknown>,
+  key: Record<string, unknown>,
+  allowReversed = false
+): boolean {
+  const prefixEntries = Object.entries(prefix);
+  const keyEntries = Object.entries(key);
+
+  if (prefixEntries.length > keyEntries.length) {
+    return false;
+  }
+
+  const matches = (flip: boolean) =>
+    prefixEntries.every(([field, direction], index) => {
+      const [keyField, keyDirection] = keyEntries[index];
+      return (
+        field === keyField &&
+        (flip
+          ? Number(direction) === -Number(keyDirection)
+          : direction === keyDirection)
+      );
+    });
+
+  return matches(false) || (allowReversed && matches(true));
+}
+
+/**
+ * Find an existing index that already serves a suggested key.
+ * Equality fields can come in any order, so only the ESR layout is checked.
+ */
+export function findCoveringIndex(
+  suggestion: IndexSuggestion,
+  indexes: IndexInfo[]
+): IndexInfo | null {
+  return (
+    indexes.find(
+      (index) =>
+        !index.partialFilterExpression &&
+        !index.hidden &&
+        isKeyPrefix(suggestion.key, index.key, true)
+    ) ?? null
+  );
+}
+
+function isSpecialIndex(index: IndexInfo): boolean {
+  return Object.values(index.key).some(
+    (direction) => typeof direction === "string"
+  );
+}
+
+/**
+ * Find indexes made redundant by another index whose key starts with
+ * theirs. Unique, partial, sparse, TTL and special (text, 2dsphere,
+ * hashed) indexes are never reported, since they do more than speed up
+ * queries.
+ */
+export function findRedundantIndexes(
+  indexes: IndexInfo[]
+): { index: IndexInfo; coveredBy: IndexInfo }[] {
+  const candidates = indexes.filter(
+    (index) =>
+      index.name !== "_id_" &&
+      !index.unique &&
+      !index.sparse &&
+      !index.partialFilterExpression &&
+      index.expireAfterSeconds === undefined &&
+      !isSpecialIndex(index)
+  );
+
+  return candidates.flatMap((index) => {
+    const coveredBy = indexes.find(
+      (other) =>
+        other !== index &&
+        !other.partialFilterExpression &&
+        !other.sparse &&
+        !other.hidden &&
+        !isSpecialIndex(other) &&
+        Object.keys(other.key).length > Object.keys(index.key).length &&
+        isKeyPrefix(index.key, other.key)
+    );
+
+    return coveredBy ? [{ index, coveredBy }] : [];
+  });
+}
+
+/**
+ * Find indexes with no recorded use. Counters reset when the server
+ * restarts, so the report includes when counting started.
+ */
+export function findUnusedIndexes(
+  indexes: IndexInfo[],
+  usage: Map<string, IndexUsage>
+): { index: IndexInfo; since?: Date }[] {
+  return indexes.flatMap((index) => {
+    const stats = usage.get(index.name);
+
+    return index.name !== "_id_" && stats && stats.ops === 0
+      ? [{ index, since: stats.since }]
+      : [];
+  });
+}
+
+/**
+ * Format an index key pattern, e.g. { status: 1, createdAt: -1 }.
+ */
+export function formatIndexKey(key: Record<string, unknown>): string {
+  const fields = Object.entries(key).map(
+    ([field, direction]) => `${field}: ${JSON.stringify(direction)}`
+  );
+
+  return `{ ${fields.join(", ")} }`;
+}
@@ -0,0 +1,56 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Span } from "./tracing";
+
+/**
+ * Details about the tool call currently running, shared between the tool
+ * and the wrappers around it (audit log, rate limits, telemetry).
+ */
+export interface ToolInvocation {
+  tool: string;
+  /** Number of documents the tool returned to the caller */
+  documentsReturned?: number;
+  /** Why the call was rejected without throwing (e.g. rate limited) */
+  rejection?: string;
+  /** Trace span of the call, parent of its MongoDB command spans */
+  span?: Span;
+}
+
+const invocationStorage = new AsyncLocalStorage<ToolInvocation>();
+
+/**
+ * Run a function in the context of a tool call.
+ * Nested wrappers share the invocation started by the outermost one.
+ */
+export function runInvocation<T>(
+  tool: string,
+  fn: (invocation: ToolInvocation) => T
+): T {
+  const current = invocationStorage.getStore();
+
+  if (current) {
+    return fn(current);
+  }
+
+  const invocation: ToolInvocation = { tool };
+  return invocationStorage.run(invocation, () => fn(invocation));
+}
+
+/**
+ * Get the tool call currently running, if any.
+ */
+export function getInvocation(): ToolInvocation | undefined {
+  return invocationStorage.getStore();
+}
+
+/**
+ * Record details about the tool call currently running.
+ */
+export function recordInvocation(
+  details: Omit<Partial<ToolInvocation>, "tool">
+): void {
+  const current = invocationStorage.getStore();
+
+  if (current) {
+    Object.assign(current, details);
+  }
+}
@@ -0,0 +1,235 @@
+import { getConfig } from "./config";
+
+/**
+ * Prometheus metrics for tool calls and MongoDB commands.
+ *
+ * Metrics are kept in memory, so on serverless platforms each instance
+ * reports its own series; the scraper (or a recording rule) sums them.
+ * They are served in the Prometheus text format by the /metrics route.
+ */
+
+type Labels = Record<string, string>;
+
+/** Latency buckets in seconds */
+const DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+interface Counter {
+  type: "counter";
+  help: string;
+  values: Map<string, { labels: Labels; value: number }>;
+}
+
+interface Histogram {
+  type: "histogram";
+  help: string;
+  buckets: number[];
+  values: Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >;
+}
+
+const metrics = new Map<string, Counter | Histogram>();
+
+function counter(name: string, help: string): Counter {
+  const metric: Counter = { type: "counter", help, values: new Map() };
+  metrics.set(name, metric);
+  return metric;
+}
+
+function histogram(name: string, help: string, buckets: number[]): Histogram {
+  const metric: Histogram = {
+    type: "histogram",
+    help,
+    buckets,
+    values: new Map(),
+  };
+  metrics.set(name, metric);
+  return metric;
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort());
+}
+
+function increment(metric: Counter, labels: Labels, amount = 1): void {
+  const key = seriesKey(labels);
+  const series = metric.values.get(key);
+
+  if (series) {
+    series.value += amount;
+  } else {
+    metric.values.set(key, { labels, value: amount });
+  }
+}
+
+function observe(metric: Histogram, labels: Labels, value: number): void {
+  const key = seriesKey(labels);
+  let series = metric.values.get(key);
+
+  if (!series) {
+    series = {
+      labels,
+      counts: metric.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    metric.values.set(key, series);
+  }
+
+  metric.buckets.forEach((bound, index) => {
+    if (value <= bound) {
+      series.counts[index] += 1;
+    }
+  });
+  series.sum += value;
+  series.count += 1;
+}
+
+const toolCalls = counter(
+  "mcp_tool_calls_total",
+  "Tool calls by tool and status (success, rejected or error)"
+);
+const toolErrors = counter(
+  "mcp_tool_errors_total",
+  "Rejected and failed tool calls by tool and error type"
+);
+const toolDuration = histogram(
+  "mcp_tool_duration_seconds",
+  "Tool call latency",
+  DURATION_BUCKETS
+);
+const documentsReturned = counter(
+  "mcp_tool_documents_returned_total",
+  "Documents returned to callers by tool and collection"
+);
+const commands = counter(
+  "mongodb_commands_total",
+  "MongoDB commands by command name and status (success or error)"
+);
+const commandDuration = histogram(
+  "mongodb_command_duration_seconds",
+  "MongoDB command latency",
+  DURATION_BUCKETS
+);
+
+export interface ToolCallMetrics {
+  tool: string;
+  collection?: string;
+  status: "success" | "rejected" | "error";
+  /** Error class name, or the kind of rejection */
+  errorType?: string;
+  durationMs: number;
+  documentsReturned?: number;
+}
+
+/**
+ * Get the collection label of documents returned. Collections are named
+ * only when they returned documents, so they exist, or are configured;
+ * other names share "other", so callers can't add series at will.
+ */
+function getCollectionLabel(collection: string | undefined, documents: number) {
+  if (!collection) {
+    return "";
+  }
+  if (documents > 0) {
+    return collection;
+  }
+
+  try {
+    return Object.prototype.hasOwnProperty.call(
+      getConfig().collections,
+      collection
+    )
+      ? collection
+      : "other";
+  } catch {
+    // The call already failed on the bad config
+    return "other";
+  }
+}
+
+/**
+ * Record a finished tool call.
+ */
+export function recordToolCall(call: ToolCallMetrics): void {
+  const { tool, status } = call;
+
+  increment(toolCalls, { tool, status });
+  observe(toolDuration, { tool }, call.durationMs / 1000);
+
+  if (call.errorType) {
+    increment(toolErrors, { tool, type: call.errorType });
+  }
+
+  if (call.documentsReturned !== undefined) {
+    increment(
+      documentsReturned,
+      {
+        tool,
+        collection: getCollectionLabel(call.collection, call.documentsReturned),
+      },
+      call.documentsReturned
+    );
+  }
+}
+
+/**
+ * Record a finished MongoDB command.
+ */
+export function recordCommand(
+  command: string,
+  status: "success" | "error",
+  durationMs: number
+): void {
+  increment(commands, { command, status });
+  observe(commandDuration, { command }, durationMs / 1000);
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/**
+ * Render every metric in the Prometheus text exposition format.
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  for (const [name, metric] of metrics) {
+    lines.push(`# HELP ${name} ${metric.help}`);
+    lines.push(`# TYPE ${name} ${metric.type}`);
+
+    if (metric.type === "counter") {
+      for (const { labels, value } of metric.values.values()) {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+      continue;
+    }
+
+    for (const { labels, counts, sum, count } of metric.values.values()) {
+      metric.buckets.forEach((bound, index) => {
+        lines.push(
+          `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`
+        );
+      });
+      lines.push(
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`
+      );
+      lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
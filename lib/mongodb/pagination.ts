@@ -0,0 +1,265 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { EJSON, type Document } from "bson";
+import { ValidationError } from "./security";
+
+/**
+ * Opaque continuation tokens for paging through results beyond the
+ * per-call document cap.
+ *
+ * A token carries the sort key values of the last document returned and
+ * is signed with HMAC-SHA256. It is bound to the query that created it
+ * (database, collection, filter/pipeline and sort) so it cannot be replayed
+ * against a different query or edited to jump elsewhere in the collection.
+ */
+
+export type SortSpec = Record<string, 1 | -1>;
+
+const CURSOR_VERSION = 1;
+
+interface CursorPayload {
+  v: number;
+  s: string;
+  k: unknown[];
+}
+
+/**
+ * Get the secret used to sign cursors.
+ */
+function getCursorSecret(): string {
+  const secret = process.env.CURSOR_SECRET;
+
+  if (!secret) {
+    throw new Error(
+      "CURSOR_SECRET environment variable is not set (required for pagination)"
+    );
+  }
+
+  return secret;
+}
+
+/**
+ * Hash the query a cursor belongs to.
+ */
+function hashScope(scope: Document): string {
+  return createHash("sha256")
+    .update(EJSON.stringify(scope, { relaxed: false }))
+    .digest("base64url");
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getCursorSecret())
+    .update(data)
+    .digest("base64url");
+}
+
+/**
+ * Create a signed cursor for resuming after the given sort key values.
+ */
+export function encodeCursor(scope: Document, values: unknown[]): string {
+  const payload: CursorPayload = {
+    v: CURSOR_VERSION,
+    s: hashScope(scope),
+    k: values,
+  };
+  const data = Buffer.from(
+    EJSON.stringify(payload, { relaxed: false })
+  ).toString("base64url");
+
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Verify a cursor and return the sort key values it resumes after.
+ * Throws an error if the cursor was tampered with or belongs to another query.
+ */
+export function decodeCursor(token: string, scope: Document): unknown[] {
+  const [data, signature] = token.split(".");
+
+  if (!data || !signature) {
+    throw new ValidationError("Invalid cursor: malformed token");
+  }
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new ValidationError("Invalid cursor: signature mismatch");
+  }
+
+  let payload: CursorPayload;
+  try {
+    payload = EJSON.parse(
+      Buffer.from(data, "base64url").toString()
+    ) as CursorPayload;
+  } catch {
+    throw new ValidationError("Invalid cursor: malformed token");
+  }
+
+  if (payload.v !== CURSOR_VERSION || !Array.isArray(payload.k)) {
+    throw new ValidationError("Invalid cursor: unsupported token version");
+  }
+
+  if (payload.s !== hashScope(scope)) {
+    throw new ValidationError(
+      "Invalid cursor: it was created for a different collection, filter, pipeline or sort. " +
+        "Repeat the original query with the cursor it returned."
+    );
+  }
+
+  return payload.k;
+}
+
+/**
+ * Append _id as a tiebreaker so the sort order is total.
+ */
+export function withTiebreaker(sort?: SortSpec): SortSpec {
+  if (sort && "_id" in sort) {
+    return sort;
+  }
+
+  return { ...sort, _id: 1 };
+}
+
+/**
+ * Read a (possibly dotted) field path from a document.
+ */
+export function getPath(doc: Document, path: string): unknown {
+  let value: unknown = doc;
+
+  for (const part of path.split(".")) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = (value as Document)[part];
+  }
+
+  return value;
+}
+
+/**
+ * Extract the sort key values of a document, in sort order.
+ */
+export function getSortValues(doc: Document, sort: SortSpec): unknown[] {
+  return Object.keys(sort).map((field) => getPath(doc, field) ?? null);
+}
+
+/**
+ * Build the condition matching values that sort after `value` on one field.
+ * Null and missing sort before every other value, so they need special care;
+ * returns null when nothing can sort after `value`.
+ */
+function afterValue(
+  field: string,
+  value: unknown,
+  direction: 1 | -1
+): Document | null {
+  if (direction === 1) {
+    return value === null
+      ? { [field]: { $ne: null } }
+      : { [field]: { $gt: value } };
+  }
+
+  if (value === null) {
+    return null;
+  }
+
+  return { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+}
+
+/**
+ * Build a range filter matching documents strictly after the given sort key
+ * values, e.g. for { a: 1, _id: 1 }:
+ *   { $or: [{ a: { $gt: va } }, { a: va, _id: { $gt: vid } }] }
+ */
+export function buildResumeFilter(sort: SortSpec, values: unknown[]): Document {
+  const fields = Object.keys(sort);
+
+  if (values.length !== fields.length) {
+    throw new ValidationError("Invalid cursor: sort key mismatch");
+  }
+
+  const branches: Document[] = [];
+
+  fields.forEach((field, index) => {
+    const after = afterValue(field, values[index], sort[field]);
+    if (!after) return;
+
+    const equalities = fields
+      .slice(0, index)
+      .map((prefix, i) => ({ [prefix]: values[i] }));
+
+    branches.push(
+      equalities.length > 0 ? { $and: [...equalities, after] } : after
+    );
+  });
+
+  // Nothing sorts after the last document, so match nothing
+  if (branches.length === 0) {
+    return { $expr: false };
+  }
+
+  return branches.length === 1 ? branches[0] : { $or: branches };
+}
+
+/**
+ * Make sure a find projection keeps the sort fields a cursor is built from.
+ * Returns the adjusted projection and the paths to strip from the output.
+ */
+export function includeSortFields(
+  projection: Record<string, number | boolean> | undefined,
+  sort: SortSpec
+): { projection?: Record<string, number | boolean>; hidden: string[] } {
+  if (!projection) {
+    return { projection, hidden: [] };
+  }
+
+  const adjusted = { ...projection };
+  const hidden: string[] = [];
+  const isInclusion = Object.entries(adjusted).some(
+    ([key, value]) => key !== "_id" && Boolean(value)
+  );
+
+  for (const field of Object.keys(sort)) {
+    const covering = Object.keys(adjusted).find(
+      (key) => key === field || field.startsWith(`${key}.`)
+    );
+
+    if (field === "_id" || !isInclusion) {
+      // Exclusion projection (or _id): lift any exclusion of the field
+      if (covering !== undefined && !adjusted[covering]) {
+        delete adjusted[covering];
+        hidden.push(covering);
+      }
+      continue;
+    }
+
+    if (covering !== undefined) {
+      continue;
+    }
+
+    if (Object.keys(adjusted).some((key) => key.startsWith(`${field}.`))) {
+      throw new ValidationError(
+        `Projection must include the whole sort field "${field}" to paginate`
+      );
+    }
+
+    adjusted[field] = 1;
+    hidden.push(field);
+  }
+
+  return { projection: adjusted, hidden };
+}
+
+/**
+ * Remove (possibly dotted) field paths from a document in place.
+ */
+export function stripPaths(doc: Document, paths: string[]): void {
+  for (const path of paths) {
+    const parts = path.split(".");
+    const last = parts.pop()!;
+    const parent = parts.length > 0 ? getPath(doc, parts.join(".")) : doc;
+
+    if (parent !== null && typeof parent === "object") {
+      delete (parent as Document)[last];
+    }
+  }
+}
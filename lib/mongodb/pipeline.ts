@@ -0,0 +1,496 @@
+import { ValidationError } from "./security";
+import {
+  AccessDeniedError,
+  isCollectionAllowed,
+  type AccessPolicy,
+} from "./access";
+
+/**
+ * Aggregation pipeline validation.
+ *
+ * Only stages and operators known to be read-only and free of server-side
+ * code are let through. Sub-pipelines ($facet, $lookup, $unionWith) are
+ * checked the same way, and every collection a stage reads from is checked
+ * against the caller's access policy. Rejections name the path of the
+ * offending value, e.g. pipeline[2].$facet.recent[0].$match.$where.
+ */
+
+/** Stages that only read and reshape documents */
+const ALLOWED_STAGES = new Set([
+  "$addFields",
+  "$bucket",
+  "$bucketAuto",
+  "$count",
+  "$densify",
+  "$facet",
+  "$fill",
+  "$geoNear",
+  "$graphLookup",
+  "$group",
+  "$limit",
+  "$lookup",
+  "$match",
+  "$project",
+  "$redact",
+  "$replaceRoot",
+  "$replaceWith",
+  "$sample",
+  "$set",
+  "$setWindowFields",
+  "$skip",
+  "$sort",
+  "$sortByCount",
+  "$unionWith",
+  "$unset",
+  "$unwind",
+]);
+
+const WRITE_REASON = "it writes data";
+const ADMIN_REASON = "it exposes server or collection internals";
+const CODE_REASON = "it runs server-side JavaScript";
+
+/** Why commonly tried stages are rejected */
+const DENIED_STAGES: Record<string, string> = {
+  $out: WRITE_REASON,
+  $merge: WRITE_REASON,
+  $currentOp: ADMIN_REASON,
+  $listSessions: ADMIN_REASON,
+  $listLocalSessions: ADMIN_REASON,
+  $listSampledQueries: ADMIN_REASON,
+  $listSearchIndexes: ADMIN_REASON,
+  $collStats: ADMIN_REASON,
+  $indexStats: ADMIN_REASON,
+  $planCacheStats: ADMIN_REASON,
+  $shardedDataDistribution: ADMIN_REASON,
+  $querySettings: ADMIN_REASON,
+  $changeStream: "change streams are not supported",
+  $changeStreamSplitLargeEvent: "change streams are not supported",
+  $documents: "it creates documents instead of reading a collection",
+};
+
+/** Query, expression, accumulator and window operators */
+const ALLOWED_OPERATORS = new Set([
+  // Query
+  "$all",
+  "$bitsAllClear",
+  "$bitsAllSet",
+  "$bitsAnyClear",
+  "$bitsAnySet",
+  "$box",
+  "$caseSensitive",
+  "$center",
+  "$centerSphere",
+  "$comment",
+  "$diacriticSensitive",
+  "$elemMatch",
+  "$exists",
+  "$expr",
+  "$geoIntersects",
+  "$geoWithin",
+  "$geometry",
+  "$jsonSchema",
+  "$language",
+  "$maxDistance",
+  "$minDistance",
+  "$near",
+  "$nearSphere",
+  "$nin",
+  "$nor",
+  "$options",
+  "$polygon",
+  "$regex",
+  "$search",
+  "$text",
+  // Arithmetic
+  "$abs",
+  "$add",
+  "$ceil",
+  "$divide",
+  "$exp",
+  "$floor",
+  "$ln",
+  "$log",
+  "$log10",
+  "$mod",
+  "$multiply",
+  "$pow",
+  "$round",
+  "$sqrt",
+  "$subtract",
+  "$trunc",
+  // Array
+  "$arrayElemAt",
+  "$arrayToObject",
+  "$concatArrays",
+  "$filter",
+  "$firstN",
+  "$in",
+  "$indexOfArray",
+  "$isArray",
+  "$lastN",
+  "$map",
+  "$maxN",
+  "$minN",
+  "$objectToArray",
+  "$range",
+  "$reduce",
+  "$reverseArray",
+  "$size",
+  "$slice",
+  "$sortArray",
+  "$zip",
+  // Bitwise
+  "$bitAnd",
+  "$bitNot",
+  "$bitOr",
+  "$bitXor",
+  // Boolean and comparison
+  "$and",
+  "$not",
+  "$or",
+  "$cmp",
+  "$eq",
+  "$gt",
+  "$gte",
+  "$lt",
+  "$lte",
+  "$ne",
+  // Conditional
+  "$cond",
+  "$ifNull",
+  "$switch",
+  // Data size
+  "$binarySize",
+  "$bsonSize",
+  // Date
+  "$dateAdd",
+  "$dateDiff",
+  "$dateFromParts",
+  "$dateFromString",
+  "$dateSubtract",
+  "$dateToParts",
+  "$dateToString",
+  "$dateTrunc",
+  "$dayOfMonth",
+  "$dayOfWeek",
+  "$dayOfYear",
+  "$hour",
+  "$isoDayOfWeek",
+  "$isoWeek",
+  "$isoWeekYear",
+  "$millisecond",
+  "$minute",
+  "$month",
+  "$second",
+  "$week",
+  "$year",
+  // Object, field and miscellaneous
+  "$getField",
+  "$let",
+  "$literal",
+  "$mergeObjects",
+  "$meta",
+  "$rand",
+  "$sampleRate",
+  "$setField",
+  "$unsetField",
+  // Set
+  "$allElementsTrue",
+  "$anyElementTrue",
+  "$setDifference",
+  "$setEquals",
+  "$setIntersection",
+  "$setIsSubset",
+  "$setUnion",
+  // String
+  "$concat",
+  "$indexOfBytes",
+  "$indexOfCP",
+  "$ltrim",
+  "$regexFind",
+  "$regexFindAll",
+  "$regexMatch",
+  "$replaceAll",
+  "$replaceOne",
+  "$rtrim",
+  "$split",
+  "$strcasecmp",
+  "$strLenBytes",
+  "$strLenCP",
+  "$substr",
+  "$substrBytes",
+  "$substrCP",
+  "$toLower",
+  "$toUpper",
+  "$trim",
+  // Timestamp and trigonometry
+  "$tsIncrement",
+  "$tsSecond",
+  "$acos",
+  "$acosh",
+  "$asin",
+  "$asinh",
+  "$atan",
+  "$atan2",
+  "$atanh",
+  "$cos",
+  "$cosh",
+  "$degreesToRadians",
+  "$radiansToDegrees",
+  "$sin",
+  "$sinh",
+  "$tan",
+  "$tanh",
+  // Type
+  "$convert",
+  "$isNumber",
+  "$toBool",
+  "$toDate",
+  "$toDecimal",
+  "$toDouble",
+  "$toInt",
+  "$toLong",
+  "$toObjectId",
+  "$toString",
+  "$toUUID",
+  "$type",
+  // Accumulators
+  "$addToSet",
+  "$avg",
+  "$bottom",
+  "$bottomN",
+  "$count",
+  "$first",
+  "$last",
+  "$max",
+  "$median",
+  "$min",
+  "$percentile",
+  "$push",
+  "$stdDevPop",
+  "$stdDevSamp",
+  "$sum",
+  "$top",
+  "$topN",
+  // Window
+  "$covariancePop",
+  "$covarianceSamp",
+  "$denseRank",
+  "$derivative",
+  "$documentNumber",
+  "$expMovingAvg",
+  "$integral",
+  "$linearFill",
+  "$locf",
+  "$rank",
+  "$shift",
+]);
+
+/** Why commonly tried operators are rejected */
+const DENIED_OPERATORS: Record<string, string> = {
+  $where: CODE_REASON,
+  $function: CODE_REASON,
+  $accumulator: CODE_REASON,
+};
+
+function reject(path: string, reason: string): never {
+  throw new ValidationError(`Pipeline rejected at ${path}: ${reason}`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Check that every operator in a stage specification, query or expression
+ * is allowed. BSON values and the contents of $literal are not operators.
+ */
+function validateOperators(value: unknown, path: string): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      validateOperators(item, `${path}[${index}]`)
+    );
+    return;
+  }
+
+  if (!isPlainObject(value)) {
+    return;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = `${path}.${key}`;
+
+    if (key.startsWith("$")) {
+      if (key in DENIED_OPERATORS) {
+        reject(
+          childPath,
+          `operator "${key}" is not allowed because ${DENIED_OPERATORS[key]}`
+        );
+      }
+      if (!ALLOWED_OPERATORS.has(key)) {
+        reject(childPath, `operator "${key}" is not supported`);
+      }
+      if (key === "$literal") {
+        continue;
+      }
+    }
+
+    validateOperators(child, childPath);
+  }
+}
+
+interface ValidationContext {
+  policy: AccessPolicy;
+}
+
+/**
+ * Ensure the caller may read a collection a stage joins in.
+ */
+function checkCollection(
+  collection: unknown,
+  path: string,
+  context: ValidationContext
+): void {
+  if (typeof collection !== "string" || collection.length === 0) {
+    reject(path, "expected the name of a collection in the same database");
+  }
+
+  if (!isCollectionAllowed(context.policy, collection)) {
+    throw new AccessDeniedError(
+      `API key "${context.policy.name}" is not allowed to read collection "${collection}" (referenced at ${path})`
+    );
+  }
+}
+
+function expectObject(
+  spec: unknown,
+  path: string,
+  stage: string
+): Record<string, unknown> {
+  if (!isPlainObject(spec)) {
+    reject(path, `${stage} expects a document`);
+  }
+  return spec;
+}
+
+function validateSubPipeline(
+  pipeline: unknown,
+  path: string,
+  context: ValidationContext
+): void {
+  if (!Array.isArray(pipeline)) {
+    reject(path, "expected an array of stages");
+  }
+  validateStages(pipeline, path, context);
+}
+
+/**
+ * Check a stage that reads other collections or nests sub-pipelines.
+ * Returns false for stages without either.
+ */
+function validateJoinStage(
+  name: string,
+  spec: unknown,
+  path: string,
+  context: ValidationContext
+): boolean {
+  switch (name) {
+    case "$lookup": {
+      const { from, pipeline, ...rest } = expectObject(spec, path, name);
+      checkCollection(from, `${path}.from`, context);
+      if (pipeline !== undefined) {
+        validateSubPipeline(pipeline, `${path}.pipeline`, context);
+      }
+      validateOperators(rest, path);
+      return true;
+    }
+
+    case "$graphLookup": {
+      const { from, ...rest } = expectObject(spec, path, name);
+      checkCollection(from, `${path}.from`, context);
+      validateOperators(rest, path);
+      return true;
+    }
+
+    case "$unionWith": {
+      if (typeof spec === "string") {
+        checkCollection(spec, path, context);
+        return true;
+      }
+
+      const { coll, pipeline, ...rest } = expectObject(spec, path, name);
+      checkCollection(coll, `${path}.coll`, context);
+      if (pipeline !== undefined) {
+        validateSubPipeline(pipeline, `${path}.pipeline`, context);
+      }
+      validateOperators(rest, path);
+      return true;
+    }
+
+    case "$facet": {
+      for (const [facet, pipeline] of Object.entries(
+        expectObject(spec, path, name)
+      )) {
+        validateSubPipeline(pipeline, `${path}.${facet}`, context);
+      }
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
+
+function validateStages(
+  pipeline: unknown[],
+  path: string,
+  context: ValidationContext
+): void {
+  pipeline.forEach((stage, index) => {
+    const stagePath = `${path}[${index}]`;
+
+    if (!isPlainObject(stage) || Object.keys(stage).length !== 1) {
+      reject(stagePath, "each stage must be a document with exactly one stage");
+    }
+
+    const [[name, spec]] = Object.entries(stage);
+    const specPath = `${stagePath}.${name}`;
+
+    if (name in DENIED_STAGES) {
+      reject(
+        specPath,
+        `stage "${name}" is not allowed because ${DENIED_STAGES[name]}`
+      );
+    }
+    if (!ALLOWED_STAGES.has(name)) {
+      reject(
+        specPath,
+        `stage "${name}" is not supported. Allowed stages: ${Array.from(
+          ALLOWED_STAGES
+        ).join(", ")}`
+      );
+    }
+
+    if (!validateJoinStage(name, spec, specPath, context)) {
+      validateOperators(spec, specPath);
+    }
+  });
+}
+
+/**
+ * Validate an aggregation pipeline against the stage and operator
+ * allow-lists, including nested sub-pipelines, and check that the caller
+ * may read every collection it joins in.
+ * Throws a ValidationError or AccessDeniedError naming the failing path.
+ */
+export function validatePipeline(
+  pipeline: Record<string, unknown>[],
+  policy: AccessPolicy
+): void {
+  validateStages(pipeline, "pipeline", { policy });
+}
@@ -0,0 +1,305 @@
+import { z } from "zod";
+import { EJSON } from "bson";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { resolveTarget, targetShape, type Target } from "./dataSources";
+import { ValidationError } from "./security";
+import { assertNotRedacted, getRedactionRules } from "./redaction";
+import { getCollectionSchema } from "./resources";
+import { formatSchema } from "./schema";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  type AccessPolicy,
+  type ToolExtra,
+} from "./access";
+import { withAudit } from "./audit";
+import { withRateLimit } from "./rateLimit";
+import { withTelemetry } from "./telemetry";
+
+/**
+ * Prompts for common investigation workflows. Each one walks the model
+ * through the tools in order and, when the caller may use collection-schema,
+ * includes the collection's field list as live context.
+ */
+
+const collectionArg = z.string().min(1).describe("Collection name");
+
+/**
+ * Resolve the target of a prompt and check the caller may read the
+ * collection.
+ */
+function resolvePromptTarget(
+  args: { collection: string; source?: string; database?: string },
+  extra: ToolExtra
+): { target: Target; policy: AccessPolicy } {
+  const policy = getAccessPolicy(extra, args.collection);
+  assertCollectionsAllowed(policy, [args.collection]);
+
+  return { target: resolveTarget(args, policy), policy };
+}
+
+/**
+ * Sample the collection's schema like a collection-schema call (see
+ * instrument in app/mcp/route.ts): metrics and tracing, the audit log and
+ * the caller's rate limits. Arguments are named like the tool's, so the
+ * audit log describes the call.
+ */
+const loadSchema = withTelemetry(
+  "collection-schema",
+  withAudit(
+    "collection-schema",
+    withRateLimit(
+      "collection-schema",
+      async (
+        args: { source: string; database: string; collection: string },
+        extra: ToolExtra
+      ) => {
+        const { collection, ...target } = args;
+        return getCollectionSchema(
+          target,
+          collection,
+          getAccessPolicy(extra, collection)
+        );
+      }
+    )
+  )
+);
+
+/**
+ * Describe the collection's fields as live context. Returns an empty string
+ * if the caller may not see the schema, is rate limited or it can't be
+ * loaded.
+ */
+async function describeFields(
+  target: Target,
+  collection: string,
+  policy: AccessPolicy,
+  extra: ToolExtra
+): Promise<string> {
+  try {
+    assertToolAllowed(policy, "collection-schema");
+  } catch {
+    return "";
+  }
+
+  try {
+    const result = await loadSchema({ ...target, collection }, extra);
+    if ("isError" in result) {
+      return "";
+    }
+
+    const { sampled, schema } = result;
+
+    if (sampled === 0) {
+      return `\nThe collection "${target.database}.${collection}" appears to be empty.\n`;
+    }
+
+    return `\nFields of "${target.database}.${collection}" (sampled ${sampled} document${
+      sampled === 1 ? "" : "s"
+    }):\n\n${formatSchema(schema)}\n`;
+  } catch (error) {
+    console.error("Loading schema for prompt failed:", error);
+    return "";
+  }
+}
+
+/**
+ * Describe the arguments that select the target, for tool calls.
+ */
+function describeTarget(target: Target, collection: string): string {
+  return `Use "collection": "${collection}", "source": "${target.source}" and "database": "${target.database}" in every tool call.`;
+}
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+/**
+ * Parse a filter argument given as (Extended) JSON text.
+ */
+function parseFilter(filter: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = EJSON.parse(filter, { relaxed: true });
+  } catch {
+    throw new ValidationError("filter must be valid JSON");
+  }
+
+  if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ValidationError("filter must be a JSON object");
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Register the investigation prompts on an MCP server.
+ */
+export function registerPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "explore-collection",
+    {
+      title: "Explore Collection",
+      description:
+        "Get to know a collection: its schema, typical documents and how values are distributed",
+      argsSchema: { collection: collectionArg, ...targetShape },
+    },
+    async (args, extra) => {
+      const { collection } = args;
+      const { target, policy } = resolvePromptTarget(args, extra);
+      const fields = await describeFields(target, collection, policy, extra);
+
+      return userPrompt(
+        `Explore ${target.database}.${collection}`,
+        `Explore the MongoDB collection "${target.database}.${collection}" and summarize what it contains.
+${fields}
+${describeTarget(target, collection)} Work through these steps in order:
+
+1. Call collection-schema to see the fields, their types and how often they are present.
+2. Call find with a limit of 5 to look at a few typical documents.
+3. Call aggregate with $group stages to see how documents are distributed over the most telling categorical fields (statuses, types, owners), and $bucketAuto for key numeric or date fields.
+4. Summarize what a document represents, the important fields, optional or inconsistently typed fields, and anything that looks unusual.`
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "diagnose-slow-query",
+    {
+      title: "Diagnose Slow Query",
+      description:
+        "Find out why a query is slow from its execution plan and suggest indexes",
+      argsSchema: {
+        collection: collectionArg,
+        filter: z
+          .string()
+          .min(1)
+          .describe('Query filter as JSON. Example: {"status": "active"}'),
+        ...targetShape,
+      },
+    },
+    async (args, extra) => {
+      const { collection } = args;
+      const { target, policy } = resolvePromptTarget(args, extra);
+      const filter = parseFilter(args.filter);
+      const fields = await describeFields(target, collection, policy, extra);
+
+      return userPrompt(
+        `Diagnose a slow query on ${target.database}.${collection}`,
+        `Diagnose why this query on the MongoDB collection "${target.database}.${collection}" is slow:
+
+${EJSON.stringify(filter, { relaxed: true }, 2)}
+${fields}
+${describeTarget(target, collection)} Work through these steps in order:
+
+1. Call collection-schema to check the types of the filtered fields match the values in the filter.
+2. Call explain with operation "find" and this filter.
+3. Read the winning plan: look for COLLSCAN stages, in-memory SORT stages, and compare totalDocsExamined and totalKeysExamined to nReturned.
+4. Call count with the filter to see how selective it is.
+5. Recommend indexes (following the equality, sort, range rule) or query changes, and explain the expected effect of each.`
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "summarize-field",
+    {
+      title: "Summarize Field",
+      description:
+        "Describe the values of one field: types, missing values and distribution",
+      argsSchema: {
+        collection: collectionArg,
+        field: z
+          .string()
+          .min(1)
+          .describe("Field path, e.g. status or address.city"),
+        ...targetShape,
+      },
+    },
+    async (args, extra) => {
+      const { collection, field } = args;
+      const { target, policy } = resolvePromptTarget(args, extra);
+      assertNotRedacted([field], getRedactionRules(collection), "a prompt");
+      const fields = await describeFields(target, collection, policy, extra);
+
+      return userPrompt(
+        `Summarize ${target.database}.${collection}.${field}`,
+        `Summarize the values of the field "${field}" in the MongoDB collection "${target.database}.${collection}".
+${fields}
+${describeTarget(target, collection)} Work through these steps in order:
+
+1. Call collection-schema to confirm the field's types and how often it is present.
+2. Call field-stats with field "${field}" for its missing and null rates, most common values, and for numbers and dates its range, percentiles and histogram.
+3. If the field holds arrays, call aggregate with $size on "$${field}" to describe their lengths.
+4. Call find with a limit of 5 and a projection on the field to show example values.
+5. Summarize the type, cardinality, range, most common values and data quality issues.`
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "compare-periods",
+    {
+      title: "Compare Periods",
+      description:
+        "Compare documents in a date range with the preceding period of the same length",
+      argsSchema: {
+        collection: collectionArg,
+        dateField: z
+          .string()
+          .min(1)
+          .describe("Date field to compare on, e.g. createdAt"),
+        from: z
+          .string()
+          .min(1)
+          .describe("Start of the period (ISO 8601), inclusive"),
+        to: z
+          .string()
+          .min(1)
+          .describe("End of the period (ISO 8601), exclusive"),
+        ...targetShape,
+      },
+    },
+    async (args, extra) => {
+      const { collection, dateField } = args;
+      const { target, policy } = resolvePromptTarget(args, extra);
+      assertNotRedacted([dateField], getRedactionRules(collection), "a prompt");
+
+      const from = new Date(args.from);
+      const to = new Date(args.to);
+      if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+        throw new ValidationError("from and to must be ISO 8601 dates");
+      }
+      if (from >= to) {
+        throw new ValidationError("from must be before to");
+      }
+
+      const previousFrom = new Date(
+        from.getTime() - (to.getTime() - from.getTime())
+      );
+      const range = (start: Date, end: Date) =>
+        `{ "${dateField}": { "$gte": { "$date": "${start.toISOString()}" }, "$lt": { "$date": "${end.toISOString()}" } } }`;
+      const fields = await describeFields(target, collection, policy, extra);
+
+      return userPrompt(
+        `Compare ${target.database}.${collection} by ${dateField}`,
+        `Compare the documents of the MongoDB collection "${target.database}.${collection}" with "${dateField}" in the period ${from.toISOString()} to ${to.toISOString()} against the preceding period ${previousFrom.toISOString()} to ${from.toISOString()}.
+${fields}
+${describeTarget(target, collection)} Work through these steps in order:
+
+1. Call collection-schema to confirm "${dateField}" is a Date and pick the numeric and categorical fields worth comparing.
+2. Call count with each period's filter:
+   - current: ${range(from, to)}
+   - previous: ${range(previousFrom, from)}
+3. Call aggregate with a $match on both periods combined, then a $group by period (using $cond on "$${dateField}") that computes totals and averages of the numeric fields, and a second pipeline that groups by the main categorical fields.
+4. If an aggregation is slow, call explain with operation "aggregate" to check an index on "${dateField}" is used.
+5. Report the change between periods in absolute and relative terms and highlight the biggest movers.`
+      );
+    }
+  );
+}
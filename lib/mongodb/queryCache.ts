@@ -0,0 +1,458 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { EJSON } from "bson";
+import type { Collection } from "mongodb";
+import { getClientFor, getDefaultDatabaseName } from "./client";
+import { resolveTarget } from "./dataSources";
+import { runInvocation } from "./invocation";
+import { getConfig } from "./config";
+import { textContent } from "./serializer";
+import { validatePipeline } from "./pipeline";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  matchesGlob,
+  type AccessPolicy,
+  type ToolExtra,
+} from "./access";
+
+/**
+ * Caching of tool results.
+ *
+ * Results are keyed on the caller, the tool, the resolved source and
+ * database, and the arguments, so a cached result is only ever
+ * served to the API key that produced it. Each tool has a TTL (0 turns
+ * caching off), and the QUERY_CACHE_POLICY env var can change it per tool
+ * and per collection, e.g.
+ *   { "tools": { "find": 30 }, "collections": { "countries": 3600,
+ *     "orders_live": false } }
+ * A collection TTL replaces the TTL of every cached tool; false opts the
+ * collection out.
+ *
+ * Entries live in the store named by QUERY_CACHE_STORE: "memory" (default,
+ * per serverless instance) or "mongodb" (shared across instances, stored in
+ * QUERY_CACHE_COLLECTION of QUERY_CACHE_DB via QUERY_CACHE_MONGODB_URI,
+ * which is required).
+ */
+
+/** TTLs in seconds of the tools cached without any configuration */
+const DEFAULT_TOOL_TTL_SECONDS: Record<string, number> = {
+  "collection-schema": 300,
+  "collection-stats": 60,
+  count: 60,
+  "field-stats": 60,
+};
+
+/** Entries kept by the memory store */
+const MAX_MEMORY_ENTRIES = 500;
+
+const cachePolicySchema = z
+  .object({
+    tools: z.record(z.string().min(1), z.number().int().min(0)).optional(),
+    collections: z
+      .record(
+        z.string().min(1),
+        z.union([z.number().int().min(0), z.literal(false)])
+      )
+      .optional(),
+  })
+  .strict();
+
+type CachePolicy = z.infer<typeof cachePolicySchema>;
+
+/**
+ * Tool argument to bypass the cache.
+ */
+export const cacheShape = {
+  noCache: z
+    .boolean()
+    .optional()
+    .describe(
+      "Skip the result cache and run the query again. Cached results say how old they are"
+    ),
+};
+
+export interface CacheEntry {
+  /** The tool result, as JSON */
+  result: string;
+  documentsReturned?: number;
+  storedAt: number;
+}
+
+/**
+ * Storage for cached tool results.
+ */
+export interface QueryCacheStore {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry, ttlMs: number): Promise<void>;
+}
+
+/**
+ * Create a store that keeps results in this process only. The oldest
+ * entries are dropped once it is full.
+ */
+export function createMemoryQueryCacheStore(): QueryCacheStore {
+  const entries = new Map<string, CacheEntry & { expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+
+      if (!entry || entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+
+      return entry;
+    },
+
+    async set(key, entry, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { ...entry, expiresAt: Date.now() + ttlMs });
+
+      while (entries.size > MAX_MEMORY_ENTRIES) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+interface CacheDocument extends CacheEntry {
+  _id: string;
+  expiresAt: Date;
+}
+
+let cacheCollection: Promise<Collection<CacheDocument>> | null = null;
+
+async function openCacheCollection(
+  uri: string
+): Promise<Collection<CacheDocument>> {
+  const client = await getClientFor(uri);
+  const dbName = process.env.QUERY_CACHE_DB || getDefaultDatabaseName();
+
+  if (!dbName) {
+    throw new Error(
+      "QUERY_CACHE_DB environment variable is not set and the default data source has no default database"
+    );
+  }
+
+  const collection = client
+    .db(dbName)
+    .collection<CacheDocument>(
+      process.env.QUERY_CACHE_COLLECTION || "mcp_query_cache"
+    );
+
+  // Without the privilege to create the TTL index, the cache still works
+  // but expired entries pile up
+  await collection
+    .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+    .catch((error) =>
+      console.error(
+        "Creating the query cache TTL index failed; create { expiresAt: 1 } with expireAfterSeconds: 0 manually:",
+        error
+      )
+    );
+
+  return collection;
+}
+
+function getCacheCollection(uri: string): Promise<Collection<CacheDocument>> {
+  if (!cacheCollection) {
+    cacheCollection = openCacheCollection(uri);
+    // Retry on the next call if connecting failed
+    cacheCollection.catch(() => {
+      cacheCollection = null;
+    });
+  }
+  return cacheCollection;
+}
+
+/**
+ * Create a store that keeps results in a MongoDB collection, so they are
+ * shared across serverless instances. Entries carry an expiresAt date, and
+ * the store creates a TTL index on it; expired entries are ignored until
+ * the index removes them.
+ */
+export function createMongoQueryCacheStore(
+  uri = process.env.QUERY_CACHE_MONGODB_URI
+): QueryCacheStore {
+  // The main connection is expected to be read-only
+  if (!uri) {
+    throw new Error(
+      "QUERY_CACHE_MONGODB_URI environment variable is not set (required when QUERY_CACHE_STORE is mongodb)"
+    );
+  }
+
+  return {
+    async get(key) {
+      const collection = await getCacheCollection(uri);
+      const entry = await collection.findOne({
+        _id: key,
+        expiresAt: { $gt: new Date() },
+      });
+
+      return entry
+        ? {
+            result: entry.result,
+            documentsReturned: entry.documentsReturned,
+            storedAt: entry.storedAt,
+          }
+        : null;
+    },
+
+    async set(key, entry, ttlMs) {
+      const collection = await getCacheCollection(uri);
+
+      await collection.replaceOne(
+        { _id: key },
+        { ...entry, expiresAt: new Date(Date.now() + ttlMs) },
+        { upsert: true }
+      );
+    },
+  };
+}
+
+let store: QueryCacheStore | null = null;
+
+/**
+ * Get the configured cache store.
+ */
+function getQueryCacheStore(): QueryCacheStore {
+  if (store) {
+    return store;
+  }
+
+  const kind = process.env.QUERY_CACHE_STORE || "memory";
+
+  if (kind === "memory") {
+    store = createMemoryQueryCacheStore();
+  } else if (kind === "mongodb") {
+    store = createMongoQueryCacheStore();
+  } else {
+    throw new Error(
+      `Unknown QUERY_CACHE_STORE "${kind}" (expected memory or mongodb)`
+    );
+  }
+
+  return store;
+}
+
+/**
+ * Replace the cache store, e.g. with a custom backend.
+ */
+export function setQueryCacheStore(cacheStore: QueryCacheStore): void {
+  store = cacheStore;
+}
+
+let cachePolicy: CachePolicy | null = null;
+
+/**
+ * Load and validate the cache policy from the environment.
+ */
+function getCachePolicy(): CachePolicy {
+  if (cachePolicy) {
+    return cachePolicy;
+  }
+
+  const rawPolicy = process.env.QUERY_CACHE_POLICY;
+
+  if (!rawPolicy) {
+    cachePolicy = {};
+    return cachePolicy;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawPolicy);
+  } catch {
+    throw new Error(
+      "QUERY_CACHE_POLICY environment variable is not valid JSON"
+    );
+  }
+
+  const result = cachePolicySchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(
+      `QUERY_CACHE_POLICY environment variable is invalid at "${issue.path.join(".")}": ${issue.message}`
+    );
+  }
+
+  cachePolicy = result.data;
+  return cachePolicy;
+}
+
+/**
+ * Get how long results of a tool on a collection are cached, in seconds.
+ * An exact collection name takes precedence over patterns.
+ */
+export function getCacheTtlSeconds(tool: string, collection?: string): number {
+  if (!getConfig().features.queryCache) {
+    return 0;
+  }
+
+  const { tools = {}, collections = {} } = getCachePolicy();
+  const toolTtl = tools[tool] ?? DEFAULT_TOOL_TTL_SECONDS[tool] ?? 0;
+
+  if (toolTtl === 0 || collection === undefined) {
+    return toolTtl;
+  }
+
+  const collectionTtl = Object.prototype.hasOwnProperty.call(
+    collections,
+    collection
+  )
+    ? collections[collection]
+    : Object.entries(collections).find(([pattern]) =>
+        matchesGlob(collection, pattern)
+      )?.[1];
+
+  if (collectionTtl === undefined) {
+    return toolTtl;
+  }
+
+  return collectionTtl === false ? 0 : collectionTtl;
+}
+
+function getCacheKey(
+  policy: AccessPolicy,
+  tool: string,
+  args: Record<string, unknown>
+): string {
+  // Arguments already have their defaults; the target is resolved too so
+  // defaults and explicit values share entries, and checked so a key that
+  // lost the database isn't served results cached while it had it. Key
+  // order is kept, since it matters in sorts and pipelines.
+  const { source, database } = resolveTarget(args, policy);
+  const caller = policy.name;
+  const rest = { ...args };
+  delete rest.noCache;
+  delete rest.source;
+  delete rest.database;
+
+  return createHash("sha256")
+    .update(
+      EJSON.stringify(
+        { caller, tool, source, database, args: rest },
+        { relaxed: false }
+      )
+    )
+    .digest("base64url");
+}
+
+function describeAge(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+interface ToolResult {
+  content?: unknown[];
+  isError?: boolean;
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * Serve a tool from the result cache when it has a fresh result for the
+ * same caller and arguments, and cache successful results otherwise. The
+ * caller's access to the tool and collections is checked first.
+ * Cache failures are logged and the tool runs normally.
+ */
+export function withCache<Args, Result>(
+  tool: string,
+  handler: (args: Args, extra: ToolExtra) => Promise<Result>
+) {
+  return (args: Args, extra: ToolExtra): Promise<Result> =>
+    runInvocation(tool, async (invocation) => {
+      const toolArgs = args as Record<string, unknown>;
+      const collection =
+        typeof toolArgs.collection === "string"
+          ? toolArgs.collection
+          : undefined;
+      const ttlSeconds = getCacheTtlSeconds(tool, collection);
+
+      if (ttlSeconds === 0) {
+        return handler(args, extra);
+      }
+
+      let policy: AccessPolicy;
+      let key: string;
+      try {
+        policy = getAccessPolicy(extra, collection);
+        key = getCacheKey(policy, tool, toolArgs);
+      } catch {
+        // Let the tool report the bad target or missing authentication
+        return handler(args, extra);
+      }
+
+      // Check access before the lookup, so a key that lost the tool or a
+      // collection isn't served results cached while it had them
+      assertToolAllowed(policy, tool);
+      if (collection !== undefined) {
+        assertCollectionsAllowed(policy, [collection]);
+      }
+      if (Array.isArray(toolArgs.pipeline)) {
+        validatePipeline(toolArgs.pipeline, policy);
+      }
+
+      // A misconfigured store fails the call; only an unavailable one
+      // runs it uncached
+      const cacheStore = getQueryCacheStore();
+
+      if (!toolArgs.noCache) {
+        try {
+          const entry = await cacheStore.get(key);
+
+          if (entry) {
+            const result = JSON.parse(entry.result) as ToolResult;
+            const age = Date.now() - entry.storedAt;
+            invocation.documentsReturned = entry.documentsReturned;
+
+            return {
+              ...result,
+              content: [
+                ...(result.content ?? []),
+                textContent(
+                  `Cached result from ${describeAge(age)} ago. Pass noCache: true for fresh results.`
+                ),
+              ],
+              _meta: {
+                ...result._meta,
+                cache: { hit: true, ageSeconds: Math.floor(age / 1000) },
+              },
+            } as Result;
+          }
+        } catch (error) {
+          console.error("Reading the query cache failed:", error);
+        }
+      }
+
+      const result = await handler(args, extra);
+
+      if (!(result as ToolResult).isError) {
+        try {
+          await cacheStore.set(
+            key,
+            {
+              result: JSON.stringify(result),
+              documentsReturned: invocation.documentsReturned,
+              storedAt: Date.now(),
+            },
+            ttlSeconds * 1000
+          );
+        } catch (error) {
+          console.error("Writing the query cache failed:", error);
+        }
+      }
+
+      return result;
+    });
+}
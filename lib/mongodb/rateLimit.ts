@@ -0,0 +1,502 @@
+import type { Collection } from "mongodb";
+import { getClientFor, getDefaultDatabaseName } from "./client";
+import { getAccessPolicy, type AccessPolicy, type ToolExtra } from "./access";
+import { runInvocation } from "./invocation";
+import { textContent } from "./serializer";
+
+/**
+ * Per-key rate limits and daily quotas.
+ *
+ * Each API key has a token bucket for all its calls (60 per minute unless
+ * its "rateLimit" says otherwise) and optional buckets per tool. Its "quota"
+ * caps documents returned and execution time per UTC day.
+ *
+ * State lives in the store named by RATE_LIMIT_STORE: "memory" (default,
+ * per serverless instance) or "mongodb" (shared across instances, stored in
+ * RATE_LIMIT_COLLECTION of RATE_LIMIT_DB via RATE_LIMIT_MONGODB_URI, which
+ * is required).
+ */
+
+export const DEFAULT_RATE_LIMIT = { requestsPerMinute: 60 } as const;
+
+export interface BucketResult {
+  allowed: boolean;
+  /** Time until a token is available, 0 when allowed */
+  retryAfterMs: number;
+}
+
+export interface Usage {
+  documents: number;
+  executionMs: number;
+}
+
+/**
+ * Storage for rate limit buckets and usage counters.
+ */
+export interface QuotaStore {
+  /** Take one token from a bucket, refilling it for the time elapsed */
+  takeToken(
+    key: string,
+    capacity: number,
+    refillPerMs: number
+  ): Promise<BucketResult>;
+  getUsage(key: string): Promise<Usage>;
+  addUsage(key: string, usage: Usage): Promise<void>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Create a store that keeps state in this process only.
+ */
+export function createMemoryQuotaStore(): QuotaStore {
+  const buckets = new Map<string, Bucket>();
+  const usages = new Map<string, Usage>();
+
+  return {
+    async takeToken(key, capacity, refillPerMs) {
+      const now = Date.now();
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+
+      bucket.tokens = Math.min(
+        capacity,
+        bucket.tokens + (now - bucket.updatedAt) * refillPerMs
+      );
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+
+      if (bucket.tokens < 1) {
+        return {
+          allowed: false,
+          retryAfterMs: (1 - bucket.tokens) / refillPerMs,
+        };
+      }
+
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    },
+
+    async getUsage(key) {
+      return usages.get(key) ?? { documents: 0, executionMs: 0 };
+    },
+
+    async addUsage(key, usage) {
+      const current = usages.get(key) ?? { documents: 0, executionMs: 0 };
+      usages.set(key, {
+        documents: current.documents + usage.documents,
+        executionMs: current.executionMs + usage.executionMs,
+      });
+    },
+  };
+}
+
+interface QuotaDocument {
+  _id: string;
+  tokens?: number;
+  updatedAt?: number;
+  allowed?: boolean;
+  documents?: number;
+  executionMs?: number;
+  expiresAt?: Date;
+}
+
+/** Idle buckets and old usage counters are removed after this long */
+const STATE_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+
+let quotaCollection: Promise<Collection<QuotaDocument>> | null = null;
+
+async function openQuotaCollection(
+  uri: string
+): Promise<Collection<QuotaDocument>> {
+  const client = await getClientFor(uri);
+  const dbName = process.env.RATE_LIMIT_DB || getDefaultDatabaseName();
+
+  if (!dbName) {
+    throw new Error(
+      "RATE_LIMIT_DB environment variable is not set and the default data source has no default database"
+    );
+  }
+
+  const collection = client
+    .db(dbName)
+    .collection<QuotaDocument>(
+      process.env.RATE_LIMIT_COLLECTION || "mcp_rate_limits"
+    );
+
+  // Documents carry expiresAt; the TTL index removes them once it passes.
+  // Without the privilege to create it, limits still work
+  await collection
+    .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+    .catch((error) =>
+      console.error(
+        "Creating the rate limit TTL index failed; create { expiresAt: 1 } with expireAfterSeconds: 0 manually:",
+        error
+      )
+    );
+
+  return collection;
+}
+
+function getQuotaCollection(uri: string): Promise<Collection<QuotaDocument>> {
+  if (!quotaCollection) {
+    quotaCollection = openQuotaCollection(uri);
+    // Retry on the next call if connecting failed
+    quotaCollection.catch(() => {
+      quotaCollection = null;
+    });
+  }
+  return quotaCollection;
+}
+
+/**
+ * Create a store that keeps state in a MongoDB collection, so limits hold
+ * across serverless instances. Buckets are updated atomically with a
+ * pipeline update. Documents carry an expiresAt date, and the store
+ * creates a TTL index on it so idle state is removed.
+ */
+export function createMongoQuotaStore(
+  uri = process.env.RATE_LIMIT_MONGODB_URI
+): QuotaStore {
+  // The main connection is expected to be read-only
+  if (!uri) {
+    throw new Error(
+      "RATE_LIMIT_MONGODB_URI environment variable is not set (required when RATE_LIMIT_STORE is mongodb)"
+    );
+  }
+
+  return {
+    async takeToken(key, capacity, refillPerMs) {
+      const collection = await getQuotaCollection(uri);
+      const now = Date.now();
+
+      const bucket = await collection.findOneAndUpdate(
+        { _id: `bucket:${key}` },
+        [
+          {
+            $set: {
+              tokens: {
+                $min: [
+                  capacity,
+                  {
+                    $add: [
+                      { $ifNull: ["$tokens", capacity] },
+                      {
+                        $multiply: [
+                          {
+                            $subtract: [now, { $ifNull: ["$updatedAt", now] }],
+                          },
+                          refillPerMs,
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+              updatedAt: now,
+              expiresAt: new Date(now + STATE_TTL_MS),
+            },
+          },
+          { $set: { allowed: { $gte: ["$tokens", 1] } } },
+          {
+            $set: {
+              tokens: {
+                $cond: ["$allowed", { $subtract: ["$tokens", 1] }, "$tokens"],
+              },
+            },
+          },
+        ],
+        { upsert: true, returnDocument: "after" }
+      );
+
+      if (!bucket || bucket.allowed) {
+        return { allowed: true, retryAfterMs: 0 };
+      }
+
+      return {
+        allowed: false,
+        retryAfterMs: (1 - (bucket.tokens ?? 0)) / refillPerMs,
+      };
+    },
+
+    async getUsage(key) {
+      const collection = await getQuotaCollection(uri);
+      const usage = await collection.findOne({ _id: `usage:${key}` });
+
+      return {
+        documents: usage?.documents ?? 0,
+        executionMs: usage?.executionMs ?? 0,
+      };
+    },
+
+    async addUsage(key, usage) {
+      const collection = await getQuotaCollection(uri);
+
+      await collection.updateOne(
+        { _id: `usage:${key}` },
+        {
+          $inc: { documents: usage.documents, executionMs: usage.executionMs },
+          $setOnInsert: {
+            expiresAt: new Date(Date.now() + STATE_TTL_MS),
+          },
+        },
+        { upsert: true }
+      );
+    },
+  };
+}
+
+let store: QuotaStore | null = null;
+
+/**
+ * Get the configured quota store.
+ */
+function getQuotaStore(): QuotaStore {
+  if (store) {
+    return store;
+  }
+
+  const kind = process.env.RATE_LIMIT_STORE || "memory";
+
+  if (kind === "memory") {
+    store = createMemoryQuotaStore();
+  } else if (kind === "mongodb") {
+    store = createMongoQuotaStore();
+  } else {
+    throw new Error(
+      `Unknown RATE_LIMIT_STORE "${kind}" (expected memory or mongodb)`
+    );
+  }
+
+  return store;
+}
+
+/**
+ * Replace the quota store, e.g. with a custom backend.
+ */
+export function setQuotaStore(quotaStore: QuotaStore): void {
+  store = quotaStore;
+}
+
+interface Rejection {
+  error: "rate_limited" | "quota_exceeded";
+  message: string;
+  retryAfterSeconds: number;
+}
+
+function toRetrySeconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+function msUntilNextUtcDay(now: Date): number {
+  const next = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate() + 1
+  );
+  return next - now.getTime();
+}
+
+/**
+ * Take a token from a bucket configured as requests per minute.
+ */
+async function takeFromBucket(
+  key: string,
+  config: { requestsPerMinute: number; burst?: number }
+): Promise<BucketResult> {
+  const capacity =
+    config.burst ?? Math.max(1, Math.ceil(config.requestsPerMinute));
+  return getQuotaStore().takeToken(
+    key,
+    capacity,
+    config.requestsPerMinute / 60_000
+  );
+}
+
+/**
+ * Check the caller's rate limits and quotas for a tool call.
+ * Returns the rejection if the call must not run.
+ */
+async function checkLimits(
+  policy: AccessPolicy,
+  tool: string
+): Promise<Rejection | null> {
+  const rateLimit = policy.rateLimit ?? DEFAULT_RATE_LIMIT;
+
+  const keyBucket = await takeFromBucket(policy.name, rateLimit);
+  if (!keyBucket.allowed) {
+    return {
+      error: "rate_limited",
+      message: `Rate limit exceeded: API key "${policy.name}" may make ${rateLimit.requestsPerMinute} calls per minute`,
+      retryAfterSeconds: toRetrySeconds(keyBucket.retryAfterMs),
+    };
+  }
+
+  const toolLimit = policy.rateLimit?.tools?.[tool];
+  if (toolLimit) {
+    const toolBucket = await takeFromBucket(
+      `${policy.name}:${tool}`,
+      toolLimit
+    );
+    if (!toolBucket.allowed) {
+      return {
+        error: "rate_limited",
+        message: `Rate limit exceeded: API key "${policy.name}" may call "${tool}" ${toolLimit.requestsPerMinute} times per minute`,
+        retryAfterSeconds: toRetrySeconds(toolBucket.retryAfterMs),
+      };
+    }
+  }
+
+  const { quota } = policy;
+  if (quota) {
+    const now = new Date();
+    const usage = await getQuotaStore().getUsage(getUsageKey(policy, now));
+    const retryAfterSeconds = toRetrySeconds(msUntilNextUtcDay(now));
+
+    if (quota.documentsPerDay && usage.documents >= quota.documentsPerDay) {
+      return {
+        error: "quota_exceeded",
+        message: `Daily quota exceeded: API key "${policy.name}" may fetch ${quota.documentsPerDay} documents per day`,
+        retryAfterSeconds,
+      };
+    }
+
+    if (
+      quota.executionSecondsPerDay &&
+      usage.executionMs >= quota.executionSecondsPerDay * 1000
+    ) {
+      return {
+        error: "quota_exceeded",
+        message: `Daily quota exceeded: API key "${policy.name}" may use ${quota.executionSecondsPerDay} seconds of query time per day`,
+        retryAfterSeconds,
+      };
+    }
+  }
+
+  return null;
+}
+
+function getUsageKey(policy: AccessPolicy, now: Date): string {
+  return `${policy.name}:${now.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Error thrown when work done outside a tool call is over the caller's
+ * rate limits or quotas.
+ */
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * Check the caller's rate limits and quotas for work done outside a tool
+ * call, such as an export download, under the given operation name.
+ * Throws a RateLimitError if it must not run. Returns the documents left
+ * in the caller's daily quota (Infinity without one). If the store is
+ * unavailable, the work is let through and the error logged.
+ */
+export async function checkOperationLimits(
+  policy: AccessPolicy,
+  operation: string
+): Promise<number> {
+  // A misconfigured store fails the operation, as it fails tool calls
+  const quotaStore = getQuotaStore();
+
+  try {
+    const rejection = await checkLimits(policy, operation);
+    if (rejection) {
+      throw new RateLimitError(
+        `${rejection.message}. Retry after ${rejection.retryAfterSeconds} seconds.`,
+        rejection.retryAfterSeconds
+      );
+    }
+
+    const documentsPerDay = policy.quota?.documentsPerDay;
+    if (!documentsPerDay) {
+      return Infinity;
+    }
+    const usage = await quotaStore.getUsage(getUsageKey(policy, new Date()));
+    return Math.max(0, documentsPerDay - usage.documents);
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      throw error;
+    }
+    console.error("Rate limit check failed:", error);
+    return Infinity;
+  }
+}
+
+/**
+ * Charge work that started at `startedAt` to the caller's daily quota.
+ * Failures are logged, never thrown.
+ */
+export async function recordUsage(
+  policy: AccessPolicy,
+  startedAt: number,
+  usage: Usage
+): Promise<void> {
+  if (!policy.quota) {
+    return;
+  }
+
+  await getQuotaStore()
+    .addUsage(getUsageKey(policy, new Date(startedAt)), usage)
+    .catch((error) => console.error("Recording usage failed:", error));
+}
+
+/**
+ * Wrap a tool handler with the caller's rate limits and quotas.
+ * Rejected calls return a tool error with a retry-after hint in `_meta`.
+ * If the store is unavailable, calls are let through and the error logged.
+ */
+export function withRateLimit<Args, Result>(
+  tool: string,
+  handler: (args: Args, extra: ToolExtra) => Promise<Result>
+) {
+  return (args: Args, extra: ToolExtra) =>
+    runInvocation(tool, async (invocation) => {
+      const policy = getAccessPolicy(extra);
+      // A misconfigured store fails the call; only an unavailable one
+      // lets it through
+      getQuotaStore();
+
+      let rejection: Rejection | null = null;
+      try {
+        rejection = await checkLimits(policy, tool);
+      } catch (error) {
+        console.error("Rate limit check failed:", error);
+      }
+
+      if (rejection) {
+        const message = `${rejection.message}. Retry after ${rejection.retryAfterSeconds} seconds.`;
+        invocation.rejection = message;
+
+        return {
+          isError: true,
+          content: [textContent(message)],
+          _meta: {
+            error: rejection.error,
+            retryAfterSeconds: rejection.retryAfterSeconds,
+          },
+        };
+      }
+
+      const startedAt = Date.now();
+      try {
+        return await handler(args, extra);
+      } finally {
+        await recordUsage(policy, startedAt, {
+          documents: invocation.documentsReturned ?? 0,
+          executionMs: Date.now() - startedAt,
+        });
+      }
+    });
+}
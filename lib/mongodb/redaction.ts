@@ -0,0 +1,557 @@
+import { createHmac } from "node:crypto";
+import { z } from "zod";
+import { EJSON, type Document } from "bson";
+import { matchesGlob } from "./access";
+import { ValidationError } from "./security";
+
+/**
+ * Field-level redaction of query results.
+ *
+ * The policy is configured through the REDACTION_POLICY env var as a JSON
+ * object mapping collection name patterns to field rules, e.g.
+ *   { "users": { "email": "mask", "auth.token": "drop" },
+ *     "*": { "password": "drop", "addresses.phone": "hash" } }
+ * Field paths are dotted; arrays along the path are traversed, so
+ * "addresses.phone" applies to every element of an addresses array.
+ *
+ * Modes:
+ * - drop: remove the field
+ * - hash: replace the value with a keyed hash (stable, so equal values
+ *   match), keyed with REDACTION_SECRET, which hash rules require
+ * - mask: keep a hint of the value, e.g. "j***@x.com"
+ * - type: replace the value with its type name
+ */
+
+const redactionModeSchema = z.enum(["drop", "hash", "mask", "type"]);
+
+const redactionPolicySchema = z.record(
+  z.string().min(1),
+  z.record(z.string().min(1), redactionModeSchema)
+);
+
+export type RedactionMode = z.infer<typeof redactionModeSchema>;
+
+/** Redaction mode by field path */
+export type RedactionRules = Record<string, RedactionMode>;
+
+type RedactionPolicy = z.infer<typeof redactionPolicySchema>;
+
+let policy: RedactionPolicy | null = null;
+
+/**
+ * Load and validate the redaction policy from the environment.
+ */
+function getRedactionPolicy(): RedactionPolicy {
+  if (policy) {
+    return policy;
+  }
+
+  const rawPolicy = process.env.REDACTION_POLICY;
+
+  if (!rawPolicy) {
+    policy = {};
+    return policy;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawPolicy);
+  } catch {
+    throw new Error("REDACTION_POLICY environment variable is not valid JSON");
+  }
+
+  const result = redactionPolicySchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(
+      `REDACTION_POLICY environment variable is invalid at "${issue.path.join(".")}": ${issue.message}`
+    );
+  }
+
+  const usesHash = Object.values(result.data).some((fields) =>
+    Object.values(fields).includes("hash")
+  );
+  if (usesHash) {
+    getHashSecret();
+  }
+
+  policy = result.data;
+  return policy;
+}
+
+/**
+ * Get the redaction rules for a collection.
+ * Rules from every matching collection pattern are combined.
+ */
+export function getRedactionRules(collection: string): RedactionRules {
+  const rules: RedactionRules = {};
+
+  for (const [pattern, fields] of Object.entries(getRedactionPolicy())) {
+    if (matchesGlob(collection, pattern)) {
+      Object.assign(rules, fields);
+    }
+  }
+
+  return rules;
+}
+
+function getHashSecret(): string {
+  const secret = process.env.REDACTION_SECRET;
+
+  if (!secret) {
+    throw new Error(
+      "REDACTION_SECRET environment variable is not set (required when REDACTION_POLICY has hash rules)"
+    );
+  }
+
+  return secret;
+}
+
+/**
+ * Get a short type name for a value, e.g. "String" or "ObjectId".
+ */
+function getTypeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "Array";
+  if (value instanceof Date) return "Date";
+
+  if (typeof value === "object") {
+    const bsonType = (value as { _bsontype?: string })._bsontype;
+    return bsonType ?? "Object";
+  }
+
+  if (typeof value === "string") return "String";
+  if (typeof value === "number") return "Number";
+  if (typeof value === "boolean") return "Boolean";
+
+  return typeof value;
+}
+
+function hashValue(value: unknown): string {
+  // Promote BSON numbers first, so values hash alike whether or not they
+  // were read with promoteValues
+  const promoted = EJSON.deserialize(EJSON.serialize({ v: value }));
+  const digest = createHmac("sha256", getHashSecret())
+    .update(EJSON.stringify(promoted, { relaxed: false }))
+    .digest("hex");
+
+  return `hash:${digest.slice(0, 16)}`;
+}
+
+function maskValue(value: unknown): string {
+  if (typeof value !== "string") {
+    return "***";
+  }
+
+  const at = value.lastIndexOf("@");
+  if (at > 0) {
+    return `${value[0]}***${value.slice(at)}`;
+  }
+
+  return value.length >= 6
+    ? `${value[0]}***${value.slice(-2)}`
+    : `${value[0] ?? ""}***`;
+}
+
+function redactValue(value: unknown, mode: RedactionMode): unknown {
+  if (mode === "type") {
+    return `[redacted ${getTypeName(value)}]`;
+  }
+
+  const transform = mode === "hash" ? hashValue : maskValue;
+  return Array.isArray(value) ? value.map(transform) : transform(value);
+}
+
+/**
+ * Apply one rule to a document (or array of documents) in place.
+ */
+function applyRule(target: unknown, parts: string[], mode: RedactionMode) {
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      applyRule(item, parts, mode);
+    }
+    return;
+  }
+
+  if (target === null || typeof target !== "object") {
+    return;
+  }
+
+  const doc = target as Document;
+  const [key, ...rest] = parts;
+
+  if (!(key in doc)) {
+    return;
+  }
+
+  if (rest.length > 0) {
+    applyRule(doc[key], rest, mode);
+  } else if (mode === "drop") {
+    delete doc[key];
+  } else {
+    doc[key] = redactValue(doc[key], mode);
+  }
+}
+
+/**
+ * Redact documents in place according to the given rules.
+ */
+export function redactDocuments(
+  documents: Document[],
+  rules: RedactionRules
+): Document[] {
+  const entries = Object.entries(rules);
+
+  if (entries.length > 0) {
+    for (const doc of documents) {
+      for (const [path, mode] of entries) {
+        applyRule(doc, path.split("."), mode);
+      }
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * Keep only the rules that hide a field entirely.
+ * Used where values are never shown, such as schema inference.
+ */
+export function getDroppedFieldRules(rules: RedactionRules): RedactionRules {
+  return Object.fromEntries(
+    Object.entries(rules).filter(([, mode]) => mode === "drop")
+  );
+}
+
+/**
+ * Check if two field paths overlap (equal, or one contains the other).
+ */
+function pathsOverlap(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+}
+
+/**
+ * Check if a field path touches a redacted field.
+ */
+export function isRedacted(path: string, rules: RedactionRules): boolean {
+  return Object.keys(rules).some((field) => pathsOverlap(path, field));
+}
+
+/**
+ * Ensure none of the given field paths touch a redacted field.
+ * Throws an error naming the offending field otherwise.
+ */
+export function assertNotRedacted(
+  paths: string[],
+  rules: RedactionRules,
+  usage: string
+): void {
+  for (const path of paths) {
+    const redacted = Object.keys(rules).find((field) =>
+      pathsOverlap(path, field)
+    );
+
+    if (redacted) {
+      throw new ValidationError(
+        `Field "${path}" cannot be used in ${usage} because "${redacted}" is redacted`
+      );
+    }
+  }
+}
+
+/**
+ * Ensure a query filter doesn't match on redacted fields. Counts and
+ * results would otherwise reveal their values one guess at a time.
+ */
+export function assertFilterNotRedacted(
+  filter: Record<string, unknown>,
+  rules: RedactionRules
+): void {
+  if (Object.keys(rules).length === 0) {
+    return;
+  }
+
+  const paths: string[] = [];
+  collectQueryPaths(filter, "", paths);
+
+  if (paths.includes("")) {
+    throw new ValidationError(
+      "Filter cannot use $text, $where, $$ROOT, $$CURRENT or a computed field name on a collection with redacted fields"
+    );
+  }
+
+  assertNotRedacted(paths, rules, "a filter");
+}
+
+/**
+ * Collect field paths named as keys of a query, e.g. { "a.b": 1 } -> a.b,
+ * and those read by its $expr. $text and $where read fields that can't be
+ * told from the query, reported as "".
+ */
+function collectQueryPaths(query: unknown, prefix: string, paths: string[]) {
+  if (query === null || typeof query !== "object" || Array.isArray(query)) {
+    return;
+  }
+
+  for (const [key, value] of Object.entries(query)) {
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      if (Array.isArray(value)) {
+        value.forEach((clause) => collectQueryPaths(clause, prefix, paths));
+      }
+    } else if (key === "$elemMatch") {
+      collectQueryPaths(value, prefix, paths);
+    } else if (key === "$expr") {
+      collectExpressionPaths(value, paths);
+    } else if (key === "$text" || key === "$where") {
+      paths.push("");
+    } else if (!key.startsWith("$")) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      paths.push(path);
+
+      // Operators like $elemMatch and $not apply to the field itself
+      if (value !== null && typeof value === "object") {
+        for (const [operator, operand] of Object.entries(value)) {
+          if (operator === "$elemMatch" || operator === "$not") {
+            collectQueryPaths(operand, path, paths);
+          }
+        }
+      }
+    }
+  }
+}
+
+/** Operators naming a field of their input, the current document by default */
+const FIELD_OPERATORS = ["$getField", "$setField", "$unsetField"];
+
+/**
+ * Get the field an operator like $getField reads from the current
+ * document, e.g. { $getField: "email" } -> email. Returns "" when the
+ * field isn't a constant, and null when the operator reads another input.
+ */
+function getFieldOperatorPath(spec: unknown): string | null {
+  const { field, input } =
+    spec !== null && typeof spec === "object" && !Array.isArray(spec)
+      ? (spec as Record<string, unknown>)
+      : { field: spec, input: undefined };
+
+  if (input !== undefined && input !== "$$ROOT" && input !== "$$CURRENT") {
+    return null;
+  }
+
+  const literal =
+    field !== null && typeof field === "object" && "$literal" in field
+      ? (field as Record<string, unknown>).$literal
+      : field;
+  return typeof literal === "string" ? literal : "";
+}
+
+/**
+ * Collect field paths referenced by aggregation expressions ("$field", or
+ * the field of $getField and similar on the current document).
+ * $$ROOT and $$CURRENT refer to the whole document, reported as "".
+ */
+function collectExpressionPaths(expression: unknown, paths: string[]) {
+  if (typeof expression === "string") {
+    if (expression === "$$ROOT" || expression === "$$CURRENT") {
+      paths.push("");
+    } else if (/^\$\$(ROOT|CURRENT)\./.test(expression)) {
+      paths.push(expression.slice(expression.indexOf(".") + 1));
+    } else if (expression.startsWith("$") && !expression.startsWith("$$")) {
+      paths.push(expression.slice(1));
+    }
+    return;
+  }
+
+  if (expression === null || typeof expression !== "object") {
+    return;
+  }
+
+  for (const [key, value] of Object.entries(expression)) {
+    if (FIELD_OPERATORS.includes(key)) {
+      const path = getFieldOperatorPath(value);
+      if (path !== null) {
+        paths.push(path);
+      }
+    }
+    collectExpressionPaths(value, paths);
+  }
+}
+
+/**
+ * Collect every field path an aggregation pipeline reads or computes over.
+ */
+function collectPipelinePaths(
+  pipeline: Record<string, unknown>[],
+  paths: string[]
+) {
+  for (const stage of pipeline) {
+    for (const [name, spec] of Object.entries(stage)) {
+      // $unwind keeps values at their path, so output redaction covers it
+      if (name === "$unwind") {
+        continue;
+      }
+
+      if (name === "$facet" && spec && typeof spec === "object") {
+        for (const subPipeline of Object.values(spec)) {
+          if (Array.isArray(subPipeline)) {
+            collectPipelinePaths(subPipeline, paths);
+          }
+        }
+        continue;
+      }
+
+      if (name === "$unionWith" && spec && typeof spec === "object") {
+        const { pipeline: subPipeline } = spec as Record<string, unknown>;
+        if (Array.isArray(subPipeline)) {
+          collectPipelinePaths(subPipeline, paths);
+        }
+        continue;
+      }
+
+      // Paths in a $lookup sub-pipeline are on the joined collection
+      if (name === "$lookup" && spec && typeof spec === "object") {
+        const { pipeline: subPipeline } = spec as Record<string, unknown>;
+        if (Array.isArray(subPipeline)) {
+          collectPipelinePaths(subPipeline, paths);
+        }
+      }
+
+      // Query values are literals, e.g. { note: "$email" } matches that
+      // text; collectQueryPaths reads the expressions of $expr itself
+      if (name === "$match") {
+        collectQueryPaths(spec, "", paths);
+        continue;
+      }
+
+      if (name === "$sort" && spec && typeof spec === "object") {
+        paths.push(...Object.keys(spec));
+      }
+
+      if (
+        (name === "$lookup" || name === "$graphLookup") &&
+        spec &&
+        typeof spec === "object"
+      ) {
+        for (const key of [
+          "localField",
+          "foreignField",
+          "connectFromField",
+          "connectToField",
+        ]) {
+          const field = (spec as Record<string, unknown>)[key];
+          if (typeof field === "string") {
+            paths.push(field);
+          }
+        }
+      }
+
+      collectExpressionPaths(spec, paths);
+    }
+  }
+}
+
+/**
+ * Prefix every rule path, e.g. for documents embedded by $lookup.
+ */
+function prefixRules(rules: RedactionRules, prefix: string): RedactionRules {
+  return Object.fromEntries(
+    Object.entries(rules).map(([path, mode]) => [`${prefix}.${path}`, mode])
+  );
+}
+
+/**
+ * Work out which rules apply to the output of a pipeline: the source
+ * collection's rules, plus those of collections whose documents are
+ * joined in ($lookup, $graphLookup, $unionWith), moved under $facet keys.
+ * Every rule in play at any stage is also added to `seen`.
+ */
+function getPipelineRules(
+  rules: RedactionRules,
+  pipeline: Record<string, unknown>[],
+  seen: RedactionRules
+): RedactionRules {
+  let current = { ...rules };
+  Object.assign(seen, rules);
+
+  for (const stage of pipeline) {
+    for (const key of ["$lookup", "$graphLookup"]) {
+      const spec = stage[key] as Record<string, unknown> | undefined;
+      if (
+        spec &&
+        typeof spec.from === "string" &&
+        typeof spec.as === "string"
+      ) {
+        const foreignRules = Array.isArray(spec.pipeline)
+          ? getPipelineRules(getRedactionRules(spec.from), spec.pipeline, seen)
+          : getRedactionRules(spec.from);
+        const embeddedRules = prefixRules(foreignRules, spec.as);
+        Object.assign(current, embeddedRules);
+        Object.assign(seen, foreignRules, embeddedRules);
+      }
+    }
+
+    const unionWith = stage["$unionWith"];
+    if (typeof unionWith === "string") {
+      const foreignRules = getRedactionRules(unionWith);
+      Object.assign(current, foreignRules);
+      Object.assign(seen, foreignRules);
+    } else if (unionWith && typeof unionWith === "object") {
+      const spec = unionWith as Record<string, unknown>;
+      if (typeof spec.coll === "string") {
+        Object.assign(
+          current,
+          getPipelineRules(
+            getRedactionRules(spec.coll),
+            Array.isArray(spec.pipeline) ? spec.pipeline : [],
+            seen
+          )
+        );
+      }
+    }
+
+    const facet = stage["$facet"];
+    if (facet && typeof facet === "object") {
+      const next: RedactionRules = {};
+      for (const [name, subPipeline] of Object.entries(facet)) {
+        if (Array.isArray(subPipeline)) {
+          Object.assign(
+            next,
+            prefixRules(getPipelineRules(current, subPipeline, seen), name)
+          );
+        }
+      }
+      current = next;
+      Object.assign(seen, current);
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Get the redaction rules for the output of an aggregation pipeline.
+ * Throws an error if the pipeline reads or computes over a redacted field,
+ * since it could otherwise copy the value to an unredacted path.
+ */
+export function getAggregationRedactionRules(
+  collection: string,
+  pipeline: Record<string, unknown>[]
+): RedactionRules {
+  const seen: RedactionRules = {};
+  const rules = getPipelineRules(getRedactionRules(collection), pipeline, seen);
+
+  if (Object.keys(seen).length > 0) {
+    const paths: string[] = [];
+    collectPipelinePaths(pipeline, paths);
+
+    if (paths.includes("")) {
+      throw new ValidationError(
+        `Pipeline cannot use $text, $$ROOT, $$CURRENT or a computed field name on "${collection}" because it has redacted fields`
+      );
+    }
+
+    assertNotRedacted(paths, seen, "an aggregation pipeline");
+  }
+
+  return rules;
+}
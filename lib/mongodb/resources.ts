@@ -0,0 +1,411 @@
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+import { getDatabase } from "./client";
+import { findTarget, type Target } from "./dataSources";
+import { applySampleSize, SECURITY_LIMITS } from "./security";
+import { isToolEnabled } from "./config";
+import { serialize } from "./serializer";
+import { getRedactionRules, redactDocuments } from "./redaction";
+import {
+  AccessDeniedError,
+  assertCollectionsAllowed,
+  getAccessPolicy,
+  isCollectionAllowed,
+  type AccessPolicy,
+  type ToolExtra,
+} from "./access";
+import { sampleSchema, type SampledSchema } from "./tools/collectionSchema";
+import { isSystemCollection } from "./tools/listCollections";
+import { listTargets } from "./tools/listDatabases";
+import { describeOptions, getIndexes } from "./tools/listIndexes";
+import { recordInvocation } from "./invocation";
+import { withAudit } from "./audit";
+import { withRateLimit } from "./rateLimit";
+import { withTelemetry } from "./telemetry";
+
+/**
+ * Browsable MCP resources for clients that attach database context without
+ * calling tools:
+ * - mongodb://{db}/collections
+ * - mongodb://{db}/{collection}/schema
+ * - mongodb://{db}/{collection}/indexes
+ * - mongodb://{db}/{collection}/sample
+ *
+ * {db} resolves to the first data source that allows it. Each resource
+ * requires the tool it mirrors (list-collections, collection-schema,
+ * list-indexes, find),
+ * and collections follow the caller's access rules. Reads are traced,
+ * audited and rate limited as calls to that tool. Collection lists and
+ * schemas are cached for RESOURCE_CACHE_TTL_SECONDS (default 300).
+ */
+
+const JSON_MIME_TYPE = "application/json";
+
+/** Documents returned by a sample resource */
+const SAMPLE_SIZE = 5;
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+const collectionCache = new Map<string, CacheEntry<string[]>>();
+const schemaCache = new Map<string, CacheEntry<SampledSchema>>();
+
+function getCacheTtlMs(): number {
+  const seconds = Number(process.env.RESOURCE_CACHE_TTL_SECONDS ?? 300);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : 300_000;
+}
+
+/**
+ * Get a cached value, loading it if missing or expired.
+ * Failed loads are not cached.
+ */
+function cached<T>(
+  cache: Map<string, CacheEntry<T>>,
+  key: string,
+  load: () => Promise<T>
+): Promise<T> {
+  const now = Date.now();
+  const entry = cache.get(key);
+
+  if (entry && entry.expiresAt > now) {
+    return entry.value;
+  }
+
+  const value = load();
+  value.catch(() => cache.delete(key));
+  cache.set(key, { value, expiresAt: now + getCacheTtlMs() });
+  return value;
+}
+
+function targetKey(target: Target): string {
+  return `${target.source}/${target.database}`;
+}
+
+function listCollectionNames(target: Target): Promise<string[]> {
+  return cached(collectionCache, targetKey(target), async () => {
+    const db = await getDatabase(target);
+    const collections = await db
+      .listCollections({}, { nameOnly: true })
+      .toArray();
+
+    return collections
+      .map((c) => c.name)
+      .filter((name) => !isSystemCollection(name))
+      .sort();
+  });
+}
+
+/**
+ * Check if the caller may read a resource mirroring a tool.
+ */
+function canUse(policy: AccessPolicy, tool: string): boolean {
+  return isToolEnabled(tool) && (!policy.tools || policy.tools.includes(tool));
+}
+
+function assertCanUse(policy: AccessPolicy, tool: string): void {
+  if (!canUse(policy, tool)) {
+    throw new AccessDeniedError(
+      `API key "${policy.name}" needs tool "${tool}" to read this resource`
+    );
+  }
+}
+
+/**
+ * List the targets the caller may use whose {db} URIs resolve back to them.
+ */
+async function listResourceTargets(policy: AccessPolicy): Promise<Target[]> {
+  const targets = await listTargets(policy);
+  return targets.filter(
+    (target) => findTarget(target.database, policy).source === target.source
+  );
+}
+
+function getVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+function collectionUri(database: string, collection: string, kind: string) {
+  return `mongodb://${encodeURIComponent(database)}/${encodeURIComponent(
+    collection
+  )}/${kind}`;
+}
+
+function jsonContents(uri: URL, text: string): ReadResourceResult {
+  return {
+    contents: [{ uri: uri.href, mimeType: JSON_MIME_TYPE, text }],
+  };
+}
+
+interface ReadArgs {
+  uri: URL;
+  /** Named like tool arguments, so the audit log describes the read */
+  source?: string;
+  database: string;
+  collection?: string;
+}
+
+/**
+ * Wrap a resource read like a tool call (see instrument in
+ * app/mcp/route.ts): metrics and tracing, the audit log and the caller's
+ * rate limits, under the name of the tool the resource mirrors. There is
+ * no result cache, since resources keep their own.
+ */
+function instrumentRead(
+  tool: string,
+  read: (args: ReadArgs, extra: ToolExtra) => Promise<ReadResourceResult>
+) {
+  const handler = withTelemetry(
+    tool,
+    withAudit(tool, withRateLimit(tool, read))
+  );
+
+  return async (
+    uri: URL,
+    variables: Variables,
+    extra: ToolExtra
+  ): Promise<ReadResourceResult> => {
+    const database = getVariable(variables, "db");
+    const collection =
+      variables.collection === undefined
+        ? undefined
+        : getVariable(variables, "collection");
+
+    let source: string | undefined;
+    try {
+      source = findTarget(database, getAccessPolicy(extra)).source;
+    } catch {
+      // The read rejects the database itself, and is audited doing so
+    }
+
+    const result = await handler({ uri, source, database, collection }, extra);
+
+    // Rate limits answer with a tool error, which a resource read can't
+    // return, so it fails instead
+    if ("isError" in result && result.isError) {
+      const { content, _meta } = result as {
+        content: { text: string }[];
+        _meta?: Record<string, unknown>;
+      };
+      throw new McpError(ErrorCode.InvalidRequest, content[0].text, _meta);
+    }
+
+    return result as ReadResourceResult;
+  };
+}
+
+/**
+ * Get the inferred schema of a collection, cached per target, collection
+ * and the caller's sample size.
+ */
+export function getCollectionSchema(
+  target: Target,
+  collection: string,
+  policy: AccessPolicy
+): Promise<SampledSchema> {
+  const sampleSize = applySampleSize(
+    SECURITY_LIMITS.defaultSampleSize,
+    policy.limits.maxSampleSize
+  );
+
+  return cached(
+    schemaCache,
+    `${targetKey(target)}/${collection}/${sampleSize}`,
+    () =>
+      sampleSchema(target, collection, {
+        sampleSize,
+        maxTimeMS: policy.limits.maxTimeMS,
+      })
+  );
+}
+
+interface CollectionResource {
+  kind: string;
+  title: string;
+  description: string;
+  /** Tool the caller needs to read the resource */
+  tool: string;
+  read(
+    target: Target,
+    collection: string,
+    policy: AccessPolicy
+  ): Promise<string>;
+}
+
+const collectionResources: CollectionResource[] = [
+  {
+    kind: "schema",
+    title: "Collection Schema",
+    description:
+      "Field paths, types and presence inferred by sampling the collection",
+    tool: "collection-schema",
+    async read(target, collection, policy) {
+      const { sampled, schema } = await getCollectionSchema(
+        target,
+        collection,
+        policy
+      );
+
+      return serialize({
+        database: target.database,
+        collection,
+        sampled,
+        fields: schema,
+      });
+    },
+  },
+  {
+    kind: "indexes",
+    title: "Collection Indexes",
+    description: "Index definitions of the collection",
+    tool: "list-indexes",
+    async read(target, collection) {
+      const db = await getDatabase(target);
+      const indexes = await getIndexes(db.collection(collection));
+      const rules = getRedactionRules(collection);
+
+      // Described like list-indexes, so partial filters on redacted fields
+      // only name their fields
+      return serialize(
+        (indexes ?? []).map((index) => ({
+          name: index.name,
+          key: index.key,
+          options: describeOptions(index, rules),
+        }))
+      );
+    },
+  },
+  {
+    kind: "sample",
+    title: "Sample Documents",
+    description: `${SAMPLE_SIZE} randomly sampled documents, with redaction applied`,
+    tool: "find",
+    async read(target, collection, policy) {
+      const db = await getDatabase(target);
+      const documents = await db
+        .collection(collection)
+        .aggregate(
+          [
+            {
+              $sample: { size: Math.min(SAMPLE_SIZE, policy.limits.maxLimit) },
+            },
+          ],
+          { maxTimeMS: policy.limits.maxTimeMS }
+        )
+        .toArray();
+
+      redactDocuments(documents, getRedactionRules(collection));
+      recordInvocation({ documentsReturned: documents.length });
+      return serialize(documents);
+    },
+  },
+];
+
+/**
+ * Register the database resources on an MCP server.
+ */
+export function registerResources(server: McpServer): void {
+  server.registerResource(
+    "collections",
+    new ResourceTemplate("mongodb://{db}/collections", {
+      list: async (extra: ToolExtra) => {
+        const policy = getAccessPolicy(extra);
+        if (!canUse(policy, "list-collections")) {
+          return { resources: [] };
+        }
+
+        const targets = await listResourceTargets(policy);
+        return {
+          resources: targets.map((target): Resource => ({
+            uri: `mongodb://${encodeURIComponent(target.database)}/collections`,
+            name: `${target.database} collections`,
+            mimeType: JSON_MIME_TYPE,
+          })),
+        };
+      },
+    }),
+    {
+      title: "Collections",
+      description: "Collections of a database that the API key may read",
+      mimeType: JSON_MIME_TYPE,
+    },
+    instrumentRead("list-collections", async ({ uri, database }, extra) => {
+      const policy = getAccessPolicy(extra);
+      assertCanUse(policy, "list-collections");
+
+      const target = findTarget(database, policy);
+      const collections = (await listCollectionNames(target)).filter((name) =>
+        isCollectionAllowed(policy, name)
+      );
+
+      return jsonContents(
+        uri,
+        JSON.stringify({ database: target.database, collections }, null, 2)
+      );
+    })
+  );
+
+  for (const resource of collectionResources) {
+    server.registerResource(
+      `collection-${resource.kind}`,
+      new ResourceTemplate(`mongodb://{db}/{collection}/${resource.kind}`, {
+        list: async (extra: ToolExtra) => {
+          const policy = getAccessPolicy(extra);
+          if (!canUse(policy, resource.tool)) {
+            return { resources: [] };
+          }
+
+          const targets = await listResourceTargets(policy);
+          const lists = await Promise.all(targets.map(listCollectionNames));
+
+          return {
+            resources: targets.flatMap((target, index) =>
+              lists[index]
+                .filter((name) => isCollectionAllowed(policy, name))
+                .map((collection): Resource => ({
+                  uri: collectionUri(
+                    target.database,
+                    collection,
+                    resource.kind
+                  ),
+                  name: `${target.database}.${collection} ${resource.kind}`,
+                  mimeType: JSON_MIME_TYPE,
+                }))
+            ),
+          };
+        },
+      }),
+      {
+        title: resource.title,
+        description: resource.description,
+        mimeType: JSON_MIME_TYPE,
+      },
+      instrumentRead(
+        resource.tool,
+        async ({ uri, database, collection = "" }, extra) => {
+          const policy = getAccessPolicy(extra, collection);
+          assertCanUse(policy, resource.tool);
+
+          const target = findTarget(database, policy);
+          assertCollectionsAllowed(policy, [collection]);
+
+          return jsonContents(
+            uri,
+            await resource.read(target, collection, policy)
+          );
+        }
+      )
+    );
+  }
+}
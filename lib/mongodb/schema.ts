@@ -0,0 +1,596 @@
+import { EJSON, type Document } from "bson";
+
+/**
+ * Schema inference from sampled documents.
+ *
+ * Documents should be read with `promoteValues: false` so Int32, Long and
+ * Double keep their BSON types. Arrays are described by their element types
+ * under "<path>[]" (e.g. items[].sku for arrays of subdocuments). Presence
+ * is the share of sampled documents in which a path appears.
+ */
+
+/** Distinct values tracked per path before the count is reported as a floor */
+const MAX_DISTINCT_VALUES = 1000;
+
+/** Example values reported per path */
+const MAX_EXAMPLES = 3;
+
+/** Example strings are cut to this length */
+const MAX_EXAMPLE_LENGTH = 40;
+
+export interface FieldSchema {
+  types: string[];
+  /** Share of sampled documents containing the path */
+  percentage: number;
+  min?: unknown;
+  max?: unknown;
+  /** Distinct values in the sample */
+  distinct?: number;
+  /** True if the sample had more distinct values than were counted */
+  distinctCapped?: boolean;
+  examples?: unknown[];
+}
+
+export type SchemaResult = Record<string, FieldSchema>;
+
+/**
+ * A path in the inferred schema tree.
+ */
+export interface SchemaNode {
+  /** Values seen at this path, by type */
+  typeCounts: Map<string, number>;
+  /** Documents containing the path */
+  documents: number;
+  /** Fields of subdocument values */
+  fields: Map<string, SchemaNode>;
+  /** Element types of array values */
+  items?: SchemaNode;
+  /** Whether value stats are collected for this path */
+  collectStats: boolean;
+  min?: number | Date;
+  max?: number | Date;
+  distinctValues: Set<string>;
+  distinctCapped: boolean;
+  examples: unknown[];
+  lastDocument: number;
+}
+
+export interface InferOptions {
+  /** Paths (dotted, without []) whose values must not be reported */
+  hideValues?: (path: string) => boolean;
+}
+
+const BINARY_SUBTYPES: Record<number, string> = {
+  4: "UUID",
+  5: "MD5",
+  6: "Encrypted",
+  7: "Column",
+  8: "Sensitive",
+  9: "Vector",
+};
+
+const BINARY_SUBTYPE_NAMES = Object.fromEntries(
+  Object.values(BINARY_SUBTYPES).map((name) => [name, true])
+);
+
+/**
+ * Get the BSON type name for a value.
+ */
+export function getBsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (value === undefined) return "undefined";
+
+  if (value instanceof Date) return "Date";
+  if (value instanceof RegExp) return "RegExp";
+  if (Array.isArray(value)) return "Array";
+
+  const bsonType = (value as { _bsontype?: string })?._bsontype;
+  if (typeof bsonType === "string") {
+    switch (bsonType) {
+      case "Int32":
+        return "Int";
+      case "Binary": {
+        const subtype = (value as { sub_type: number }).sub_type;
+        if (subtype === 0 || subtype === 2) return "Binary";
+        return BINARY_SUBTYPES[subtype] ?? `Binary(${subtype})`;
+      }
+      case "BSONRegExp":
+        return "RegExp";
+      case "Code":
+        return "JavaScript";
+      case "BSONSymbol":
+        return "Symbol";
+      default:
+        // ObjectId, Decimal128, Long, Double, Timestamp, MinKey, MaxKey, DBRef
+        return bsonType;
+    }
+  }
+
+  if (ArrayBuffer.isView(value)) return "Binary";
+
+  const type = typeof value;
+  if (type === "object") return "Object";
+  if (type === "number") {
+    return Number.isInteger(value) ? "Int" : "Double";
+  }
+  if (type === "boolean") return "Boolean";
+  if (type === "string") return "String";
+  if (type === "bigint") return "Long";
+
+  return "Unknown";
+}
+
+function createNode(collectStats: boolean): SchemaNode {
+  return {
+    typeCounts: new Map(),
+    documents: 0,
+    fields: new Map(),
+    collectStats,
+    distinctValues: new Set(),
+    distinctCapped: false,
+    examples: [],
+    lastDocument: -1,
+  };
+}
+
+/**
+ * Get a comparable value for min/max, or null for types without an order
+ * worth reporting.
+ */
+function toComparable(value: unknown, type: string): number | Date | null {
+  switch (type) {
+    case "Int":
+    case "Double":
+    case "Long":
+    case "Decimal128":
+      return Number(
+        typeof value === "object" && value !== null ? value.toString() : value
+      );
+    case "Date":
+      return value as Date;
+    default:
+      return null;
+  }
+}
+
+function recordValue(node: SchemaNode, value: unknown, type: string) {
+  if (!node.collectStats || type === "Object" || type === "Array") {
+    return;
+  }
+
+  const comparable = toComparable(value, type);
+  if (comparable !== null && !Number.isNaN(Number(comparable))) {
+    if (node.min === undefined || comparable < node.min) node.min = comparable;
+    if (node.max === undefined || comparable > node.max) node.max = comparable;
+  }
+
+  if (type === "null" || type === "undefined") {
+    return;
+  }
+
+  const key = `${type}:${EJSON.stringify({ v: value })}`;
+  if (node.distinctValues.has(key)) {
+    return;
+  }
+
+  if (node.distinctValues.size < MAX_DISTINCT_VALUES) {
+    node.distinctValues.add(key);
+  } else {
+    node.distinctCapped = true;
+  }
+
+  if (node.examples.length < MAX_EXAMPLES) {
+    node.examples.push(
+      typeof value === "string" && value.length > MAX_EXAMPLE_LENGTH
+        ? `${value.slice(0, MAX_EXAMPLE_LENGTH)}...`
+        : value
+    );
+  }
+}
+
+function visitValue(
+  node: SchemaNode,
+  value: unknown,
+  path: string,
+  documentIndex: number,
+  options: InferOptions
+) {
+  const type = getBsonType(value);
+  node.typeCounts.set(type, (node.typeCounts.get(type) ?? 0) + 1);
+
+  if (node.lastDocument !== documentIndex) {
+    node.lastDocument = documentIndex;
+    node.documents += 1;
+  }
+
+  recordValue(node, value, type);
+
+  if (type === "Object") {
+    visitDocument(node, value as Document, path, documentIndex, options);
+  } else if (type === "Array") {
+    node.items ??= createNode(node.collectStats);
+    for (const element of value as unknown[]) {
+      visitValue(node.items, element, path, documentIndex, options);
+    }
+  }
+}
+
+function visitDocument(
+  node: SchemaNode,
+  doc: Document,
+  prefix: string,
+  documentIndex: number,
+  options: InferOptions
+) {
+  for (const [key, value] of Object.entries(doc)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    let child = node.fields.get(key);
+    if (!child) {
+      child = createNode(!options.hideValues?.(path));
+      node.fields.set(key, child);
+    }
+
+    visitValue(child, value, path, documentIndex, options);
+  }
+}
+
+/**
+ * Build the schema tree of sampled documents.
+ */
+export function inferSchemaTree(
+  documents: Document[],
+  options: InferOptions = {}
+): SchemaNode {
+  const root = createNode(false);
+
+  documents.forEach((doc, index) => {
+    visitValue(root, doc, "", index, options);
+  });
+
+  return root;
+}
+
+function sortTypes(node: SchemaNode): string[] {
+  return Array.from(node.typeCounts.keys()).sort();
+}
+
+function flattenNode(
+  node: SchemaNode,
+  path: string,
+  totalDocs: number,
+  schema: SchemaResult
+) {
+  if (path) {
+    const field: FieldSchema = {
+      types: sortTypes(node),
+      percentage: Math.round((node.documents / totalDocs) * 100),
+    };
+
+    if (node.collectStats) {
+      if (node.min !== undefined) field.min = node.min;
+      if (node.max !== undefined) field.max = node.max;
+      if (node.distinctValues.size > 0) {
+        field.distinct = node.distinctValues.size;
+        if (node.distinctCapped) field.distinctCapped = true;
+        field.examples = node.examples;
+      }
+    }
+
+    schema[path] = field;
+  }
+
+  for (const [key, child] of node.fields) {
+    flattenNode(child, path ? `${path}.${key}` : key, totalDocs, schema);
+  }
+
+  if (node.items && path) {
+    flattenNode(node.items, `${path}[]`, totalDocs, schema);
+  }
+}
+
+/**
+ * Flatten a schema tree of `totalDocs` documents, keyed by field path.
+ */
+export function flattenSchemaTree(
+  root: SchemaNode,
+  totalDocs: number
+): SchemaResult {
+  const schema: SchemaResult = {};
+
+  if (totalDocs > 0) {
+    flattenNode(root, "", totalDocs, schema);
+  }
+
+  return schema;
+}
+
+/**
+ * Infer schema from sampled documents, keyed by field path.
+ */
+export function inferSchema(
+  documents: Document[],
+  options: InferOptions = {}
+): SchemaResult {
+  return flattenSchemaTree(
+    inferSchemaTree(documents, options),
+    documents.length
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return EJSON.stringify(value, { relaxed: true });
+}
+
+/**
+ * Describe the value stats of a field, e.g. "1 to 90, 42 distinct, e.g. 3, 7".
+ */
+function formatStats(field: FieldSchema): string {
+  const parts: string[] = [];
+
+  if (field.min !== undefined && field.max !== undefined) {
+    parts.push(`${formatValue(field.min)} to ${formatValue(field.max)}`);
+  }
+  if (field.distinct !== undefined) {
+    parts.push(`${field.distinct}${field.distinctCapped ? "+" : ""} distinct`);
+  }
+  if (field.examples && field.examples.length > 0) {
+    parts.push(`e.g. ${field.examples.map(formatValue).join(", ")}`);
+  }
+
+  return parts.length > 0 ? ` - ${parts.join(", ")}` : "";
+}
+
+/**
+ * Format schema for display, with nested fields under their parents.
+ */
+export function formatSchema(schema: SchemaResult): string {
+  const lines: string[] = [];
+
+  // Sort by path segments so each field follows its parent
+  const sortedFields = Object.keys(schema).sort((a, b) => {
+    const aParts = a.split(".");
+    const bParts = b.split(".");
+    for (let i = 0; i < Math.min(aParts.length, bParts.length); i++) {
+      if (aParts[i] !== bParts[i]) {
+        const aBase = aParts[i].replace(/\[\]$/, "");
+        const bBase = bParts[i].replace(/\[\]$/, "");
+        // "items" and "items[]" stay together, the array itself first
+        return aBase === bBase
+          ? aParts[i].length - bParts[i].length
+          : aBase.localeCompare(bBase);
+      }
+    }
+    return aParts.length - bParts.length;
+  });
+
+  for (const field of sortedFields) {
+    const fieldSchema = schema[field];
+    const parts = field.split(".");
+    const indent = "  ".repeat(parts.length - 1);
+    lines.push(
+      `${indent}${parts[parts.length - 1]}: ${fieldSchema.types.join(" | ")} (${fieldSchema.percentage}%)${formatStats(fieldSchema)}`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * $jsonSchema bsonType aliases of the inferred type names.
+ */
+const JSON_SCHEMA_TYPES: Record<string, string> = {
+  String: "string",
+  Int: "int",
+  Double: "double",
+  Long: "long",
+  Decimal128: "decimal",
+  Boolean: "bool",
+  Date: "date",
+  ObjectId: "objectId",
+  Binary: "binData",
+  Timestamp: "timestamp",
+  RegExp: "regex",
+  JavaScript: "javascript",
+  Symbol: "symbol",
+  MinKey: "minKey",
+  MaxKey: "maxKey",
+  DBRef: "object",
+  Object: "object",
+  Array: "array",
+  null: "null",
+  undefined: "undefined",
+};
+
+function toJsonSchemaType(type: string): string | null {
+  if (type.startsWith("Binary") || type in BINARY_SUBTYPE_NAMES) {
+    return "binData";
+  }
+  return JSON_SCHEMA_TYPES[type] ?? null;
+}
+
+function nodeToJsonSchema(node: SchemaNode): Document {
+  const bsonTypes = [
+    ...new Set(
+      sortTypes(node)
+        .map(toJsonSchemaType)
+        .filter((type): type is string => type !== null)
+    ),
+  ];
+
+  const schema: Document = {};
+  if (bsonTypes.length > 0) {
+    schema.bsonType = bsonTypes.length === 1 ? bsonTypes[0] : bsonTypes;
+  }
+
+  const objectCount = node.typeCounts.get("Object") ?? 0;
+  if (objectCount > 0 && node.fields.size > 0) {
+    Object.assign(schema, objectToJsonSchema(node, objectCount));
+  }
+
+  if (node.items) {
+    schema.items = nodeToJsonSchema(node.items);
+  }
+
+  return schema;
+}
+
+function objectToJsonSchema(node: SchemaNode, objectCount: number): Document {
+  const required: string[] = [];
+  const properties: Document = {};
+
+  for (const [key, child] of node.fields) {
+    properties[key] = nodeToJsonSchema(child);
+    // Present in every subdocument seen at this path
+    const occurrences = Array.from(child.typeCounts.values()).reduce(
+      (a, b) => a + b,
+      0
+    );
+    if (occurrences === objectCount) {
+      required.push(key);
+    }
+  }
+
+  return {
+    ...(required.length > 0 ? { required } : {}),
+    properties,
+  };
+}
+
+/**
+ * Convert a schema tree to a JSON Schema usable in a $jsonSchema validator.
+ * Fields present in every sampled document are required.
+ */
+export function toJsonSchema(root: SchemaNode): Document {
+  return {
+    bsonType: "object",
+    ...objectToJsonSchema(root, root.typeCounts.get("Object") ?? 0),
+  };
+}
+
+/**
+ * TypeScript types of the inferred type names, as the driver returns them
+ * by default (Int32, Long and Double are promoted to number).
+ */
+const TYPESCRIPT_TYPES: Record<string, string> = {
+  String: "string",
+  Int: "number",
+  Double: "number",
+  Long: "number",
+  Decimal128: "Decimal128",
+  Boolean: "boolean",
+  Date: "Date",
+  ObjectId: "ObjectId",
+  Binary: "Binary",
+  Timestamp: "Timestamp",
+  RegExp: "RegExp",
+  JavaScript: "Code",
+  Symbol: "string",
+  MinKey: "MinKey",
+  MaxKey: "MaxKey",
+  DBRef: "DBRef",
+  null: "null",
+  undefined: "undefined",
+};
+
+const BSON_IMPORTS = new Set([
+  "Binary",
+  "Code",
+  "DBRef",
+  "Decimal128",
+  "MaxKey",
+  "MinKey",
+  "ObjectId",
+  "Timestamp",
+]);
+
+function toPropertyName(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function nodeToTypeScript(
+  node: SchemaNode,
+  indent: string,
+  imports: Set<string>
+): string {
+  const types = sortTypes(node).map((type) => {
+    if (type === "Object") {
+      return node.fields.size > 0
+        ? objectToTypeScript(node, indent, imports)
+        : "Record<string, unknown>";
+    }
+    if (type === "Array") {
+      const element = node.items
+        ? nodeToTypeScript(node.items, indent, imports)
+        : "unknown";
+      return element.includes(" | ") ? `Array<${element}>` : `${element}[]`;
+    }
+
+    const tsType =
+      type.startsWith("Binary") || type in BINARY_SUBTYPE_NAMES
+        ? "Binary"
+        : (TYPESCRIPT_TYPES[type] ?? "unknown");
+    if (BSON_IMPORTS.has(tsType)) {
+      imports.add(tsType);
+    }
+    return tsType;
+  });
+
+  const unique = [...new Set(types)];
+  return unique.length > 0 ? unique.join(" | ") : "unknown";
+}
+
+function objectToTypeScript(
+  node: SchemaNode,
+  indent: string,
+  imports: Set<string>
+): string {
+  const objectCount = node.typeCounts.get("Object") ?? 0;
+  const innerIndent = `${indent}  `;
+
+  const lines = Array.from(node.fields).map(([key, child]) => {
+    const occurrences = Array.from(child.typeCounts.values()).reduce(
+      (a, b) => a + b,
+      0
+    );
+    const optional = occurrences < objectCount ? "?" : "";
+    return `${innerIndent}${toPropertyName(key)}${optional}: ${nodeToTypeScript(
+      child,
+      innerIndent,
+      imports
+    )};`;
+  });
+
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+/**
+ * Convert a name such as a collection name to a PascalCase type name.
+ */
+function toTypeName(name: string): string {
+  const typeName = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+
+  return /^[A-Za-z]/.test(typeName) ? typeName : `Document${typeName}`;
+}
+
+/**
+ * Convert a schema tree to a TypeScript interface. Fields missing from some
+ * sampled documents are optional.
+ */
+export function toTypeScript(root: SchemaNode, name: string): string {
+  const imports = new Set<string>();
+  const body = objectToTypeScript(root, "", imports);
+  const importLine =
+    imports.size > 0
+      ? `import type { ${[...imports].sort().join(", ")} } from "bson";\n\n`
+      : "";
+
+  return `${importLine}export interface ${toTypeName(name)} ${body}\n`;
+}
@@ -1,14 +1,48 @@
+import { getConfig, type Config } from "./config";
+
 /**
  * Security limits and validation for MongoDB operations.
  */
 
-export const SECURITY_LIMITS = {
-  maxTimeMS: 30_000,
-  maxLimit: 100,
-  defaultLimit: 10,
-  maxSampleSize: 1000,
-  defaultSampleSize: 100,
-} as const;
+/**
+ * Server-wide limits from the config, read on first use rather than on
+ * import, so modules that don't need them (e.g. the health route) still
+ * load with an invalid config. Tool input schemas are built from these
+ * when the tool modules load.
+ */
+export const SECURITY_LIMITS: Readonly<Config["limits"]> = {
+  get maxTimeMS() {
+    return getConfig().limits.maxTimeMS;
+  },
+  get maxLimit() {
+    return getConfig().limits.maxLimit;
+  },
+  get defaultLimit() {
+    return getConfig().limits.defaultLimit;
+  },
+  get maxSampleSize() {
+    return getConfig().limits.maxSampleSize;
+  },
+  get defaultSampleSize() {
+    return getConfig().limits.defaultSampleSize;
+  },
+  get maxResponseBytes() {
+    return getConfig().limits.maxResponseBytes;
+  },
+  get defaultResponseBytes() {
+    return getConfig().limits.defaultResponseBytes;
+  },
+};
+
+/**
+ * Error thrown when a query is rejected before it reaches MongoDB.
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
 
 /**
  * Operators that are prohibited in find filters due to security risks.
@@ -18,14 +52,6 @@ export const SECURITY_LIMITS = {
  */
 const PROHIBITED_FILTER_OPERATORS = ["$where", "$function", "$accumulator"];
 
-/**
- * Stages that are prohibited in aggregation pipelines.
- * - $out, $merge: write operations
- * - $function, $accumulator: arbitrary code execution
- * - $lookup with pipeline: potential for internal SSRF
- */
-const PROHIBITED_STAGES = ["$out", "$merge", "$function", "$accumulator"];
-
 /**
  * Recursively check if an object contains any prohibited operators.
  */
@@ -71,82 +97,64 @@ export function validateFilter(filter: Record<string, unknown>): void {
   );
 
   if (prohibited) {
-    throw new Error(
+    throw new ValidationError(
       `Prohibited operator "${prohibited}" found in filter. ` +
         `The following operators are not allowed: ${PROHIBITED_FILTER_OPERATORS.join(", ")}`
     );
   }
 }
 
-/**
- * Validate an aggregation pipeline for prohibited stages.
- * Throws an error if a prohibited stage is found.
- */
-export function validatePipeline(pipeline: Record<string, unknown>[]): void {
-  for (const stage of pipeline) {
-    const stageKeys = Object.keys(stage);
-
-    for (const key of stageKeys) {
-      if (PROHIBITED_STAGES.includes(key)) {
-        throw new Error(
-          `Prohibited stage "${key}" found in pipeline. ` +
-            `The following stages are not allowed: ${PROHIBITED_STAGES.join(", ")}`
-        );
-      }
-    }
-
-    // Check for $lookup with pipeline (potential SSRF)
-    if ("$lookup" in stage) {
-      const lookup = stage["$lookup"] as Record<string, unknown>;
-      if (lookup && "pipeline" in lookup) {
-        throw new Error(
-          `$lookup with pipeline is not allowed for security reasons. ` +
-            `Use $lookup with localField/foreignField instead.`
-        );
-      }
-    }
-
-    // Recursively check stage content for prohibited operators
-    const prohibited = containsProhibitedOperator(stage, [
-      "$function",
-      "$accumulator",
-    ]);
-    if (prohibited) {
-      throw new Error(
-        `Prohibited operator "${prohibited}" found in pipeline stage. ` +
-          `Code execution operators are not allowed.`
-      );
-    }
-  }
-}
-
 /**
  * Apply security limits to a limit value.
  * Returns the effective limit, capped at maxLimit.
  */
-export function applyLimit(requestedLimit?: number): number {
+export function applyLimit(
+  requestedLimit?: number,
+  maxLimit: number = SECURITY_LIMITS.maxLimit
+): number {
   if (requestedLimit === undefined || requestedLimit === null) {
-    return SECURITY_LIMITS.defaultLimit;
+    return Math.min(SECURITY_LIMITS.defaultLimit, maxLimit);
   }
 
   if (requestedLimit <= 0) {
-    return SECURITY_LIMITS.defaultLimit;
+    return Math.min(SECURITY_LIMITS.defaultLimit, maxLimit);
   }
 
-  return Math.min(requestedLimit, SECURITY_LIMITS.maxLimit);
+  return Math.min(requestedLimit, maxLimit);
 }
 
 /**
  * Apply security limits to a sample size value.
  */
-export function applySampleSize(requestedSize?: number): number {
+export function applySampleSize(
+  requestedSize?: number,
+  maxSampleSize: number = SECURITY_LIMITS.maxSampleSize
+): number {
   if (requestedSize === undefined || requestedSize === null) {
-    return SECURITY_LIMITS.defaultSampleSize;
+    return Math.min(SECURITY_LIMITS.defaultSampleSize, maxSampleSize);
   }
 
   if (requestedSize <= 0) {
-    return SECURITY_LIMITS.defaultSampleSize;
+    return Math.min(SECURITY_LIMITS.defaultSampleSize, maxSampleSize);
+  }
+
+  return Math.min(requestedSize, maxSampleSize);
+}
+
+/**
+ * Apply security limits to a response size budget in bytes.
+ */
+export function applyResponseBudget(
+  requestedBytes?: number,
+  maxResponseBytes: number = SECURITY_LIMITS.maxResponseBytes
+): number {
+  if (requestedBytes === undefined || requestedBytes === null) {
+    return Math.min(SECURITY_LIMITS.defaultResponseBytes, maxResponseBytes);
+  }
+
+  if (requestedBytes <= 0) {
+    return Math.min(SECURITY_LIMITS.defaultResponseBytes, maxResponseBytes);
   }
 
-  return Math.min(requestedSize, SECURITY_LIMITS.maxSampleSize);
+  return Math.min(requestedBytes, maxResponseBytes);
 }
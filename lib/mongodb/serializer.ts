@@ -1,4 +1,6 @@
+import { z } from "zod";
 import { EJSON, type Document } from "bson";
+import { SECURITY_LIMITS } from "./security";
 
 /**
  * Serialize MongoDB documents to EJSON string.
@@ -15,17 +17,279 @@ export function textContent(text: string) {
   return { type: "text" as const, text };
 }
 
+export const OUTPUT_FORMATS = [
+  "ejson-relaxed",
+  "ejson-canonical",
+  "jsonl",
+  "csv",
+  "markdown",
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface FormatOptions {
+  format?: OutputFormat;
+  /** Dotted field paths to output as columns (csv and markdown only) */
+  columns?: string[];
+}
+
+/**
+ * Tool arguments selecting how documents are written out.
+ */
+export const formatShape = {
+  format: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe(
+      "Output format: ejson-relaxed (default, readable JSON), ejson-canonical (keeps exact BSON types such as Int64 vs Double), jsonl (one compact document per line), csv (nested fields flattened to dotted columns) or markdown (a table)"
+    ),
+  columns: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(50)
+    .optional()
+    .describe(
+      "Dotted field paths to output as columns, in order, for csv and markdown. Defaults to every field found"
+    ),
+  maxBytes: z
+    .number()
+    .int()
+    .min(1)
+    .max(SECURITY_LIMITS.maxResponseBytes)
+    .optional()
+    .describe(
+      `Response size budget in bytes (about 4 bytes per token; default: ${SECURITY_LIMITS.defaultResponseBytes}, max: ${SECURITY_LIMITS.maxResponseBytes}). Documents past the budget are left out and reported`
+    ),
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Flatten nested subdocuments into dotted paths. Arrays and BSON values
+ * are kept whole as cells.
+ */
+function flattenDocument(
+  doc: Record<string, unknown>,
+  prefix = "",
+  row: Map<string, unknown> = new Map()
+): Map<string, unknown> {
+  for (const [key, value] of Object.entries(doc)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenDocument(value, path, row);
+    } else {
+      row.set(path, value);
+    }
+  }
+
+  return row;
+}
+
+function getPath(doc: Record<string, unknown>, path: string): unknown {
+  let value: unknown = doc;
+
+  for (const key of path.split(".")) {
+    if (!isPlainObject(value)) {
+      return undefined;
+    }
+    value = value[key];
+  }
+
+  return value;
+}
+
+/**
+ * Format a value as a table cell: strings as is, dates as ISO 8601,
+ * ObjectIds and BSON numbers as plain text, and anything else (arrays,
+ * binary, ...) as compact relaxed EJSON.
+ */
+function toCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? "" : value.toISOString();
+  }
+
+  switch ((value as { _bsontype?: string })._bsontype) {
+    case "ObjectId":
+    case "Decimal128":
+    case "Long":
+    case "Int32":
+    case "Double":
+      return String(value);
+  }
+
+  return EJSON.stringify(value, { relaxed: true });
+}
+
+/**
+ * Build table rows with one column per dotted path, in first-seen order
+ * unless columns are given.
+ */
+function toTable(
+  docs: Document[],
+  columns?: string[]
+): { columns: string[]; rows: string[][] } {
+  if (columns) {
+    return {
+      columns,
+      rows: docs.map((doc) =>
+        columns.map((path) => toCell(getPath(doc, path)))
+      ),
+    };
+  }
+
+  const flattened = docs.map((doc) => flattenDocument(doc));
+  const found = new Set<string>();
+  for (const row of flattened) {
+    for (const path of row.keys()) {
+      found.add(path);
+    }
+  }
+
+  const allColumns = [...found];
+  return {
+    columns: allColumns,
+    rows: flattened.map((row) =>
+      allColumns.map((path) => toCell(row.get(path)))
+    ),
+  };
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Get the dotted paths of the fields of documents, in first-seen order,
+ * for CSV written one row at a time.
+ */
+export function getColumns(docs: Document[]): string[] {
+  return toTable(docs).columns;
+}
+
+/**
+ * Format one CSV line: the header when given column names, or a document
+ * with its values at the column paths.
+ */
+export function toCsvLine(columns: string[], doc?: Document): string {
+  const values = doc
+    ? columns.map((path) => toCell(getPath(doc, path)))
+    : columns;
+  return values.map(csvField).join(",");
+}
+
+function markdownCell(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\|/g, "\\|")
+    .replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Serialize documents in the given output format.
+ */
+export function serializeDocuments(
+  docs: Document[],
+  { format = "ejson-relaxed", columns }: FormatOptions = {}
+): string {
+  switch (format) {
+    case "ejson-relaxed":
+      return serialize(docs);
+    case "ejson-canonical":
+      return EJSON.stringify(docs, { relaxed: false });
+    case "jsonl":
+      return docs
+        .map((doc) => EJSON.stringify(doc, { relaxed: true }))
+        .join("\n");
+    case "csv": {
+      const table = toTable(docs, columns);
+      return [table.columns, ...table.rows]
+        .map((row) => row.map(csvField).join(","))
+        .join("\n");
+    }
+    case "markdown": {
+      const table = toTable(docs, columns);
+      const line = (cells: string[]) =>
+        `| ${cells.map(markdownCell).join(" | ")} |`;
+      return [
+        line(table.columns),
+        `|${table.columns.map(() => "---").join("|")}|`,
+        ...table.rows.map(line),
+      ].join("\n");
+    }
+  }
+}
+
+/**
+ * Driver options for reading documents to output in a format.
+ * ejson-canonical keeps Int32, Long and Double apart, so they're read
+ * without promotion to JavaScript numbers.
+ */
+export function getReadOptions(format?: OutputFormat): {
+  promoteValues?: boolean;
+} {
+  return format === "ejson-canonical" ? { promoteValues: false } : {};
+}
+
+/**
+ * Structured result of tools returning documents.
+ */
+export const documentsOutputSchema = z.object({
+  documents: z
+    .array(z.record(z.unknown()))
+    .describe("Documents as Extended JSON"),
+  truncated: z
+    .boolean()
+    .describe(
+      "True if more documents exist beyond this page or were left out for the response budget"
+    ),
+  omitted: z
+    .number()
+    .int()
+    .describe("Number of documents left out for the response budget"),
+  nextCursor: z
+    .string()
+    .optional()
+    .describe("Pass as cursor to fetch the next page"),
+});
+
+/**
+ * Convert documents to plain Extended JSON objects for structured content.
+ * Canonical mode is used when the caller asked for ejson-canonical.
+ */
+export function toExtendedJson(
+  docs: Document[],
+  format?: OutputFormat
+): Record<string, unknown>[] {
+  const relaxed = format !== "ejson-canonical";
+  return docs.map((doc) => EJSON.serialize(doc, { relaxed }));
+}
+
 /**
  * Format documents for MCP tool response.
  */
 export function formatDocuments(
   message: string,
-  docs: Document[]
+  docs: Document[],
+  options: FormatOptions = {}
 ): { type: "text"; text: string }[] {
   const content: { type: "text"; text: string }[] = [textContent(message)];
 
   if (docs.length > 0) {
-    content.push(textContent(serialize(docs)));
+    content.push(textContent(serializeDocuments(docs, options)));
   }
 
   return content;
@@ -0,0 +1,185 @@
+import { after } from "next/server";
+import type {
+  CommandFailedEvent,
+  CommandStartedEvent,
+  CommandSucceededEvent,
+  MongoClient,
+} from "mongodb";
+import { AccessDeniedError, type ToolExtra } from "./access";
+import { ValidationError } from "./security";
+import { getInvocation, runInvocation } from "./invocation";
+import { recordCommand, recordToolCall, type ToolCallMetrics } from "./metrics";
+import {
+  endSpan,
+  flushSpans,
+  queueSpans,
+  startSpan,
+  type Span,
+} from "./tracing";
+
+/**
+ * Metrics and trace spans for tool calls, and for the MongoDB commands
+ * they issue through the data source clients.
+ */
+
+/** Commands started but not finished yet, by connection and request id */
+const pendingCommands = new Map<string, { span: Span; parent: Span }>();
+
+/** Finished command spans of each tool span, exported together */
+const commandSpans = new WeakMap<Span, Span[]>();
+
+function commandKey(
+  event: CommandStartedEvent | CommandSucceededEvent | CommandFailedEvent
+): string {
+  return `${event.connectionId}:${event.requestId}`;
+}
+
+/**
+ * Record metrics and spans for every command a client runs. The client
+ * must be created with monitorCommands: true. Commands run during a tool
+ * call become children of its span; the command body is never recorded.
+ */
+export function monitorCommands(client: MongoClient): void {
+  client.on("commandStarted", (event) => {
+    const parent = getInvocation()?.span;
+    if (!parent) {
+      return;
+    }
+
+    const collection = event.command[event.commandName];
+    const span = startSpan(
+      typeof collection === "string"
+        ? `${event.commandName} ${event.databaseName}.${collection}`
+        : `${event.commandName} ${event.databaseName}`,
+      "client",
+      parent
+    );
+    span.attributes = {
+      "db.system": "mongodb",
+      "db.name": event.databaseName,
+      "db.operation": event.commandName,
+      "server.address": event.address,
+    };
+    if (typeof collection === "string") {
+      span.attributes["db.mongodb.collection"] = collection;
+    }
+
+    pendingCommands.set(commandKey(event), { span, parent });
+  });
+
+  const finish = (
+    event: CommandSucceededEvent | CommandFailedEvent,
+    error?: string
+  ) => {
+    const key = commandKey(event);
+    const pending = pendingCommands.get(key);
+    pendingCommands.delete(key);
+
+    recordCommand(
+      event.commandName,
+      error === undefined ? "success" : "error",
+      event.duration
+    );
+
+    if (pending) {
+      endSpan(pending.span, error);
+      commandSpans.get(pending.parent)?.push(pending.span);
+    }
+  };
+
+  client.on("commandSucceeded", (event) => finish(event));
+  client.on("commandFailed", (event) => finish(event, event.failure.message));
+}
+
+/**
+ * Export queued spans once the response is sent. On serverless platforms
+ * this keeps the function alive for the export instead of dropping it.
+ */
+function flushAfterResponse(): void {
+  try {
+    after(flushSpans);
+  } catch {
+    // Outside a Next.js request the queue's own timer flushes the spans
+  }
+}
+
+function getTraceparent(extra: ToolExtra): string | undefined {
+  const header = extra.requestInfo?.headers?.traceparent;
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Wrap a tool handler to record call metrics and a span covering the call
+ * and the MongoDB commands it runs. An incoming traceparent header makes
+ * the span part of the client's trace.
+ */
+export function withTelemetry<Args, Result>(
+  tool: string,
+  handler: (args: Args, extra: ToolExtra) => Promise<Result>
+): (args: Args, extra: ToolExtra) => Promise<Result> {
+  return (args, extra) =>
+    runInvocation(tool, async (invocation) => {
+      const { collection } = args as { collection?: unknown };
+      const span = startSpan(
+        `tools/call ${tool}`,
+        "server",
+        getTraceparent(extra)
+      );
+      span.attributes["mcp.tool"] = tool;
+      if (extra.authInfo?.clientId) {
+        span.attributes["mcp.caller"] = extra.authInfo.clientId;
+      }
+      if (typeof collection === "string") {
+        span.attributes["db.mongodb.collection"] = collection;
+      }
+
+      invocation.span = span;
+      commandSpans.set(span, []);
+
+      const startedAt = Date.now();
+      let status: ToolCallMetrics["status"] = "success";
+      let errorType: string | undefined;
+      let message: string | undefined;
+
+      try {
+        const result = await handler(args, extra);
+        if (invocation.rejection) {
+          status = "rejected";
+          errorType = "RateLimited";
+          message = invocation.rejection;
+        }
+        return result;
+      } catch (error) {
+        const isRejection =
+          error instanceof ValidationError ||
+          error instanceof AccessDeniedError;
+        status = isRejection ? "rejected" : "error";
+        errorType = error instanceof Error ? error.name : "Error";
+        message = error instanceof Error ? error.message : String(error);
+        throw error;
+      } finally {
+        recordToolCall({
+          tool,
+          collection: typeof collection === "string" ? collection : undefined,
+          status,
+          errorType,
+          durationMs: Date.now() - startedAt,
+          documentsReturned: invocation.documentsReturned,
+        });
+
+        span.attributes["mcp.status"] = status;
+        if (errorType) {
+          span.attributes["error.type"] = errorType;
+        }
+        if (invocation.documentsReturned !== undefined) {
+          span.attributes["mcp.documents_returned"] =
+            invocation.documentsReturned;
+        }
+        // Rejections are the caller's mistake, not a server failure
+        endSpan(span, status === "error" ? message : undefined);
+
+        queueSpans([span, ...(commandSpans.get(span) ?? [])]);
+        flushAfterResponse();
+      }
+    });
+}
@@ -1,7 +1,43 @@
 import { z } from "zod";
-import { getDatabase, getDatabaseName } from "../client";
-import { validatePipeline, applyLimit, SECURITY_LIMITS } from "../security";
-import { formatDocuments } from "../serializer";
+import { getDatabase } from "../client";
+import { resolveTarget, targetShape } from "../dataSources";
+import { cacheShape } from "../queryCache";
+import { applyResponseBudget, ValidationError } from "../security";
+import { validatePipeline } from "../pipeline";
+import { describeOmitted, fitDocuments } from "../budget";
+import {
+  documentsOutputSchema,
+  formatDocuments,
+  formatShape,
+  getReadOptions,
+  toExtendedJson,
+} from "../serializer";
+import { recordInvocation } from "../invocation";
+import {
+  checkCollectionScan,
+  getQueryOptions,
+  governPipeline,
+  runGoverned,
+} from "../governor";
+import {
+  getAggregationRedactionRules,
+  isRedacted,
+  redactDocuments,
+} from "../redaction";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  type ToolExtra,
+} from "../access";
+import {
+  buildResumeFilter,
+  decodeCursor,
+  encodeCursor,
+  getSortValues,
+  withTiebreaker,
+  type SortSpec,
+} from "../pagination";
 
 export const aggregateSchema = z.object({
   collection: z.string().min(1).describe("Collection name"),
@@ -11,46 +47,231 @@ export const aggregateSchema = z.object({
     .describe(
       "Aggregation pipeline stages. Example: [{ $match: { status: 'active' } }, { $group: { _id: '$category', count: { $sum: 1 } } }]"
     ),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "Continuation token from a previous aggregate with the same collection and pipeline. Returns the next page."
+    ),
+  ...formatShape,
+  ...cacheShape,
+  ...targetShape,
 });
 
 export type AggregateArgs = z.infer<typeof aggregateSchema>;
 
+export const aggregateOutputSchema = documentsOutputSchema;
+
+/** Field spec values of $project that keep _id as it is */
+const KEEP_OR_DROP = new Set<unknown>([0, 1, true, false]);
+
+function setsId(fields: unknown): boolean {
+  return Object.keys(fields as Record<string, unknown>).some(
+    (field) => field === "_id" || field.startsWith("_id.")
+  );
+}
+
 /**
- * Check if pipeline already has a $limit stage.
+ * Whether a stage passes through input documents with their _id intact,
+ * so _id stays unique in its output.
  */
-function hasLimitStage(pipeline: Record<string, unknown>[]): boolean {
-  return pipeline.some((stage) => "$limit" in stage);
+function keepsDocumentIds(stage: Record<string, unknown>): boolean {
+  const [name, spec] = Object.entries(stage)[0] ?? [];
+
+  switch (name) {
+    case "$match":
+    case "$sort":
+    case "$limit":
+    case "$skip":
+    case "$redact":
+    case "$unset":
+      return true;
+    case "$addFields":
+    case "$set":
+      return !setsId(spec);
+    case "$project": {
+      const fields = spec as Record<string, unknown>;
+      return (
+        !Object.keys(fields).some((field) => field.startsWith("_id.")) &&
+        (!("_id" in fields) || KEEP_OR_DROP.has(fields._id))
+      );
+    }
+    case "$lookup":
+    case "$graphLookup": {
+      const as = (spec as { as?: unknown }).as;
+      return typeof as === "string" && as !== "_id" && !as.startsWith("_id.");
+    }
+    default:
+      // $group, $unwind, $replaceRoot, $facet, $sample, ... reshape or
+      // repeat documents, so _id no longer identifies one
+      return false;
+  }
 }
 
-export async function aggregateTool(args: AggregateArgs) {
-  const { collection, pipeline } = args;
+/**
+ * Work out the order of the pipeline output, used to page through it.
+ * Pipelines ending in a $sort page on its keys, pipelines without any
+ * $sort page on _id. Returns null when the output order can't be resumed
+ * (e.g. a $sort followed by other stages), or when _id may not be unique
+ * in the output (e.g. after $unwind or $group).
+ */
+export function getPaginationSort(
+  pipeline: Record<string, unknown>[]
+): SortSpec | null {
+  if (!pipeline.every(keepsDocumentIds)) {
+    return null;
+  }
 
-  // Validate pipeline for prohibited stages
-  validatePipeline(pipeline);
+  const lastStage = pipeline[pipeline.length - 1];
 
-  const db = await getDatabase();
-  const dbName = getDatabaseName();
+  if ("$sort" in lastStage) {
+    const sort = lastStage["$sort"] as Record<string, unknown>;
+    const isPlainSort = Object.values(sort).every(
+      (direction) => direction === 1 || direction === -1
+    );
+    return isPlainSort ? withTiebreaker(sort as SortSpec) : null;
+  }
 
-  // Add $limit if not present to prevent unbounded results
-  const effectivePipeline = [...pipeline];
-  if (!hasLimitStage(effectivePipeline)) {
-    effectivePipeline.push({ $limit: applyLimit(SECURITY_LIMITS.maxLimit) });
+  if (pipeline.some((stage) => "$sort" in stage)) {
+    return null;
   }
 
-  const cursor = db.collection(collection).aggregate(effectivePipeline, {
-    maxTimeMS: SECURITY_LIMITS.maxTimeMS,
+  return { _id: 1 };
+}
+
+export async function aggregateTool(args: AggregateArgs, extra: ToolExtra) {
+  return runAggregate("aggregate", args, extra);
+}
+
+/**
+ * Run an aggregation for a tool: aggregate itself, or a query tool built on
+ * it (see query.ts). Access checks and cursors use the tool's name.
+ */
+export async function runAggregate(
+  tool: string,
+  args: AggregateArgs,
+  extra: ToolExtra
+) {
+  const { collection, pipeline, cursor, format, columns, maxBytes } = args;
+
+  const access = getAccessPolicy(extra, collection);
+  assertToolAllowed(access, tool);
+
+  assertCollectionsAllowed(access, [collection]);
+
+  // Allow-listed stages and operators only, on collections the key may read
+  validatePipeline(pipeline, access);
+
+  // Reject pipelines that read redacted fields before running them
+  const redactionRules = getAggregationRedactionRules(collection, pipeline);
+
+  const target = resolveTarget(args, access);
+  const db = await getDatabase(target);
+  const dbName = target.database;
+
+  const pageSize = access.limits.maxLimit;
+  const paginationSort = isRedacted("_id", redactionRules)
+    ? null
+    : getPaginationSort(pipeline);
+  const scope = {
+    tool,
+    source: target.source,
+    db: dbName,
+    collection,
+    pipeline,
+  };
+
+  if (cursor && !paginationSort) {
+    throw new ValidationError(
+      "This pipeline can't be paginated: it must keep each input document's _id (no $group, $unwind, $replaceRoot, ...) and end with a $sort stage (or have no $sort stages) to use a cursor"
+    );
+  }
+
+  // Always cap the output at one page; fetch one extra document to know
+  // whether another page exists
+  const effectivePipeline = governPipeline(pipeline, access.limits);
+  if (paginationSort) {
+    effectivePipeline.push({ $sort: paginationSort });
+    if (cursor) {
+      effectivePipeline.push({
+        $match: buildResumeFilter(paginationSort, decodeCursor(cursor, scope)),
+      });
+    }
+  }
+  effectivePipeline.push({ $limit: pageSize + 1 });
+
+  const coll = db.collection(collection);
+  const query = () =>
+    coll.aggregate(effectivePipeline, {
+      ...getQueryOptions(access.limits),
+      ...getReadOptions(format),
+    });
+
+  await checkCollectionScan(coll, access.limits, () =>
+    query().explain("queryPlanner")
+  );
+  const documents = await runGoverned(access.limits, () => query().toArray());
+
+  const hasMore = documents.length > pageSize;
+  if (hasMore) {
+    documents.pop();
+  }
+
+  redactDocuments(documents, redactionRules);
+
+  // Documents past the response budget are left out and read from the
+  // next page instead
+  const budget = applyResponseBudget(maxBytes, access.limits.maxResponseBytes);
+  const { documents: output, omitted } = fitDocuments(documents, budget, {
+    format,
+    columns,
   });
+  recordInvocation({ documentsReturned: output.length });
 
-  const documents = await cursor.toArray();
+  const notes: string[] = [];
+  if (hasMore) {
+    notes.push(`limited to ${pageSize}`);
+  }
+  if (omitted > 0) {
+    notes.push(describeOmitted(omitted, budget));
+  }
+
+  let nextCursor: string | undefined;
+  const lastDocument = documents[output.length - 1];
+  if ((hasMore || omitted > 0) && lastDocument) {
+    if (!paginationSort) {
+      notes.push(
+        "this pipeline can't be paged through; narrow it with $match to see the rest"
+      );
+    } else if (lastDocument._id === undefined) {
+      notes.push("keep _id in the output to page through the rest");
+    } else {
+      nextCursor = encodeCursor(
+        scope,
+        getSortValues(lastDocument, paginationSort)
+      );
+      notes.push(
+        `more results available, pass cursor "${nextCursor}" to fetch the next page`
+      );
+    }
+  }
 
   const message =
     documents.length === 0
       ? `Aggregation on "${dbName}.${collection}" returned no results`
       : `Aggregation on "${dbName}.${collection}" returned ${
-          documents.length
-        } document${documents.length === 1 ? "" : "s"}`;
+          output.length
+        } document${output.length === 1 ? "" : "s"}${
+          notes.length > 0 ? ` (${notes.join("; ")})` : ""
+        }`;
 
   return {
-    content: formatDocuments(message, documents),
+    content: formatDocuments(message, output, { format, columns }),
+    structuredContent: {
+      documents: toExtendedJson(output, format),
+      truncated: hasMore || omitted > 0,
+      omitted,
+      nextCursor,
+    },
   };
 }
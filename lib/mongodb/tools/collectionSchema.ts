@@ -1,8 +1,31 @@
 import { z } from "zod";
-import { ObjectId, type Document } from "bson";
-import { getDatabase, getDatabaseName } from "../client";
+import { EJSON } from "bson";
+import { getDatabase } from "../client";
+import { resolveTarget, targetShape, type Target } from "../dataSources";
+import { cacheShape } from "../queryCache";
 import { applySampleSize, SECURITY_LIMITS } from "../security";
-import { textContent } from "../serializer";
+import { serialize, textContent } from "../serializer";
+import {
+  getDroppedFieldRules,
+  getRedactionRules,
+  isRedacted,
+  redactDocuments,
+} from "../redaction";
+import {
+  flattenSchemaTree,
+  formatSchema,
+  inferSchemaTree,
+  toJsonSchema,
+  toTypeScript,
+  type SchemaNode,
+  type SchemaResult,
+} from "../schema";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  type ToolExtra,
+} from "../access";
 
 export const collectionSchemaSchema = z.object({
   collection: z.string().min(1).describe("Collection name"),
@@ -16,182 +39,178 @@ export const collectionSchemaSchema = z.object({
     .describe(
       `Number of documents to sample for schema inference (1-${SECURITY_LIMITS.maxSampleSize}, default: ${SECURITY_LIMITS.defaultSampleSize})`
     ),
+  output: z
+    .enum(["summary", "json-schema", "typescript"])
+    .optional()
+    .default("summary")
+    .describe(
+      "summary (default) lists fields with types, presence and value stats. json-schema returns a $jsonSchema validator document, typescript an interface"
+    ),
+  ...cacheShape,
+  ...targetShape,
 });
 
 export type CollectionSchemaArgs = z.infer<typeof collectionSchemaSchema>;
 
-interface FieldSchema {
-  types: string[];
-  percentage: number;
-}
+export const collectionSchemaOutputSchema = z.object({
+  database: z.string(),
+  collection: z.string(),
+  sampled: z.number().int().describe("Number of documents sampled"),
+  fields: z
+    .record(
+      z
+        .object({
+          types: z.array(z.string()).describe("BSON types seen at the path"),
+          percentage: z
+            .number()
+            .describe("Share of sampled documents containing the path"),
+          min: z.unknown().optional(),
+          max: z.unknown().optional(),
+          distinct: z.number().int().optional(),
+          distinctCapped: z.boolean().optional(),
+          examples: z.array(z.unknown()).optional(),
+        })
+        .strict()
+    )
+    .describe("Fields by dotted path; array elements are under path[]"),
+  jsonSchema: z
+    .record(z.unknown())
+    .optional()
+    .describe("$jsonSchema validator, for output json-schema"),
+  typescript: z
+    .string()
+    .optional()
+    .describe("TypeScript interface, for output typescript"),
+});
 
-type SchemaResult = Record<string, FieldSchema>;
+export interface SampledSchema {
+  /** Number of documents the schema was inferred from */
+  sampled: number;
+  schema: SchemaResult;
+  tree: SchemaNode;
+}
 
 /**
- * Get the BSON type name for a value.
+ * Sample documents of a collection and infer its schema.
+ * Dropped fields are removed first. Types of other redacted fields are
+ * shown, but their value stats and examples are not.
  */
-function getBsonType(value: unknown): string {
-  if (value === null) return "null";
-  if (value === undefined) return "undefined";
+export async function sampleSchema(
+  target: Target,
+  collection: string,
+  options: { sampleSize: number; maxTimeMS: number }
+): Promise<SampledSchema> {
+  const db = await getDatabase(target);
 
-  if (value instanceof ObjectId) return "ObjectId";
-  if (value instanceof Date) return "Date";
-  if (value instanceof RegExp) return "RegExp";
-  if (ArrayBuffer.isView(value)) return "Binary";
-
-  if (Array.isArray(value)) return "Array";
+  const documents = await db
+    .collection(collection)
+    .aggregate([{ $sample: { size: options.sampleSize } }], {
+      maxTimeMS: options.maxTimeMS,
+      // Keep Int32, Long and Double distinct
+      promoteValues: false,
+    })
+    .toArray();
 
-  const type = typeof value;
-  if (type === "object") return "Object";
-  if (type === "number") {
-    return Number.isInteger(value) ? "Int" : "Double";
-  }
-  if (type === "boolean") return "Boolean";
-  if (type === "string") return "String";
-  if (type === "bigint") return "Long";
+  const rules = getRedactionRules(collection);
+  redactDocuments(documents, getDroppedFieldRules(rules));
 
-  return "Unknown";
-}
-
-/**
- * Recursively extract field paths and their types from a document.
- */
-function extractFields(
-  doc: Document,
-  prefix: string = ""
-): Map<string, string> {
-  const fields = new Map<string, string>();
-
-  for (const [key, value] of Object.entries(doc)) {
-    const fieldPath = prefix ? `${prefix}.${key}` : key;
-    const type = getBsonType(value);
-    fields.set(fieldPath, type);
-
-    // For nested objects, extract nested fields (but not for arrays)
-    if (
-      value !== null &&
-      typeof value === "object" &&
-      !Array.isArray(value) &&
-      !(value instanceof ObjectId) &&
-      !(value instanceof Date) &&
-      !(value instanceof RegExp)
-    ) {
-      const nestedFields = extractFields(value as Document, fieldPath);
-      for (const [nestedPath, nestedType] of nestedFields) {
-        fields.set(nestedPath, nestedType);
-      }
-    }
-  }
+  const tree = inferSchemaTree(documents, {
+    hideValues: (path) => isRedacted(path, rules),
+  });
 
-  return fields;
+  return {
+    sampled: documents.length,
+    schema: flattenSchemaTree(tree, documents.length),
+    tree,
+  };
 }
 
-/**
- * Infer schema from sampled documents.
- */
-function inferSchema(documents: Document[]): SchemaResult {
-  if (documents.length === 0) {
-    return {};
-  }
+export async function collectionSchemaTool(
+  args: CollectionSchemaArgs,
+  extra: ToolExtra
+) {
+  const { collection, sampleSize, output } = args;
 
-  const totalDocs = documents.length;
-  const fieldStats: Map<string, Map<string, number>> = new Map();
+  const access = getAccessPolicy(extra, collection);
+  assertToolAllowed(access, "collection-schema");
+  assertCollectionsAllowed(access, [collection]);
 
-  // Collect type counts for each field
-  for (const doc of documents) {
-    const fields = extractFields(doc);
+  const target = resolveTarget(args, access);
+  const dbName = target.database;
 
-    for (const [fieldPath, type] of fields) {
-      if (!fieldStats.has(fieldPath)) {
-        fieldStats.set(fieldPath, new Map());
-      }
+  const effectiveSampleSize = applySampleSize(
+    sampleSize,
+    access.limits.maxSampleSize
+  );
 
-      const typeCounts = fieldStats.get(fieldPath)!;
-      typeCounts.set(type, (typeCounts.get(type) || 0) + 1);
-    }
-  }
-
-  // Build schema result with percentages
-  const schema: SchemaResult = {};
+  const { sampled, schema, tree } = await sampleSchema(target, collection, {
+    sampleSize: effectiveSampleSize,
+    maxTimeMS: access.limits.maxTimeMS,
+  });
 
-  for (const [fieldPath, typeCounts] of fieldStats) {
-    const types = Array.from(typeCounts.keys()).sort();
-    const totalOccurrences = Array.from(typeCounts.values()).reduce(
-      (a, b) => a + b,
-      0
-    );
-    const percentage = Math.round((totalOccurrences / totalDocs) * 100);
+  const structured = {
+    database: dbName,
+    collection,
+    sampled,
+    // Stats hold BSON values (ObjectId, Decimal128, ...)
+    fields: EJSON.serialize(schema, { relaxed: true }),
+  };
 
-    schema[fieldPath] = { types, percentage };
+  if (sampled === 0) {
+    return {
+      content: [
+        textContent(
+          `Collection "${dbName}.${collection}" is empty or does not exist`
+        ),
+      ],
+      structuredContent: structured,
+    };
   }
 
-  return schema;
-}
+  const description = `"${dbName}.${collection}" (sampled ${sampled} document${
+    sampled === 1 ? "" : "s"
+  })`;
 
-/**
- * Format schema for display.
- */
-function formatSchema(schema: SchemaResult): string {
-  const lines: string[] = [];
-
-  // Sort fields: top-level first, then nested
-  const sortedFields = Object.keys(schema).sort((a, b) => {
-    const aDepth = a.split(".").length;
-    const bDepth = b.split(".").length;
-    if (aDepth !== bDepth) return aDepth - bDepth;
-    return a.localeCompare(b);
-  });
+  if (output === "json-schema") {
+    const jsonSchema = { $jsonSchema: toJsonSchema(tree) };
 
-  for (const field of sortedFields) {
-    const { types, percentage } = schema[field];
-    const indent = "  ".repeat(field.split(".").length - 1);
-    const fieldName = field.includes(".") ? field.split(".").pop() : field;
-    lines.push(`${indent}${fieldName}: ${types.join(" | ")} (${percentage}%)`);
+    return {
+      content: [
+        textContent(`JSON Schema for ${description}:`),
+        textContent(serialize(jsonSchema)),
+      ],
+      structuredContent: {
+        ...structured,
+        jsonSchema: EJSON.serialize(jsonSchema, { relaxed: true }),
+      },
+    };
   }
 
-  return lines.join("\n");
-}
-
-export async function collectionSchemaTool(args: CollectionSchemaArgs) {
-  const { collection, sampleSize } = args;
-
-  const db = await getDatabase();
-  const dbName = getDatabaseName();
-
-  const effectiveSampleSize = applySampleSize(sampleSize);
-
-  const pipeline = [{ $sample: { size: effectiveSampleSize } }];
-
-  const documents = await db
-    .collection(collection)
-    .aggregate(pipeline, {
-      maxTimeMS: SECURITY_LIMITS.maxTimeMS,
-    })
-    .toArray();
+  if (output === "typescript") {
+    const typescript = toTypeScript(tree, collection);
 
-  if (documents.length === 0) {
     return {
       content: [
-        textContent(
-          `Collection "${dbName}.${collection}" is empty or does not exist`
-        ),
+        textContent(`TypeScript definition for ${description}:`),
+        textContent(typescript),
       ],
+      structuredContent: { ...structured, typescript },
     };
   }
 
-  const schema = inferSchema(documents);
   const fieldCount = Object.keys(schema).length;
   const formattedSchema = formatSchema(schema);
 
   return {
     content: [
       textContent(
-        `Schema for "${dbName}.${collection}" (sampled ${
-          documents.length
-        } document${documents.length === 1 ? "" : "s"}, ${fieldCount} field${
+        `Schema for "${dbName}.${collection}" (sampled ${sampled} document${
+          sampled === 1 ? "" : "s"
+        }, ${fieldCount} field${
           fieldCount === 1 ? "" : "s"
         }):\n\n${formattedSchema}`
       ),
     ],
+    structuredContent: structured,
   };
 }
@@ -0,0 +1,472 @@
+import { z } from "zod";
+import { EJSON, type Document } from "bson";
+import type { Collection } from "mongodb";
+import { getDatabase } from "../client";
+import { resolveTarget, targetShape } from "../dataSources";
+import { cacheShape } from "../queryCache";
+import { textContent } from "../serializer";
+import { formatBytes } from "../budget";
+import {
+  getAggregationRedactionRules,
+  getRedactionRules,
+  isRedacted,
+} from "../redaction";
+import { formatIndexKey } from "../indexAdvisor";
+import { getIndexes } from "./listIndexes";
+import { COLLECTION_TYPES, type CollectionType } from "./listCollections";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  isCollectionAllowed,
+  type ToolExtra,
+} from "../access";
+
+export const collectionStatsSchema = z.object({
+  collection: z.string().min(1).describe("Collection or view name"),
+  ...cacheShape,
+  ...targetShape,
+});
+
+export type CollectionStatsArgs = z.infer<typeof collectionStatsSchema>;
+
+export const collectionStatsOutputSchema = z.object({
+  exists: z.boolean().describe("False if the collection does not exist"),
+  type: z.enum(COLLECTION_TYPES).optional(),
+  storage: z
+    .object({
+      count: z.number().describe("Documents"),
+      size: z.number().describe("Uncompressed data size in bytes"),
+      avgDocumentSize: z.number().describe("Average document size in bytes"),
+      storageSize: z.number().describe("Bytes allocated on disk for data"),
+      totalIndexSize: z.number().describe("Bytes on disk for all indexes"),
+      indexSizes: z.record(z.number()).describe("Bytes on disk per index"),
+    })
+    .optional()
+    .describe("From $collStats; missing for views or when unavailable"),
+  capped: z
+    .object({
+      maxBytes: z.number().optional(),
+      maxDocuments: z.number().optional(),
+    })
+    .optional()
+    .describe("Present for capped collections"),
+  ttl: z
+    .array(
+      z.object({
+        index: z.string(),
+        key: z.record(z.unknown()),
+        expireAfterSeconds: z.number(),
+      })
+    )
+    .optional()
+    .describe("TTL indexes"),
+  validator: z
+    .object({
+      rules: z
+        .record(z.unknown())
+        .optional()
+        .describe("Missing when the rules involve redacted fields"),
+      fields: z
+        .array(z.string())
+        .optional()
+        .describe("Fields the rules cover, when the rules are left out"),
+      level: z.string().optional(),
+      action: z.string().optional(),
+    })
+    .optional()
+    .describe("Schema validation rules, as Extended JSON"),
+  timeseries: z
+    .object({
+      timeField: z.string(),
+      metaField: z.string().optional(),
+      granularity: z.string().optional(),
+      bucketMaxSpanSeconds: z.number().optional(),
+      expireAfterSeconds: z.number().optional(),
+      bucketCount: z.number().optional(),
+    })
+    .optional(),
+  view: z
+    .object({
+      viewOn: z.string(),
+      pipeline: z
+        .array(z.record(z.unknown()))
+        .optional()
+        .describe(
+          "Missing when it reads redacted fields or a collection this key may not read"
+        ),
+    })
+    .optional(),
+  statsAvailable: z
+    .boolean()
+    .describe("False if the connection user may not run $collStats"),
+});
+
+type CollectionStatsOutput = z.infer<typeof collectionStatsOutputSchema>;
+
+/**
+ * Read and sum the storage stats of a collection from $collStats. Through
+ * mongos each shard reports separately. Returns null if the connection
+ * user may not run $collStats.
+ */
+async function getStorageStats(
+  collection: Collection,
+  maxTimeMS: number
+): Promise<{
+  storage: NonNullable<CollectionStatsOutput["storage"]>;
+  bucketCount?: number;
+} | null> {
+  let shards: Document[];
+  try {
+    shards = await collection
+      .aggregate([{ $collStats: { storageStats: {} } }], { maxTimeMS })
+      .toArray();
+  } catch (error) {
+    console.error("Reading $collStats failed:", error);
+    return null;
+  }
+
+  const storage = {
+    count: 0,
+    size: 0,
+    avgDocumentSize: 0,
+    storageSize: 0,
+    totalIndexSize: 0,
+    indexSizes: {} as Record<string, number>,
+  };
+  let bucketCount: number | undefined;
+
+  for (const { storageStats: stats = {} } of shards) {
+    storage.count += Number(stats.count ?? 0);
+    storage.size += Number(stats.size ?? 0);
+    storage.storageSize += Number(stats.storageSize ?? 0);
+    storage.totalIndexSize += Number(stats.totalIndexSize ?? 0);
+
+    for (const [name, size] of Object.entries(stats.indexSizes ?? {})) {
+      storage.indexSizes[name] = (storage.indexSizes[name] ?? 0) + Number(size);
+    }
+
+    if (stats.timeseries?.bucketCount !== undefined) {
+      bucketCount = (bucketCount ?? 0) + Number(stats.timeseries.bucketCount);
+    }
+  }
+
+  storage.avgDocumentSize =
+    storage.count > 0 ? Math.round(storage.size / storage.count) : 0;
+
+  return { storage, bucketCount };
+}
+
+/**
+ * Get a view's pipeline, unless the caller may not read what it's based
+ * on or it reads redacted fields, which could reveal their values.
+ */
+function getViewPipeline(
+  viewOn: string,
+  pipeline: Document[],
+  access: ReturnType<typeof getAccessPolicy>
+): Document[] | undefined {
+  if (!isCollectionAllowed(access, viewOn)) {
+    return undefined;
+  }
+
+  try {
+    getAggregationRedactionRules(viewOn, pipeline as Record<string, unknown>[]);
+  } catch {
+    return undefined;
+  }
+
+  return pipeline;
+}
+
+/** $jsonSchema keywords holding subschemas that apply to the same field */
+const SCHEMA_COMBINATORS = ["allOf", "anyOf", "oneOf", "not", "items"];
+
+/**
+ * Collect the fields a $jsonSchema describes, e.g. { properties: { a: {
+ * properties: { b: ... } } } } -> a, a.b. Schemas that match fields by
+ * pattern or constrain any other field report "".
+ */
+function getSchemaFields(schema: unknown, prefix: string): string[] {
+  if (Array.isArray(schema)) {
+    return schema.flatMap((item) => getSchemaFields(item, prefix));
+  }
+
+  if (schema === null || typeof schema !== "object") {
+    return [];
+  }
+
+  const join = (name: string) => (prefix ? `${prefix}.${name}` : name);
+  const {
+    properties,
+    required,
+    patternProperties,
+    additionalProperties,
+    dependencies,
+  } = schema as Record<string, unknown>;
+  const fields: string[] = [];
+
+  if (properties !== null && typeof properties === "object") {
+    for (const [name, property] of Object.entries(properties)) {
+      fields.push(join(name), ...getSchemaFields(property, join(name)));
+    }
+  }
+  if (Array.isArray(required)) {
+    fields.push(...required.map(String).map(join));
+  }
+  if (dependencies !== null && typeof dependencies === "object") {
+    fields.push(...Object.keys(dependencies).map(join));
+  }
+  if (
+    patternProperties !== undefined ||
+    (additionalProperties !== null && typeof additionalProperties === "object")
+  ) {
+    fields.push("");
+  }
+
+  for (const keyword of SCHEMA_COMBINATORS) {
+    fields.push(
+      ...getSchemaFields((schema as Record<string, unknown>)[keyword], prefix)
+    );
+  }
+
+  return fields;
+}
+
+/**
+ * Collect the fields a validator checks: query keys, including inside
+ * $and, $or and $nor, and the fields of its $jsonSchema. $expr, $where
+ * and $text read fields that can't be told from the validator, reported
+ * as "".
+ */
+function getValidatorFields(validator: unknown): string[] {
+  if (Array.isArray(validator)) {
+    return validator.flatMap(getValidatorFields);
+  }
+
+  if (validator === null || typeof validator !== "object") {
+    return [];
+  }
+
+  return Object.entries(validator).flatMap(([key, value]) => {
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      return getValidatorFields(value);
+    }
+    if (key === "$jsonSchema") {
+      return getSchemaFields(value, "");
+    }
+    return key.startsWith("$") ? [""] : [key];
+  });
+}
+
+/**
+ * Describe a validator. Its rules are left out when they involve redacted
+ * fields, since enums, patterns and literals would reveal their values;
+ * only the names of the fields it covers are given then.
+ */
+function describeValidator(
+  collection: string,
+  options: Document
+): NonNullable<CollectionStatsOutput["validator"]> {
+  const {
+    validator,
+    validationLevel: level,
+    validationAction: action,
+  } = options;
+  const rules = getRedactionRules(collection);
+
+  if (Object.keys(rules).length > 0) {
+    const fields = getValidatorFields(validator);
+    if (fields.some((field) => field === "" || isRedacted(field, rules))) {
+      return {
+        fields: [...new Set(fields.filter(Boolean))],
+        level,
+        action,
+      };
+    }
+  }
+
+  return { rules: toExtendedJson(validator), level, action };
+}
+
+function toExtendedJson(value: Document): Record<string, unknown> {
+  return EJSON.serialize(value, { relaxed: true });
+}
+
+function describeStats(name: string, stats: CollectionStatsOutput): string {
+  const lines = [
+    `"${name}" is a ${stats.type === "timeseries" ? "time-series collection" : stats.type}`,
+  ];
+
+  if (stats.view) {
+    lines.push(`View on "${stats.view.viewOn}"`);
+    lines.push(
+      stats.view.pipeline
+        ? `Pipeline: ${EJSON.stringify(stats.view.pipeline, { relaxed: true })}`
+        : "Pipeline: hidden (it reads redacted fields or a collection this API key may not read)"
+    );
+  }
+
+  if (stats.storage) {
+    const { storage } = stats;
+    lines.push(
+      `Documents: ${storage.count.toLocaleString()} (average ${formatBytes(storage.avgDocumentSize)})`,
+      `Data size: ${formatBytes(storage.size)} (${formatBytes(storage.storageSize)} on disk)`,
+      `Indexes: ${formatBytes(storage.totalIndexSize)} total`
+    );
+    for (const [index, size] of Object.entries(storage.indexSizes)) {
+      lines.push(`  - ${index}: ${formatBytes(size)}`);
+    }
+  } else if (stats.type !== "view") {
+    lines.push(
+      "Storage stats are unavailable: the connection user may not run $collStats."
+    );
+  }
+
+  if (stats.capped) {
+    const limits = [
+      stats.capped.maxBytes !== undefined
+        ? formatBytes(stats.capped.maxBytes)
+        : undefined,
+      stats.capped.maxDocuments !== undefined
+        ? `${stats.capped.maxDocuments.toLocaleString()} documents`
+        : undefined,
+    ].filter(Boolean);
+    lines.push(`Capped at ${limits.join(" or ")}`);
+  }
+
+  for (const ttl of stats.ttl ?? []) {
+    lines.push(
+      `TTL: documents expire ${ttl.expireAfterSeconds}s after ${formatIndexKey(ttl.key)} (index ${ttl.index})`
+    );
+  }
+
+  if (stats.timeseries) {
+    const { timeseries } = stats;
+    const options = [
+      `time field "${timeseries.timeField}"`,
+      timeseries.metaField ? `meta field "${timeseries.metaField}"` : "",
+      timeseries.granularity ? `granularity ${timeseries.granularity}` : "",
+      timeseries.bucketMaxSpanSeconds !== undefined
+        ? `buckets span up to ${timeseries.bucketMaxSpanSeconds}s`
+        : "",
+      timeseries.expireAfterSeconds !== undefined
+        ? `expires after ${timeseries.expireAfterSeconds}s`
+        : "",
+      timeseries.bucketCount !== undefined
+        ? `${timeseries.bucketCount.toLocaleString()} buckets`
+        : "",
+    ].filter(Boolean);
+    lines.push(`Time series: ${options.join(", ")}`);
+  }
+
+  if (stats.validator) {
+    const { validator } = stats;
+    const rules = validator.rules
+      ? JSON.stringify(validator.rules)
+      : `rules on ${validator.fields?.join(", ") || "computed fields"} left out because they involve redacted fields`;
+    lines.push(
+      `Validator (${validator.level ?? "strict"}, ${validator.action ?? "error"}): ${rules}`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+export async function collectionStatsTool(
+  args: CollectionStatsArgs,
+  extra: ToolExtra
+) {
+  const { collection } = args;
+
+  const access = getAccessPolicy(extra, collection);
+  assertToolAllowed(access, "collection-stats");
+  assertCollectionsAllowed(access, [collection]);
+
+  const target = resolveTarget(args, access);
+  const db = await getDatabase(target);
+  const dbName = target.database;
+
+  const [info] = await db
+    .listCollections({ name: collection }, { nameOnly: false })
+    .toArray();
+
+  if (!info) {
+    return {
+      content: [
+        textContent(`Collection "${dbName}.${collection}" does not exist`),
+      ],
+      structuredContent: { exists: false, statsAvailable: false },
+    };
+  }
+
+  const type: CollectionType =
+    info.type === "view" || info.type === "timeseries"
+      ? info.type
+      : "collection";
+  const options: Document = info.options ?? {};
+  const result: CollectionStatsOutput = {
+    exists: true,
+    type,
+    statsAvailable: false,
+  };
+
+  if (type === "view") {
+    result.view = {
+      viewOn: options.viewOn,
+      pipeline: getViewPipeline(
+        options.viewOn,
+        options.pipeline ?? [],
+        access
+      )?.map(toExtendedJson),
+    };
+  } else {
+    const coll = db.collection(collection);
+    const [stats, indexes] = await Promise.all([
+      getStorageStats(coll, access.limits.maxTimeMS),
+      getIndexes(coll),
+    ]);
+
+    result.statsAvailable = stats !== null;
+    result.storage = stats?.storage;
+
+    if (options.capped) {
+      result.capped = { maxBytes: options.size, maxDocuments: options.max };
+    }
+
+    const ttl = (indexes ?? [])
+      .filter((index) => index.expireAfterSeconds !== undefined)
+      .map((index) => ({
+        index: index.name,
+        key: index.key,
+        expireAfterSeconds: index.expireAfterSeconds as number,
+      }));
+    if (ttl.length > 0) {
+      result.ttl = ttl;
+    }
+
+    if (options.timeseries) {
+      result.timeseries = {
+        timeField: options.timeseries.timeField,
+        metaField: options.timeseries.metaField,
+        granularity: options.timeseries.granularity,
+        bucketMaxSpanSeconds: options.timeseries.bucketMaxSpanSeconds,
+        expireAfterSeconds: options.expireAfterSeconds,
+        bucketCount: stats?.bucketCount,
+      };
+    }
+  }
+
+  if (options.validator && Object.keys(options.validator).length > 0) {
+    result.validator = describeValidator(collection, options);
+  }
+
+  return {
+    content: [
+      textContent(
+        `Stats of "${dbName}.${collection}":\n${describeStats(collection, result)}`
+      ),
+    ],
+    structuredContent: result,
+  };
+}
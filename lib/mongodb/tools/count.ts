@@ -1,7 +1,17 @@
 import { z } from "zod";
-import { getDatabase, getDatabaseName } from "../client";
-import { validateFilter, SECURITY_LIMITS } from "../security";
+import { getDatabase } from "../client";
+import { resolveTarget, targetShape } from "../dataSources";
+import { cacheShape } from "../queryCache";
+import { validateFilter } from "../security";
 import { textContent } from "../serializer";
+import { checkCollectionScan, getQueryOptions } from "../governor";
+import { assertFilterNotRedacted, getRedactionRules } from "../redaction";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  type ToolExtra,
+} from "../access";
 
 export const countSchema = z.object({
   collection: z.string().min(1).describe("Collection name"),
@@ -12,22 +22,41 @@ export const countSchema = z.object({
     .describe(
       "Query filter to count matching documents. Example: { status: 'active' }"
     ),
+  ...cacheShape,
+  ...targetShape,
 });
 
 export type CountArgs = z.infer<typeof countSchema>;
 
-export async function countTool(args: CountArgs) {
+export const countOutputSchema = z.object({
+  count: z.number().int().describe("Number of matching documents"),
+});
+
+export async function countTool(args: CountArgs, extra: ToolExtra) {
   const { collection, filter } = args;
 
+  const access = getAccessPolicy(extra, collection);
+  assertToolAllowed(access, "count");
+  assertCollectionsAllowed(access, [collection]);
+
   // Validate filter for prohibited operators
   validateFilter(filter);
+  assertFilterNotRedacted(filter, getRedactionRules(collection));
+
+  const target = resolveTarget(args, access);
+  const db = await getDatabase(target);
+  const dbName = target.database;
 
-  const db = await getDatabase();
-  const dbName = getDatabaseName();
+  const coll = db.collection(collection);
 
-  const count = await db.collection(collection).countDocuments(filter, {
-    maxTimeMS: SECURITY_LIMITS.maxTimeMS,
-  });
+  // countDocuments reads the same documents as a find on the filter
+  await checkCollectionScan(coll, access.limits, () =>
+    coll.find(filter).explain("queryPlanner")
+  );
+  const count = await coll.countDocuments(
+    filter,
+    getQueryOptions(access.limits)
+  );
 
   const filterDesc =
     Object.keys(filter).length > 0 ? " matching the filter" : "";
@@ -38,5 +67,6 @@ export async function countTool(args: CountArgs) {
         `Found ${count.toLocaleString()} document${count === 1 ? "" : "s"}${filterDesc} in "${dbName}.${collection}"`
       ),
     ],
+    structuredContent: { count },
   };
 }
@@ -1,12 +1,30 @@
 import { z } from "zod";
-import type { SortDirection } from "mongodb";
-import { getDatabase, getDatabaseName } from "../client";
+import type { ExplainVerbosityLike, SortDirection } from "mongodb";
+import type { Document } from "bson";
+import { getDatabase } from "../client";
+import { resolveTarget, targetShape } from "../dataSources";
+import { cacheShape } from "../queryCache";
+import { validateFilter } from "../security";
+import { validatePipeline } from "../pipeline";
 import {
-  validateFilter,
-  validatePipeline,
-  SECURITY_LIMITS,
-} from "../security";
+  explainGoverned,
+  getQueryOptions,
+  governPipeline,
+  type GovernedExplain,
+} from "../governor";
 import { serialize, textContent } from "../serializer";
+import { getExplainSummary, summarizeExplain } from "../explainPlan";
+import {
+  assertFilterNotRedacted,
+  getAggregationRedactionRules,
+  getRedactionRules,
+} from "../redaction";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  type ToolExtra,
+} from "../access";
 
 const findArgsSchema = z.object({
   filter: z.record(z.unknown()).optional().default({}),
@@ -29,53 +47,135 @@ export const explainSchema = z.object({
     .describe(
       "Arguments for the operation. For find: { filter?, projection?, sort?, limit? }. For aggregate: { pipeline: [...] }"
     ),
+  verbosity: z
+    .enum(["summary", "queryPlanner", "executionStats", "allPlansExecution"])
+    .optional()
+    .default("summary")
+    .describe(
+      "summary (default) analyzes the plan and flags problems. The other values return the raw explain output of that verbosity, which can be very long"
+    ),
+  ...cacheShape,
+  ...targetShape,
 });
 
 export type ExplainArgs = z.infer<typeof explainSchema>;
 
-export async function explainTool(args: ExplainArgs) {
-  const { collection, operation, operationArgs } = args;
+export const explainOutputSchema = z.object({
+  totals: z
+    .object({
+      keysExamined: z.number(),
+      docsExamined: z.number(),
+      returned: z.number(),
+      executionTimeMs: z.number(),
+    })
+    .nullable()
+    .describe("Execution totals, or null without execution stats"),
+  collectionScan: z.boolean().describe("True if a winning plan has a COLLSCAN"),
+  indexes: z.array(z.string()).describe("Indexes the winning plans use"),
+  plans: z
+    .array(
+      z.object({
+        shard: z.string().optional(),
+        winningPlan: z.string().describe("Stages, leaf first"),
+        rejectedPlans: z.array(z.string()),
+      })
+    )
+    .describe("One query plan per shard, or a single one"),
+  issues: z.array(z.string()).describe("Likely performance problems"),
+  executionSkipped: z
+    .string()
+    .optional()
+    .describe(
+      "Why the query wasn't executed for stats (it would scan too large a collection)"
+    ),
+});
+
+export async function explainTool(args: ExplainArgs, extra: ToolExtra) {
+  const { collection, operation, operationArgs, verbosity } = args;
 
-  const db = await getDatabase();
-  const dbName = getDatabaseName();
+  const access = getAccessPolicy(extra, collection);
+  assertToolAllowed(access, "explain");
+  assertCollectionsAllowed(access, [collection]);
 
-  let explainResult: unknown;
+  const target = resolveTarget(args, access);
+  const db = await getDatabase(target);
+  const dbName = target.database;
+
+  // The summary is built from execution stats
+  const explainVerbosity: ExplainVerbosityLike =
+    verbosity === "summary" ? "executionStats" : verbosity;
+
+  const coll = db.collection(collection);
+  let governed: GovernedExplain;
 
   if (operation === "find") {
     const findArgs = findArgsSchema.parse(operationArgs);
 
     // Validate filter for prohibited operators
     validateFilter(findArgs.filter);
+    // Execution stats count matches, so redacted fields can't be matched on
+    assertFilterNotRedacted(findArgs.filter, getRedactionRules(collection));
 
-    explainResult = await db
-      .collection(collection)
-      .find(findArgs.filter, {
-        projection: findArgs.projection,
-        sort: findArgs.sort as Record<string, SortDirection>,
-        limit: findArgs.limit,
-        maxTimeMS: SECURITY_LIMITS.maxTimeMS,
-      })
-      .explain("executionStats");
+    governed = await explainGoverned(
+      coll,
+      access.limits,
+      explainVerbosity,
+      (level) =>
+        coll
+          .find(findArgs.filter, {
+            projection: findArgs.projection,
+            sort: findArgs.sort as Record<string, SortDirection>,
+            limit: findArgs.limit,
+            ...getQueryOptions(access.limits),
+          })
+          .explain(level)
+    );
   } else {
     const aggArgs = aggregateArgsSchema.parse(operationArgs);
 
-    // Validate pipeline for prohibited stages
-    validatePipeline(aggArgs.pipeline);
+    // Allow-listed stages and operators only, on collections the key may read
+    validatePipeline(aggArgs.pipeline, access);
+    // Reject pipelines that read redacted fields, as aggregate does
+    getAggregationRedactionRules(collection, aggArgs.pipeline);
 
-    explainResult = await db
-      .collection(collection)
-      .aggregate(aggArgs.pipeline, {
-        maxTimeMS: SECURITY_LIMITS.maxTimeMS,
-      })
-      .explain("executionStats");
+    const governedPipeline = governPipeline(aggArgs.pipeline, access.limits);
+    governed = await explainGoverned(
+      coll,
+      access.limits,
+      explainVerbosity,
+      (level) =>
+        coll
+          .aggregate(governedPipeline, getQueryOptions(access.limits))
+          .explain(level)
+    );
+  }
+
+  const { explain: explainResult, executionSkipped } = governed;
+  const skippedNote = executionSkipped ? `\n\n${executionSkipped}` : "";
+
+  // Plain object copy for structured content
+  const summary = { ...getExplainSummary(explainResult), executionSkipped };
+
+  if (verbosity === "summary") {
+    return {
+      content: [
+        textContent(
+          `Execution plan for ${operation} on "${dbName}.${collection}":${skippedNote}\n\n${summarizeExplain(
+            explainResult
+          )}`
+        ),
+      ],
+      structuredContent: summary,
+    };
   }
 
   return {
     content: [
       textContent(
-        `Execution plan for ${operation} on "${dbName}.${collection}":`
+        `Execution plan for ${operation} on "${dbName}.${collection}" (${verbosity}):${skippedNote}`
       ),
-      textContent(serialize(explainResult as Record<string, unknown>)),
+      textContent(serialize(explainResult)),
     ],
+    structuredContent: summary,
   };
 }
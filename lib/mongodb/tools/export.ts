@@ -0,0 +1,166 @@
+import { z } from "zod";
+import { resolveTarget, targetShape } from "../dataSources";
+import { formatBytes } from "../budget";
+import { textContent } from "../serializer";
+import { ValidationError } from "../security";
+import { checkCollectionScan } from "../governor";
+import { getConfig } from "../config";
+import {
+  checkExportQuery,
+  createExportLink,
+  EXPORT_FORMATS,
+  openExportCursor,
+  type ExportQuery,
+} from "../export";
+import { getAccessPolicy, type ToolExtra } from "../access";
+
+export const exportSchema = z.object({
+  collection: z.string().min(1).describe("Collection name"),
+  filter: z
+    .record(z.unknown())
+    .optional()
+    .describe(
+      "Query filter matching MongoDB query syntax. Example: { status: 'active' }"
+    ),
+  projection: z
+    .record(z.union([z.number(), z.boolean()]))
+    .optional()
+    .describe("Fields to include/exclude. Example: { name: 1, _id: 0 }"),
+  sort: z
+    .record(z.union([z.literal(1), z.literal(-1)]))
+    .optional()
+    .describe("Sort order. Example: { createdAt: -1 } for descending"),
+  pipeline: z
+    .array(z.record(z.unknown()))
+    .min(1)
+    .optional()
+    .describe(
+      "Aggregation pipeline to export the output of, instead of filter, projection and sort"
+    ),
+  format: z
+    .enum(EXPORT_FORMATS)
+    .optional()
+    .default("ndjson")
+    .describe(
+      "File format: ndjson (one relaxed Extended JSON document per line), csv (one row per document, nested fields as dotted columns) or ejson (an array of canonical Extended JSON documents, preserving every BSON type)"
+    ),
+  columns: z
+    .array(z.string().min(1))
+    .min(1)
+    .optional()
+    .describe(
+      "Dotted field paths to use as CSV columns, in order. Defaults to the fields of the first documents"
+    ),
+  ...targetShape,
+});
+
+export type ExportArgs = z.infer<typeof exportSchema>;
+
+export const exportOutputSchema = z.object({
+  url: z.string().describe("Download link for the result"),
+  expiresAt: z.string().describe("When the link stops working (ISO 8601)"),
+  format: z.enum(EXPORT_FORMATS),
+  maxRows: z.number().describe("Documents the download stops at"),
+  maxBytes: z.number().describe("Bytes the download stops at"),
+});
+
+function firstHeader(
+  headers: Record<string, string | string[] | undefined>,
+  name: string
+): string | undefined {
+  const value = headers[name];
+  // Proxies append to forwarded headers; the first entry is the client's
+  return (Array.isArray(value) ? value[0] : value)?.split(",")[0].trim();
+}
+
+/**
+ * Get the origin export links point to: EXPORT_BASE_URL, or the origin the
+ * MCP request was sent to.
+ */
+function getBaseUrl(extra: ToolExtra): string {
+  if (process.env.EXPORT_BASE_URL) {
+    return process.env.EXPORT_BASE_URL;
+  }
+
+  const headers = extra.requestInfo?.headers ?? {};
+  const host =
+    firstHeader(headers, "x-forwarded-host") ?? firstHeader(headers, "host");
+
+  if (!host) {
+    throw new Error(
+      "EXPORT_BASE_URL environment variable is not set and the request has no Host header (required for export links)"
+    );
+  }
+
+  const protocol =
+    firstHeader(headers, "x-forwarded-proto") ??
+    (/^(localhost|127\.0\.0\.1)(:|$)/.test(host) ? "http" : "https");
+
+  return `${protocol}://${host}`;
+}
+
+export async function exportTool(args: ExportArgs, extra: ToolExtra) {
+  const { collection, filter, projection, sort, pipeline, format, columns } =
+    args;
+
+  if (pipeline && (filter || projection || sort)) {
+    throw new ValidationError(
+      "Pass either a pipeline or filter, projection and sort, not both"
+    );
+  }
+
+  if (columns && format !== "csv") {
+    throw new ValidationError('columns only apply to the "csv" format');
+  }
+
+  const access = getAccessPolicy(extra, collection);
+
+  const target = resolveTarget(args, access);
+  const query: ExportQuery = pipeline
+    ? { ...target, collection, pipeline }
+    : { ...target, collection, filter: filter ?? {}, projection, sort };
+
+  checkExportQuery(access, query);
+  const request = { query, format, columns };
+
+  // Explain the query the link will run, without running it
+  const { maxRows, ttlSeconds } = getConfig().export;
+  const { collection: coll, cursor } = await openExportCursor(
+    access,
+    request,
+    maxRows
+  );
+  try {
+    await checkCollectionScan(coll, access.limits, () =>
+      cursor.explain("queryPlanner")
+    );
+  } finally {
+    await cursor.close();
+  }
+
+  const link = createExportLink(access.name, request, getBaseUrl(extra));
+
+  const validFor =
+    ttlSeconds < 120
+      ? `${ttlSeconds} seconds`
+      : `${Math.round(ttlSeconds / 60)} minutes`;
+
+  return {
+    content: [
+      textContent(
+        `Export of "${target.database}.${collection}" as ${format.toUpperCase()}: ${link.url}\n\n` +
+          `The link expires at ${link.expiresAt.toISOString()} (valid for ${validFor}). ` +
+          `It downloads at most ${link.maxRows.toLocaleString()} documents or ${formatBytes(link.maxBytes)}, ` +
+          `with redacted fields hidden. The query runs when the link is opened. ` +
+          `Share the link with whoever needs the file rather than fetching it here.`
+      ),
+    ],
+    structuredContent: {
+      url: link.url,
+      expiresAt: link.expiresAt.toISOString(),
+      format,
+      maxRows: link.maxRows,
+      maxBytes: link.maxBytes,
+    },
+  };
+}
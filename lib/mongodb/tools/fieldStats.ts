@@ -0,0 +1,553 @@
+import { z } from "zod";
+import { EJSON, type Document } from "bson";
+import { MongoServerError } from "mongodb";
+import { getDatabase } from "../client";
+import { resolveTarget, targetShape } from "../dataSources";
+import { cacheShape } from "../queryCache";
+import { validateFilter, ValidationError } from "../security";
+import { validatePipeline } from "../pipeline";
+import { checkCollectionScan, getQueryOptions, runGoverned } from "../governor";
+import {
+  formatShape,
+  getReadOptions,
+  serializeDocuments,
+  textContent,
+  type OutputFormat,
+} from "../serializer";
+import {
+  assertNotRedacted,
+  getAggregationRedactionRules,
+  getRedactionRules,
+} from "../redaction";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  type ToolExtra,
+} from "../access";
+
+export const fieldStatsSchema = z.object({
+  collection: z.string().min(1).describe("Collection name"),
+  field: z.string().min(1).describe("Field path, e.g. status or address.city"),
+  filter: z
+    .record(z.unknown())
+    .optional()
+    .default({})
+    .describe(
+      "Query filter to restrict the documents analyzed. Example: { createdAt: { $gte: { $date: '2024-01-01T00:00:00Z' } } }"
+    ),
+  topK: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .default(20)
+    .describe("Number of most common values to list (default: 20, max: 100)"),
+  buckets: z
+    .number()
+    .int()
+    .min(2)
+    .max(50)
+    .optional()
+    .default(10)
+    .describe(
+      "Number of histogram buckets for numbers and dates (default: 10, max: 50)"
+    ),
+  format: formatShape.format.describe(
+    "Output format of the value list and histograms: ejson-relaxed, ejson-canonical, jsonl, csv or markdown. Defaults to an indented list"
+  ),
+  ...cacheShape,
+  ...targetShape,
+});
+
+export type FieldStatsArgs = z.infer<typeof fieldStatsSchema>;
+
+const rangeOutputSchema = z.object({
+  count: z.number().int(),
+  min: z.unknown(),
+  max: z.unknown(),
+  avg: z.unknown(),
+  percentiles: z
+    .record(z.unknown())
+    .optional()
+    .describe("By percentile, e.g. p50; missing before MongoDB 7.0"),
+  histogram: z.array(
+    z.object({ min: z.unknown(), max: z.unknown(), count: z.number().int() })
+  ),
+});
+
+export const fieldStatsOutputSchema = z.object({
+  total: z.number().int().describe("Documents analyzed"),
+  missing: z.number().int(),
+  null: z.number().int(),
+  types: z.record(z.number().int()).describe("Documents by $type of the field"),
+  numbers: rangeOutputSchema.nullable(),
+  dates: rangeOutputSchema.nullable(),
+  distinct: z
+    .object({
+      count: z.number().int(),
+      values: z.number().int().describe("Strings and other scalars counted"),
+      highCardinality: z
+        .boolean()
+        .describe("True if nearly every value is unique"),
+      top: z.array(z.object({ value: z.unknown(), count: z.number().int() })),
+    })
+    .nullable(),
+});
+
+const PERCENTILES = [0.25, 0.5, 0.75, 0.9, 0.99];
+
+/**
+ * Values are listed only if fewer than this share of them are distinct.
+ * Above it the field looks like an identifier or free text.
+ */
+const HIGH_CARDINALITY_RATIO = 0.9;
+
+const NUMERIC_TYPES = ["double", "int", "long", "decimal"];
+
+interface RangeStats {
+  count: number;
+  min: unknown;
+  max: unknown;
+  avg: number | null;
+  percentiles?: number[];
+}
+
+interface Bucket {
+  _id: { min: unknown; max: unknown };
+  count: number;
+}
+
+interface FieldStatsResult {
+  presence: { _id: string; count: number }[];
+  numbers: RangeStats[];
+  numberHistogram: Bucket[];
+  dates: RangeStats[];
+  dateHistogram: Bucket[];
+  distinct: { count: number; values: number }[];
+  topValues: { _id: unknown; count: number }[];
+}
+
+/**
+ * Turn the counts and averages of stats read without promoteValues back
+ * into numbers. Values (min, max, bounds, top values) keep their BSON types.
+ */
+function promoteCounts(stats: FieldStatsResult): FieldStatsResult {
+  const counted = <T extends { count: number }>(items: T[]) =>
+    items.map((item) => ({ ...item, count: Number(item.count) }));
+  const toRange = (range: RangeStats): RangeStats => ({
+    ...range,
+    count: Number(range.count),
+    avg: range.avg === null ? null : Number(range.avg),
+    percentiles: range.percentiles?.map(Number),
+  });
+
+  return {
+    presence: counted(stats.presence),
+    numbers: stats.numbers.map(toRange),
+    numberHistogram: counted(stats.numberHistogram),
+    dates: stats.dates.map(toRange),
+    dateHistogram: counted(stats.dateHistogram),
+    distinct: stats.distinct.map(({ count, values }) => ({
+      count: Number(count),
+      values: Number(values),
+    })),
+    topValues: counted(stats.topValues),
+  };
+}
+
+function isHighCardinality(
+  distinct: { count: number; values: number },
+  topK: number
+): boolean {
+  return (
+    distinct.count > topK &&
+    distinct.count >= distinct.values * HIGH_CARDINALITY_RATIO
+  );
+}
+
+/**
+ * Convert the statistics to structured content, with BSON values as
+ * relaxed Extended JSON and dates as ISO 8601 strings.
+ */
+function toStructuredStats(stats: FieldStatsResult, topK: number) {
+  const countOf = (type: string) =>
+    stats.presence.find(({ _id }) => _id === type)?.count ?? 0;
+  const toJson = (value: unknown) =>
+    EJSON.serialize({ value }, { relaxed: true }).value;
+  const toRange = (
+    range: RangeStats | undefined,
+    histogram: Bucket[],
+    isDate: boolean
+  ) => {
+    if (!range) {
+      return null;
+    }
+    const convert = (value: unknown) =>
+      isDate && typeof value === "number"
+        ? new Date(value).toISOString()
+        : value instanceof Date
+          ? value.toISOString()
+          : toJson(value);
+
+    return {
+      count: range.count,
+      min: convert(range.min),
+      max: convert(range.max),
+      avg: convert(range.avg),
+      percentiles: range.percentiles
+        ? Object.fromEntries(
+            range.percentiles.map((value, i) => [
+              `p${Math.round(PERCENTILES[i] * 100)}`,
+              convert(value),
+            ])
+          )
+        : undefined,
+      histogram: histogram.map(({ _id, count }) => ({
+        min: convert(_id.min),
+        max: convert(_id.max),
+        count,
+      })),
+    };
+  };
+  const [distinct] = stats.distinct;
+
+  return {
+    total: stats.presence.reduce((sum, { count }) => sum + count, 0),
+    missing: countOf("missing"),
+    null: countOf("null"),
+    types: Object.fromEntries(
+      stats.presence
+        .filter(({ _id }) => _id !== "missing" && _id !== "null")
+        .map(({ _id, count }) => [_id, count])
+    ),
+    numbers: toRange(stats.numbers[0], stats.numberHistogram, false),
+    dates: toRange(stats.dates[0], stats.dateHistogram, true),
+    distinct: distinct
+      ? {
+          count: distinct.count,
+          values: distinct.values,
+          highCardinality: isHighCardinality(distinct, topK),
+          top: stats.topValues.map(({ _id, count }) => ({
+            value: toJson(_id),
+            count,
+          })),
+        }
+      : null,
+  };
+}
+
+function isValidFieldPath(field: string): boolean {
+  return !field.startsWith("$") && field.split(".").every(Boolean);
+}
+
+/**
+ * Build the pipeline computing every statistic in one pass with $facet.
+ * Arrays are unwound so their elements are counted as values.
+ */
+function buildStatsPipeline(
+  field: string,
+  filter: Record<string, unknown>,
+  options: { topK: number; buckets: number; percentiles: boolean }
+): Record<string, unknown>[] {
+  const path = `$${field}`;
+  const unwind = { $unwind: path };
+  const rangeStats = (input: unknown) => ({
+    $group: {
+      _id: null,
+      count: { $sum: 1 },
+      min: { $min: path },
+      max: { $max: path },
+      avg: { $avg: input },
+      ...(options.percentiles && {
+        percentiles: {
+          $percentile: { input, p: PERCENTILES, method: "approximate" },
+        },
+      }),
+    },
+  });
+  const histogram = {
+    $bucketAuto: { groupBy: path, buckets: options.buckets },
+  };
+  const numbers = { $match: { [field]: { $type: NUMERIC_TYPES } } };
+  const dates = { $match: { [field]: { $type: "date" } } };
+  const categorical = {
+    $match: {
+      [field]: {
+        $not: { $type: [...NUMERIC_TYPES, "date", "object", "array"] },
+      },
+    },
+  };
+  const groupValues = { $group: { _id: path, count: { $sum: 1 } } };
+
+  return [
+    { $match: filter },
+    {
+      $facet: {
+        presence: [{ $group: { _id: { $type: path }, count: { $sum: 1 } } }],
+        numbers: [unwind, numbers, rangeStats(path)],
+        numberHistogram: [unwind, numbers, histogram],
+        dates: [unwind, dates, rangeStats({ $toLong: path })],
+        dateHistogram: [unwind, dates, histogram],
+        distinct: [
+          unwind,
+          categorical,
+          groupValues,
+          {
+            $group: {
+              _id: null,
+              count: { $sum: 1 },
+              values: { $sum: "$count" },
+            },
+          },
+        ],
+        topValues: [
+          unwind,
+          categorical,
+          groupValues,
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: options.topK },
+        ],
+      },
+    },
+  ];
+}
+
+/**
+ * Check if an error means the server doesn't support $percentile
+ * (added in MongoDB 7.0).
+ */
+function isPercentileUnsupported(error: unknown): boolean {
+  return (
+    error instanceof MongoServerError && error.message.includes("$percentile")
+  );
+}
+
+function percent(count: number, total: number): string {
+  return `${total === 0 ? 0 : Math.round((count / total) * 1000) / 10}%`;
+}
+
+function formatValue(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  const text = EJSON.stringify(value as Document, { relaxed: true });
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value)
+    ? value.toLocaleString()
+    : value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+}
+
+function formatHistogram(buckets: Bucket[], format?: OutputFormat): string[] {
+  if (format) {
+    const rows = buckets.map(({ _id, count }) => ({ ..._id, count }));
+    return [serializeDocuments(rows, { format })];
+  }
+
+  return buckets.map(({ _id, count }, index) => {
+    const close = index === buckets.length - 1 ? "]" : ")";
+    return `    [${formatValue(_id.min)}, ${formatValue(_id.max)}${close}: ${count.toLocaleString()}`;
+  });
+}
+
+export async function fieldStatsTool(args: FieldStatsArgs, extra: ToolExtra) {
+  const { collection, field, filter, topK, buckets, format } = args;
+
+  const access = getAccessPolicy(extra, collection);
+  assertToolAllowed(access, "field-stats");
+  assertCollectionsAllowed(access, [collection]);
+
+  if (!isValidFieldPath(field)) {
+    throw new ValidationError(
+      `Invalid field path "${field}": use dotted field names without a leading $`
+    );
+  }
+
+  // Validate filter for prohibited operators
+  validateFilter(filter);
+  assertNotRedacted([field], getRedactionRules(collection), "field-stats");
+
+  const target = resolveTarget(args, access);
+  const db = await getDatabase(target);
+  const dbName = target.database;
+
+  const run = async (percentiles: boolean) => {
+    const pipeline = buildStatsPipeline(field, filter, {
+      topK,
+      buckets,
+      percentiles,
+    });
+
+    // Same checks as the aggregate tool, which also cover the filter
+    validatePipeline(pipeline, access);
+    getAggregationRedactionRules(collection, pipeline);
+
+    const coll = db.collection(collection);
+    const query = () =>
+      coll.aggregate<FieldStatsResult>(pipeline, {
+        ...getQueryOptions(access.limits),
+        ...getReadOptions(format),
+      });
+
+    await checkCollectionScan(coll, access.limits, () =>
+      query().explain("queryPlanner")
+    );
+    const [result] = await runGoverned(access.limits, () => query().toArray());
+    return format === "ejson-canonical" ? promoteCounts(result) : result;
+  };
+
+  const notes: string[] = [];
+  let stats: FieldStatsResult;
+  try {
+    stats = await run(true);
+  } catch (error) {
+    if (!isPercentileUnsupported(error)) {
+      throw error;
+    }
+    stats = await run(false);
+    notes.push("Percentiles need MongoDB 7.0 or later.");
+  }
+
+  const total = stats.presence.reduce((sum, { count }) => sum + count, 0);
+  const filterDesc =
+    Object.keys(filter).length > 0 ? " matching the filter" : "";
+  const header = `Stats for "${field}" in "${dbName}.${collection}" over ${total.toLocaleString()} document${
+    total === 1 ? "" : "s"
+  }${filterDesc}`;
+
+  const structuredContent = toStructuredStats(stats, topK);
+
+  if (total === 0) {
+    return { content: [textContent(header)], structuredContent };
+  }
+
+  const lines = [`${header}:`];
+
+  // Presence and types
+  const countOf = (type: string) =>
+    stats.presence.find(({ _id }) => _id === type)?.count ?? 0;
+  const missing = countOf("missing");
+  const nulls = countOf("null");
+  const types = stats.presence
+    .filter(({ _id }) => _id !== "missing" && _id !== "null")
+    .sort((a, b) => b.count - a.count);
+
+  lines.push(
+    "",
+    `Missing: ${missing.toLocaleString()} (${percent(missing, total)})`,
+    `Null: ${nulls.toLocaleString()} (${percent(nulls, total)})`
+  );
+  if (types.length > 0) {
+    lines.push(
+      `Types: ${types
+        .map(({ _id, count }) => `${_id} ${percent(count, total)}`)
+        .join(", ")}`
+    );
+  }
+
+  // Numbers
+  const [numbers] = stats.numbers;
+  if (numbers) {
+    lines.push(
+      "",
+      `Numbers (${numbers.count.toLocaleString()} values):`,
+      `  min ${formatValue(numbers.min)}, max ${formatValue(numbers.max)}, avg ${
+        numbers.avg === null ? "n/a" : formatNumber(numbers.avg)
+      }`
+    );
+    if (numbers.percentiles) {
+      lines.push(
+        `  percentiles: ${numbers.percentiles
+          .map(
+            (value, i) =>
+              `p${Math.round(PERCENTILES[i] * 100)} ${formatNumber(value)}`
+          )
+          .join(", ")}`
+      );
+    }
+    lines.push(
+      "  histogram:",
+      ...formatHistogram(stats.numberHistogram, format)
+    );
+  }
+
+  // Dates
+  const [dates] = stats.dates;
+  if (dates) {
+    lines.push(
+      "",
+      `Dates (${dates.count.toLocaleString()} values):`,
+      `  min ${formatValue(dates.min)}, max ${formatValue(dates.max)}, avg ${
+        dates.avg === null ? "n/a" : new Date(dates.avg).toISOString()
+      }`
+    );
+    if (dates.percentiles) {
+      lines.push(
+        `  percentiles: ${dates.percentiles
+          .map(
+            (value, i) =>
+              `p${Math.round(PERCENTILES[i] * 100)} ${new Date(value).toISOString()}`
+          )
+          .join(", ")}`
+      );
+    }
+    lines.push("  histogram:", ...formatHistogram(stats.dateHistogram, format));
+  }
+
+  // Distinct values
+  const [distinct] = stats.distinct;
+  if (distinct) {
+    const values = stats.topValues;
+    const highCardinality = isHighCardinality(distinct, topK);
+
+    lines.push(
+      "",
+      `Distinct values: ${distinct.count.toLocaleString()} (of ${distinct.values.toLocaleString()} strings, booleans and other scalars)`
+    );
+
+    if (highCardinality) {
+      lines.push(
+        `  High cardinality: nearly every value is unique, so values are not listed. Looks like an identifier or free text; filter on it or group by a derived value instead.`,
+        `  e.g. ${values
+          .slice(0, 3)
+          .map(({ _id }) => formatValue(_id))
+          .join(", ")}`
+      );
+    } else {
+      const shown =
+        values.length < distinct.count ? ` (top ${values.length})` : "";
+      lines.push(`  Most common${shown}:`);
+      if (format) {
+        const rows = values.map(({ _id, count }) => ({
+          value: _id,
+          count,
+          percent: percent(count, distinct.values),
+        }));
+        lines.push(serializeDocuments(rows, { format }));
+      } else {
+        for (const { _id, count } of values) {
+          lines.push(
+            `    ${formatValue(_id)}: ${count.toLocaleString()} (${percent(
+              count,
+              distinct.values
+            )})`
+          );
+        }
+      }
+    }
+  }
+
+  if (notes.length > 0) {
+    lines.push("", ...notes.map((note) => `Note: ${note}`));
+  }
+
+  return {
+    content: [textContent(lines.join("\n"))],
+    structuredContent,
+  };
+}
@@ -1,8 +1,46 @@
 import { z } from "zod";
 import type { SortDirection } from "mongodb";
-import { getDatabase, getDatabaseName } from "../client";
-import { validateFilter, applyLimit, SECURITY_LIMITS } from "../security";
-import { formatDocuments } from "../serializer";
+import { getDatabase } from "../client";
+import { resolveTarget, targetShape } from "../dataSources";
+import { cacheShape } from "../queryCache";
+import {
+  validateFilter,
+  applyLimit,
+  applyResponseBudget,
+  SECURITY_LIMITS,
+} from "../security";
+import { describeOmitted, fitDocuments } from "../budget";
+import {
+  documentsOutputSchema,
+  formatDocuments,
+  formatShape,
+  getReadOptions,
+  toExtendedJson,
+} from "../serializer";
+import { recordInvocation } from "../invocation";
+import { checkCollectionScan, getQueryOptions, runGoverned } from "../governor";
+import {
+  assertFilterNotRedacted,
+  assertNotRedacted,
+  getRedactionRules,
+  isRedacted,
+  redactDocuments,
+} from "../redaction";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  type ToolExtra,
+} from "../access";
+import {
+  buildResumeFilter,
+  decodeCursor,
+  encodeCursor,
+  getSortValues,
+  includeSortFields,
+  stripPaths,
+  withTiebreaker,
+} from "../pagination";
 
 export const findSchema = z.object({
   collection: z.string().min(1).describe("Collection name"),
@@ -31,41 +69,160 @@ export const findSchema = z.object({
     .record(z.union([z.literal(1), z.literal(-1)]))
     .optional()
     .describe("Sort order. Example: { createdAt: -1 } for descending"),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "Continuation token from a previous find with the same collection, filter and sort. Returns the next page."
+    ),
+  ...formatShape,
+  ...cacheShape,
+  ...targetShape,
 });
 
 export type FindArgs = z.infer<typeof findSchema>;
 
-export async function findTool(args: FindArgs) {
-  const { collection, filter, projection, limit, sort } = args;
+export const findOutputSchema = documentsOutputSchema;
+
+export async function findTool(args: FindArgs, extra: ToolExtra) {
+  return runFind("find", args, extra);
+}
+
+/**
+ * Run a find for a tool: find itself, or a query tool built on it (see
+ * query.ts). Access checks and cursors use the tool's name.
+ */
+export async function runFind(tool: string, args: FindArgs, extra: ToolExtra) {
+  const {
+    collection,
+    filter,
+    projection,
+    limit,
+    sort,
+    cursor,
+    format,
+    columns,
+    maxBytes,
+  } = args;
+
+  const access = getAccessPolicy(extra, collection);
+  assertToolAllowed(access, tool);
+  assertCollectionsAllowed(access, [collection]);
 
   // Validate filter for prohibited operators
   validateFilter(filter);
 
-  const db = await getDatabase();
-  const dbName = getDatabaseName();
+  // Matching or sorting on redacted fields would reveal their values, and
+  // sort values end up in the cursor
+  const redactionRules = getRedactionRules(collection);
+  assertFilterNotRedacted(filter, redactionRules);
+  assertNotRedacted(Object.keys(sort ?? {}), redactionRules, "a sort");
 
-  const effectiveLimit = applyLimit(limit);
+  const target = resolveTarget(args, access);
+  const db = await getDatabase(target);
+  const dbName = target.database;
 
-  const cursor = db.collection(collection).find(filter, {
+  const effectiveLimit = applyLimit(limit, access.limits.maxLimit);
+
+  // Sort on _id last so every page boundary is unambiguous
+  const effectiveSort = withTiebreaker(sort);
+  const scope = {
+    tool,
+    source: target.source,
+    db: dbName,
+    collection,
+    filter,
+    sort: effectiveSort,
+  };
+
+  let effectiveFilter = filter;
+  if (cursor) {
+    const resume = buildResumeFilter(
+      effectiveSort,
+      decodeCursor(cursor, scope)
+    );
+    effectiveFilter =
+      Object.keys(filter).length > 0 ? { $and: [filter, resume] } : resume;
+  }
+
+  const { projection: effectiveProjection, hidden } = includeSortFields(
     projection,
-    sort: sort as Record<string, SortDirection>,
-    limit: effectiveLimit,
-    maxTimeMS: SECURITY_LIMITS.maxTimeMS,
+    effectiveSort
+  );
+
+  // Fetch one extra document to know whether another page exists
+  const coll = db.collection(collection);
+  const query = () =>
+    coll.find(effectiveFilter, {
+      projection: effectiveProjection,
+      sort: effectiveSort as Record<string, SortDirection>,
+      limit: effectiveLimit + 1,
+      ...getQueryOptions(access.limits),
+      ...getReadOptions(format),
+    });
+
+  await checkCollectionScan(coll, access.limits, () =>
+    query().explain("queryPlanner")
+  );
+  const documents = await runGoverned(access.limits, () => query().toArray());
+
+  const hasMore = documents.length > effectiveLimit;
+  if (hasMore) {
+    documents.pop();
+  }
+
+  // Hidden sort fields are stripped below, so take the sort keys first
+  const sortValues = documents.map((doc) => getSortValues(doc, effectiveSort));
+
+  for (const doc of documents) {
+    stripPaths(doc, hidden);
+  }
+  redactDocuments(documents, redactionRules);
+
+  // Documents past the response budget are left out and read from the
+  // next page instead
+  const budget = applyResponseBudget(maxBytes, access.limits.maxResponseBytes);
+  const { documents: output, omitted } = fitDocuments(documents, budget, {
+    format,
+    columns,
   });
+  recordInvocation({ documentsReturned: output.length });
+
+  const nextCursor =
+    (hasMore || omitted > 0) &&
+    output.length > 0 &&
+    !isRedacted("_id", redactionRules)
+      ? encodeCursor(scope, sortValues[output.length - 1])
+      : undefined;
 
-  const documents = await cursor.toArray();
+  const notes: string[] = [];
+  if (hasMore) {
+    notes.push(`limited to ${effectiveLimit}`);
+  }
+  if (omitted > 0) {
+    notes.push(describeOmitted(omitted, budget));
+  }
+  if (nextCursor) {
+    notes.push(
+      `more results available, pass cursor "${nextCursor}" to fetch the next page`
+    );
+  }
 
   const message =
     documents.length === 0
       ? `No documents found in "${dbName}.${collection}"`
-      : `Found ${documents.length} document${
-          documents.length === 1 ? "" : "s"
+      : `Found ${output.length} document${
+          output.length === 1 ? "" : "s"
         } in "${dbName}.${collection}"` +
-        (documents.length === effectiveLimit
-          ? ` (limited to ${effectiveLimit})`
-          : "");
+        (notes.length > 0 ? ` (${notes.join("; ")})` : "");
 
   return {
-    content: formatDocuments(message, documents),
+    content: formatDocuments(message, output, { format, columns }),
+    structuredContent: {
+      documents: toExtendedJson(output, format),
+      truncated: hasMore || omitted > 0,
+      omitted,
+      nextCursor,
+    },
   };
 }
@@ -1,49 +1,221 @@
 import { z } from "zod";
-import { getDatabase, getDatabaseName } from "../client";
+import type { Db } from "mongodb";
+import { getDatabase } from "../client";
+import { resolveTarget, targetShape } from "../dataSources";
+import { cacheShape } from "../queryCache";
 import { textContent } from "../serializer";
+import {
+  assertToolAllowed,
+  getAccessPolicy,
+  isCollectionAllowed,
+  type ToolExtra,
+} from "../access";
 
-export const listCollectionsSchema = z.object({});
+export const listCollectionsSchema = z.object({
+  details: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Also report whether each entry is a collection, view or time-series collection, and the estimated document count of collections and time-series collections (the first 200)"
+    ),
+  ...cacheShape,
+  ...targetShape,
+});
 
 export type ListCollectionsArgs = z.infer<typeof listCollectionsSchema>;
 
+export const COLLECTION_TYPES = ["collection", "view", "timeseries"] as const;
+
+export type CollectionType = (typeof COLLECTION_TYPES)[number];
+
+export const listCollectionsOutputSchema = z.object({
+  database: z.string(),
+  collections: z.array(z.string()).describe("Collection names, sorted"),
+  details: z
+    .array(
+      z.object({
+        name: z.string(),
+        type: z.enum(COLLECTION_TYPES),
+        estimatedCount: z
+          .number()
+          .int()
+          .optional()
+          .describe(
+            "Estimated document count, from collection metadata (not for views, nor past the first 200 collections)"
+          ),
+      })
+    )
+    .optional()
+    .describe("Present when details is true"),
+});
+
 /**
  * Check if a collection is a system collection.
  */
-function isSystemCollection(name: string): boolean {
+export function isSystemCollection(name: string): boolean {
   return name.startsWith("system.");
 }
 
-export async function listCollectionsTool(_args: ListCollectionsArgs) {
-  const db = await getDatabase();
-  const dbName = getDatabaseName();
+/** Counts read at the same time */
+const COUNT_CONCURRENCY = 8;
+
+/** Collections counted per call; the rest are listed without a count */
+const MAX_COUNTED_COLLECTIONS = 200;
+
+/**
+ * Get the estimated document count of a collection from its metadata, or
+ * undefined if it can't be read. Time-series collections are counted with
+ * $collStats (summed over shards), since estimatedDocumentCount isn't
+ * supported on them. Views are skipped, since counting them runs their
+ * aggregation.
+ */
+async function getEstimatedCount(
+  db: Db,
+  name: string,
+  type: CollectionType,
+  maxTimeMS: number
+): Promise<number | undefined> {
+  try {
+    switch (type) {
+      case "collection":
+        return await db.collection(name).estimatedDocumentCount({ maxTimeMS });
+      case "timeseries": {
+        const shards = await db
+          .collection(name)
+          .aggregate<{ count?: number }>([{ $collStats: { count: {} } }], {
+            maxTimeMS,
+          })
+          .toArray();
+        return shards.reduce((sum, { count }) => sum + Number(count ?? 0), 0);
+      }
+      case "view":
+        return undefined;
+    }
+  } catch (error) {
+    console.error(`Counting "${name}" failed:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Map items with at most `limit` calls running at once, keeping order.
+ */
+async function mapConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+export async function listCollectionsTool(
+  args: ListCollectionsArgs,
+  extra: ToolExtra
+) {
+  const { details } = args;
+
+  const access = getAccessPolicy(extra);
+  assertToolAllowed(access, "list-collections");
+
+  const target = resolveTarget(args, access);
+  const db = await getDatabase(target);
+  const dbName = target.database;
 
   const collections = await db
-    .listCollections({}, { nameOnly: true })
+    .listCollections({}, { nameOnly: !details })
     .toArray();
 
-  // Filter out system collections
+  // Filter out system collections and those the caller may not read
   const userCollections = collections
-    .map((c) => c.name)
-    .filter((name) => !isSystemCollection(name))
-    .sort();
+    .filter(({ name }) => !isSystemCollection(name))
+    .filter(({ name }) => isCollectionAllowed(access, name))
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  const names = userCollections.map(({ name }) => name);
 
   if (userCollections.length === 0) {
+    return {
+      content: [textContent(`No collections found in database "${dbName}"`)],
+      structuredContent: {
+        database: dbName,
+        collections: [],
+        details: details ? [] : undefined,
+      },
+    };
+  }
+
+  if (!details) {
+    const collectionList = names.map((name) => `  - ${name}`).join("\n");
+
     return {
       content: [
-        textContent(`No collections found in database "${dbName}"`),
+        textContent(
+          `Found ${names.length} collection${names.length === 1 ? "" : "s"} in "${dbName}":\n${collectionList}`
+        ),
       ],
+      structuredContent: { database: dbName, collections: names },
     };
   }
 
-  const collectionList = userCollections
-    .map((name) => `  - ${name}`)
+  const described: {
+    name: string;
+    type: CollectionType;
+    estimatedCount?: number;
+  }[] = userCollections.map((info) => ({
+    name: info.name,
+    type:
+      info.type === "view" || info.type === "timeseries"
+        ? info.type
+        : "collection",
+  }));
+
+  // Count a bounded number of collections, a few at a time
+  const counted = described.slice(0, MAX_COUNTED_COLLECTIONS);
+  const counts = await mapConcurrently(counted, COUNT_CONCURRENCY, (entry) =>
+    getEstimatedCount(db, entry.name, entry.type, access.limits.maxTimeMS)
+  );
+  counted.forEach((entry, index) => {
+    entry.estimatedCount = counts[index];
+  });
+  const uncounted = described.length - counted.length;
+
+  const collectionList = described
+    .map(({ name, type, estimatedCount }) => {
+      const count =
+        estimatedCount === undefined
+          ? ""
+          : `, ~${estimatedCount.toLocaleString()} document${estimatedCount === 1 ? "" : "s"}`;
+      return `  - ${name} (${type}${count})`;
+    })
     .join("\n");
 
   return {
     content: [
       textContent(
-        `Found ${userCollections.length} collection${userCollections.length === 1 ? "" : "s"} in "${dbName}":\n${collectionList}`
+        `Found ${names.length} collection${names.length === 1 ? "" : "s"} in "${dbName}":\n${collectionList}\n\n` +
+          (uncounted > 0
+            ? `Only the first ${MAX_COUNTED_COLLECTIONS} collections were counted; use collection-stats for the other ${uncounted}. `
+            : "") +
+          `Use collection-stats for storage sizes, indexes and options.`
       ),
     ],
+    structuredContent: {
+      database: dbName,
+      collections: names,
+      details: described,
+    },
   };
 }
@@ -0,0 +1,185 @@
+import { z } from "zod";
+import { getMongoClient } from "../client";
+import {
+  getDataSources,
+  isDatabaseAllowed,
+  type DataSource,
+  type Target,
+} from "../dataSources";
+import { textContent } from "../serializer";
+import {
+  assertToolAllowed,
+  getAccessPolicy,
+  isSourceAllowed,
+  isTargetAllowed,
+  type AccessPolicy,
+  type ToolExtra,
+} from "../access";
+
+export const listDatabasesSchema = z.object({});
+
+export type ListDatabasesArgs = z.infer<typeof listDatabasesSchema>;
+
+export const listDatabasesOutputSchema = z.object({
+  sources: z.array(
+    z.object({
+      name: z.string(),
+      default: z.boolean().describe("Used when no source is given"),
+      defaultDatabase: z
+        .string()
+        .optional()
+        .describe("Used when no database is given"),
+      databases: z.array(z.string()),
+      error: z
+        .string()
+        .optional()
+        .describe(
+          "Why the source's databases couldn't be listed; only literal names are shown"
+        ),
+    })
+  ),
+});
+
+type SourceListing = z.infer<
+  typeof listDatabasesOutputSchema
+>["sources"][number];
+
+function isPattern(name: string): boolean {
+  return /[*?]/.test(name);
+}
+
+/**
+ * Keep the databases of a source the caller may use.
+ */
+function filterAllowed(
+  policy: AccessPolicy,
+  source: DataSource,
+  databases: string[]
+): string[] {
+  return databases.filter((database) =>
+    isTargetAllowed(policy, { source: source.name, database })
+  );
+}
+
+/**
+ * List the databases of a source that tools may use.
+ * Glob patterns are expanded against the databases on the server; literal
+ * names are listed as configured.
+ */
+async function listSourceDatabases(source: DataSource): Promise<string[]> {
+  const names = new Set(source.databases.filter((name) => !isPattern(name)));
+
+  if (source.databases.some(isPattern)) {
+    const client = await getMongoClient(source.name);
+    const { databases } = await client
+      .db("admin")
+      .admin()
+      .listDatabases({ nameOnly: true, authorizedDatabases: true });
+
+    for (const { name } of databases) {
+      if (isDatabaseAllowed(source, name)) {
+        names.add(name);
+      }
+    }
+  }
+
+  return [...names].sort();
+}
+
+/**
+ * List every source and database the caller may target. Sources that
+ * can't be listed are logged and left out, so one unreachable source
+ * doesn't hide the others.
+ */
+export async function listTargets(policy: AccessPolicy): Promise<Target[]> {
+  const sources = getDataSources().filter((source) =>
+    isSourceAllowed(policy, source.name)
+  );
+  const results = await Promise.allSettled(sources.map(listSourceDatabases));
+
+  return sources.flatMap((source, index) => {
+    const result = results[index];
+    if (result.status === "rejected") {
+      console.error(
+        `Listing databases of source "${source.name}" failed:`,
+        result.reason
+      );
+      return [];
+    }
+    return filterAllowed(policy, source, result.value).map((database) => ({
+      source: source.name,
+      database,
+    }));
+  });
+}
+
+export async function listDatabasesTool(
+  _args: ListDatabasesArgs,
+  extra: ToolExtra
+) {
+  const access = getAccessPolicy(extra);
+  assertToolAllowed(access, "list-databases");
+
+  const [defaultSource] = getDataSources();
+  const sources = getDataSources().filter((source) =>
+    isSourceAllowed(access, source.name)
+  );
+  const results = await Promise.allSettled(sources.map(listSourceDatabases));
+  const listed = sources.map((source, index): SourceListing => {
+    const result = results[index];
+    const listing = {
+      name: source.name,
+      default: source === defaultSource,
+      defaultDatabase: source.defaultDatabase,
+    };
+
+    if (result.status === "fulfilled") {
+      return {
+        ...listing,
+        databases: filterAllowed(access, source, result.value),
+      };
+    }
+
+    return {
+      ...listing,
+      // Literal names don't need the server
+      databases: filterAllowed(
+        access,
+        source,
+        source.databases.filter((name) => !isPattern(name))
+      ),
+      error:
+        result.reason instanceof Error
+          ? result.reason.message
+          : String(result.reason),
+    };
+  });
+
+  const sections = listed.map(
+    ({ name, default: isDefault, databases, defaultDatabase, error }) => {
+      const label = isDefault ? `${name} (default)` : name;
+      const status = error ? ` (listing failed: ${error})` : "";
+
+      const databaseList = databases
+        .map((database) =>
+          database === defaultDatabase
+            ? `    - ${database} (default)`
+            : `    - ${database}`
+        )
+        .join("\n");
+
+      return databases.length > 0
+        ? `  ${label}${status}:\n${databaseList}`
+        : `  ${label}: ${error ? `listing failed: ${error}` : "no matching databases"}`;
+    }
+  );
+
+  return {
+    content: [
+      textContent(
+        `Found ${sources.length} data source${sources.length === 1 ? "" : "s"}:\n${sections.join("\n")}`
+      ),
+    ],
+    structuredContent: { sources: listed },
+  };
+}
@@ -0,0 +1,236 @@
+import { z } from "zod";
+import { EJSON } from "bson";
+import { MongoServerError, type Collection } from "mongodb";
+import { getDatabase } from "../client";
+import { resolveTarget, targetShape } from "../dataSources";
+import { cacheShape } from "../queryCache";
+import { textContent } from "../serializer";
+import {
+  getRedactionRules,
+  isRedacted,
+  type RedactionRules,
+} from "../redaction";
+import {
+  formatIndexKey,
+  type IndexInfo,
+  type IndexUsage,
+} from "../indexAdvisor";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  type ToolExtra,
+} from "../access";
+
+export const listIndexesSchema = z.object({
+  collection: z.string().min(1).describe("Collection name"),
+  ...cacheShape,
+  ...targetShape,
+});
+
+export type ListIndexesArgs = z.infer<typeof listIndexesSchema>;
+
+export const listIndexesOutputSchema = z.object({
+  exists: z.boolean().describe("False if the collection does not exist"),
+  indexes: z.array(
+    z.object({
+      name: z.string(),
+      key: z.record(z.unknown()),
+      options: z
+        .array(z.string())
+        .describe("e.g. unique, sparse, hidden, TTL 3600s, partial ..."),
+      ops: z
+        .number()
+        .int()
+        .optional()
+        .describe("Times the index was used, when usage is available"),
+      since: z.string().optional().describe("When usage counting started"),
+    })
+  ),
+  usageAvailable: z
+    .boolean()
+    .describe("False if the connection user may not run $indexStats"),
+});
+
+/**
+ * Get the indexes of a collection, or null if it does not exist.
+ */
+export async function getIndexes(
+  collection: Collection
+): Promise<IndexInfo[] | null> {
+  try {
+    return (await collection.indexes()) as IndexInfo[];
+  } catch (error) {
+    // NamespaceNotFound
+    if (error instanceof MongoServerError && error.code === 26) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get usage counters of a collection's indexes from $indexStats.
+ * Returns null if the connection user may not run $indexStats.
+ */
+export async function getIndexUsage(
+  collection: Collection,
+  maxTimeMS: number
+): Promise<Map<string, IndexUsage> | null> {
+  try {
+    const stats = await collection
+      .aggregate([{ $indexStats: {} }], { maxTimeMS })
+      .toArray();
+
+    const usage = new Map<string, IndexUsage>();
+    for (const stat of stats) {
+      // Through mongos each shard reports separately
+      const current = usage.get(stat.name);
+      const ops = Number(stat.accesses?.ops ?? 0);
+      const since: Date | undefined = stat.accesses?.since;
+
+      usage.set(stat.name, {
+        ops: (current?.ops ?? 0) + ops,
+        since:
+          current?.since && since && current.since < since
+            ? current.since
+            : (since ?? current?.since),
+      });
+    }
+
+    return usage;
+  } catch (error) {
+    console.error("Reading $indexStats failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Collect the field names of a partial filter, including inside $and.
+ */
+function getFilterFields(filter: unknown): string[] {
+  if (Array.isArray(filter)) {
+    return filter.flatMap(getFilterFields);
+  }
+
+  if (filter === null || typeof filter !== "object") {
+    return [];
+  }
+
+  return Object.entries(filter).flatMap(([key, value]) =>
+    key.startsWith("$") ? getFilterFields(value) : [key]
+  );
+}
+
+/**
+ * Describe a partial filter without revealing values of redacted fields.
+ */
+function describePartialFilter(
+  filter: Record<string, unknown>,
+  rules: RedactionRules
+): string {
+  const fields = getFilterFields(filter);
+
+  if (fields.some((field) => isRedacted(field, rules))) {
+    return `partial on ${fields.join(", ")}`;
+  }
+
+  return `partial ${EJSON.stringify(filter, { relaxed: true })}`;
+}
+
+/**
+ * Describe the options of an index, e.g. "unique, TTL 3600s".
+ */
+export function describeOptions(
+  index: IndexInfo,
+  rules: RedactionRules
+): string[] {
+  const options: string[] = [];
+
+  if (index.unique) options.push("unique");
+  if (index.sparse) options.push("sparse");
+  if (index.hidden) options.push("hidden");
+  if (index.expireAfterSeconds !== undefined) {
+    options.push(`TTL ${index.expireAfterSeconds}s`);
+  }
+  if (index.partialFilterExpression) {
+    options.push(describePartialFilter(index.partialFilterExpression, rules));
+  }
+
+  return options;
+}
+
+function describeUsage(usage: IndexUsage | undefined): string {
+  if (!usage) {
+    return "";
+  }
+
+  const since = usage.since ? ` since ${usage.since.toISOString()}` : "";
+  return `, used ${usage.ops.toLocaleString()} time${usage.ops === 1 ? "" : "s"}${since}`;
+}
+
+export async function listIndexesTool(args: ListIndexesArgs, extra: ToolExtra) {
+  const { collection } = args;
+
+  const access = getAccessPolicy(extra, collection);
+  assertToolAllowed(access, "list-indexes");
+  assertCollectionsAllowed(access, [collection]);
+
+  const target = resolveTarget(args, access);
+  const db = await getDatabase(target);
+  const dbName = target.database;
+
+  const coll = db.collection(collection);
+  const indexes = await getIndexes(coll);
+
+  if (!indexes) {
+    return {
+      content: [
+        textContent(`Collection "${dbName}.${collection}" does not exist`),
+      ],
+      structuredContent: { exists: false, indexes: [], usageAvailable: false },
+    };
+  }
+
+  const usage = await getIndexUsage(coll, access.limits.maxTimeMS);
+  const rules = getRedactionRules(collection);
+
+  const described = indexes.map((index) => ({
+    index,
+    options: describeOptions(index, rules),
+    stats: usage?.get(index.name),
+  }));
+
+  const indexList = described
+    .map(({ index, options, stats }) => {
+      const optionText = options.length > 0 ? ` (${options.join(", ")})` : "";
+
+      return `  - ${index.name}: ${formatIndexKey(index.key)}${optionText}${describeUsage(
+        stats
+      )}`;
+    })
+    .join("\n");
+
+  const usageNote = usage
+    ? ""
+    : "\n\nUsage counts are unavailable: the connection user may not run $indexStats.";
+
+  return {
+    content: [
+      textContent(
+        `Found ${indexes.length} index${indexes.length === 1 ? "" : "es"} on "${dbName}.${collection}":\n${indexList}${usageNote}`
+      ),
+    ],
+    structuredContent: {
+      exists: true,
+      indexes: described.map(({ index, options, stats }) => ({
+        name: index.name,
+        key: index.key,
+        options,
+        ops: stats?.ops,
+        since: stats?.since?.toISOString(),
+      })),
+      usageAvailable: usage !== null,
+    },
+  };
+}
@@ -0,0 +1,230 @@
+import { z } from "zod";
+import { ObjectId } from "bson";
+import {
+  PLACEHOLDER_PATTERN,
+  type QueryDefinition,
+  type QueryParam,
+} from "../config";
+import { cacheShape } from "../queryCache";
+import { SECURITY_LIMITS } from "../security";
+import { documentsOutputSchema, formatShape } from "../serializer";
+import type { ToolExtra } from "../access";
+import { runFind, type FindArgs } from "./find";
+import { runAggregate, type AggregateArgs } from "./aggregate";
+
+/**
+ * Query tools: vetted find and aggregate queries defined by operators in
+ * the config's `queries` section, each registered as its own tool.
+ *
+ * Parameters are typed scalars. A "{{name}}" placeholder only ever
+ * stands for a whole value, and string parameters can't start with "$",
+ * so a parameter can't add operators or refer to fields. The resulting
+ * query then goes through the same checks as find and aggregate.
+ */
+
+export type QueryArgs = FindArgs | AggregateArgs;
+
+export const queryOutputSchema = documentsOutputSchema;
+
+function describeParam(param: QueryParam): string | undefined {
+  const hints: Record<string, string> = {
+    date: "ISO 8601 date or date-time, e.g. 2024-01-31 or 2024-01-31T12:00:00Z",
+    objectId: "ObjectId as 24 hex characters",
+  };
+  const parts = [param.description, hints[param.type]].filter(Boolean);
+  return parts.length > 0 ? parts.join(". ") : undefined;
+}
+
+function getParamSchema(
+  query: QueryDefinition,
+  name: string,
+  param: QueryParam
+): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+
+  switch (param.type) {
+    case "string": {
+      if (param.enum) {
+        schema = z.enum(param.enum as [string, ...string[]]);
+        break;
+      }
+      let text = z.string();
+      if (param.maxLength !== undefined) {
+        text = text.max(param.maxLength);
+      }
+      if (param.pattern !== undefined) {
+        text = text.regex(new RegExp(`^(?:${param.pattern})$`));
+      }
+      // "$" strings are field paths and variables in aggregation expressions
+      schema = text.refine((value) => !value.startsWith("$"), {
+        message: 'Must not start with "$"',
+      });
+      break;
+    }
+    case "number":
+    case "integer": {
+      let number = z.number();
+      if (param.type === "integer") {
+        number = number.int();
+      }
+      if (param.min !== undefined) {
+        number = number.min(param.min);
+      }
+      if (param.max !== undefined) {
+        number = number.max(param.max);
+      }
+      schema = number;
+      break;
+    }
+    case "boolean":
+      schema = z.boolean();
+      break;
+    case "date":
+      schema = z.union([
+        z.string().date(),
+        z.string().datetime({ offset: true }),
+      ]);
+      break;
+    case "objectId":
+      schema = z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, "Must be an ObjectId (24 hex characters)");
+      break;
+  }
+
+  if (param.default !== undefined) {
+    if (!schema.safeParse(param.default).success) {
+      throw new Error(
+        `Query "${query.name}" has an invalid default for parameter "${name}"`
+      );
+    }
+    schema = schema.default(param.default);
+  }
+
+  const description = describeParam(param);
+  return description ? schema.describe(description) : schema;
+}
+
+/**
+ * Build the input schema of a query tool from its parameters.
+ */
+export function getQuerySchema(query: QueryDefinition) {
+  const params = Object.fromEntries(
+    Object.entries(query.params).map(([name, param]) => [
+      name,
+      getParamSchema(query, name, param),
+    ])
+  );
+
+  return z.object({
+    ...params,
+    cursor: z
+      .string()
+      .optional()
+      .describe(
+        "Continuation token from a previous call with the same parameters. Returns the next page."
+      ),
+    ...formatShape,
+    ...cacheShape,
+  });
+}
+
+/**
+ * Describe a query tool for clients, naming what it runs on.
+ */
+export function describeQueryTool(query: QueryDefinition): string {
+  const kind = query.find ? "find" : "aggregation";
+  return `${query.description} (predefined ${kind} on the "${query.collection}" collection)`;
+}
+
+function toBsonValue(param: QueryParam, value: unknown): unknown {
+  if (param.type === "date") {
+    return new Date(value as string);
+  }
+  if (param.type === "objectId") {
+    return new ObjectId(value as string);
+  }
+  return value;
+}
+
+/**
+ * Replace placeholders with parameter values. The template is copied, not
+ * modified.
+ */
+function substitute(
+  template: unknown,
+  values: Record<string, unknown>
+): unknown {
+  if (typeof template === "string") {
+    const match = PLACEHOLDER_PATTERN.exec(template);
+    return match ? values[match[1]] : template;
+  }
+
+  if (Array.isArray(template)) {
+    return template.map((item) => substitute(item, values));
+  }
+
+  if (template !== null && typeof template === "object") {
+    return Object.fromEntries(
+      Object.entries(template).map(([key, value]) => [
+        key,
+        substitute(value, values),
+      ])
+    );
+  }
+
+  return template;
+}
+
+/**
+ * Turn the input of a query tool into find or aggregate arguments, with
+ * the parameters filled in. Audit, rate limits and the cache see these.
+ */
+export function toQueryArgs(
+  query: QueryDefinition,
+  input: Record<string, unknown>
+): QueryArgs {
+  const values = Object.fromEntries(
+    Object.entries(query.params).map(([name, param]) => [
+      name,
+      toBsonValue(param, input[name]),
+    ])
+  );
+
+  const common = {
+    collection: query.collection,
+    source: query.source,
+    database: query.database,
+    cursor: input.cursor as string | undefined,
+    format: input.format as FindArgs["format"],
+    columns: input.columns as string[] | undefined,
+    maxBytes: input.maxBytes as number | undefined,
+    noCache: input.noCache as boolean | undefined,
+  };
+
+  if (query.find) {
+    return {
+      ...common,
+      filter: substitute(query.find.filter, values) as Record<string, unknown>,
+      projection: query.find.projection,
+      sort: query.find.sort,
+      limit: query.find.limit ?? SECURITY_LIMITS.defaultLimit,
+    };
+  }
+
+  return {
+    ...common,
+    pipeline: substitute(query.aggregate, values) as Record<string, unknown>[],
+  };
+}
+
+/**
+ * Create the handler of a query tool, taking the arguments from
+ * toQueryArgs.
+ */
+export function createQueryTool(query: QueryDefinition) {
+  return (args: QueryArgs, extra: ToolExtra) =>
+    "pipeline" in args
+      ? runAggregate(query.name, args, extra)
+      : runFind(query.name, args, extra);
+}
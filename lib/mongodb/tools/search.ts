@@ -0,0 +1,579 @@
+import { z } from "zod";
+import type { Document } from "bson";
+import { MongoServerError } from "mongodb";
+import { getDatabase } from "../client";
+import { getConfig } from "../config";
+import { resolveTarget, targetShape } from "../dataSources";
+import { cacheShape } from "../queryCache";
+import {
+  applyLimit,
+  applyResponseBudget,
+  SECURITY_LIMITS,
+  validateFilter,
+  ValidationError,
+} from "../security";
+import { describeOmitted, fitDocuments } from "../budget";
+import { serialize, textContent, toExtendedJson } from "../serializer";
+import { recordInvocation } from "../invocation";
+import { getQueryOptions, runGoverned } from "../governor";
+import {
+  assertFilterNotRedacted,
+  assertNotRedacted,
+  getRedactionRules,
+  isRedacted,
+  redactDocuments,
+  type RedactionRules,
+} from "../redaction";
+import { getIndexes } from "./listIndexes";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  matchesGlob,
+  type ToolExtra,
+} from "../access";
+
+/**
+ * Full-text search with an Atlas Search index when one is configured for
+ * the collection (config `searchIndexes`), or else the collection's text
+ * index with $text. Results are sorted by relevance and carry their score
+ * and highlighted snippets of the matching fields.
+ */
+
+/** Highlighted snippets returned per result */
+const MAX_HIGHLIGHTS = 3;
+
+/** Characters of context around a match in $text snippets */
+const SNIPPET_CONTEXT = 60;
+
+/** Fields added to results for their score and highlights, then removed */
+const SCORE_FIELD = "__searchScore";
+const HIGHLIGHTS_FIELD = "__searchHighlights";
+
+export const searchSchema = z.object({
+  collection: z.string().min(1).describe("Collection name"),
+  query: z
+    .string()
+    .min(1)
+    .max(500)
+    .describe(
+      'Words or phrases to search for. Example: refund delay. With a text index, "quoted phrases" must match exactly and -word excludes a word'
+    ),
+  fields: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(20)
+    .optional()
+    .describe(
+      "Fields to search and highlight. Defaults to every field the search index covers"
+    ),
+  filter: z
+    .record(z.unknown())
+    .optional()
+    .describe(
+      "Query filter the results must also match. Example: { status: 'open' }"
+    ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(SECURITY_LIMITS.maxLimit)
+    .optional()
+    .default(SECURITY_LIMITS.defaultLimit)
+    .describe(
+      `Max results to return (1-${SECURITY_LIMITS.maxLimit}, default: ${SECURITY_LIMITS.defaultLimit})`
+    ),
+  ...cacheShape,
+  ...targetShape,
+});
+
+export type SearchArgs = z.infer<typeof searchSchema>;
+
+export const searchOutputSchema = z.object({
+  mode: z
+    .enum(["atlas-search", "text"])
+    .describe("atlas-search ($search) or text ($text with a text index)"),
+  index: z.string().describe("Name of the index searched"),
+  results: z.array(
+    z.object({
+      score: z.number().describe("Relevance score, higher is better"),
+      highlights: z
+        .array(
+          z.object({
+            path: z.string(),
+            snippet: z.string().describe("Matching text, hits in **bold**"),
+          })
+        )
+        .describe("Matching snippets"),
+      document: z.record(z.unknown()).describe("Document as Extended JSON"),
+    })
+  ),
+  total: z
+    .number()
+    .int()
+    .optional()
+    .describe(
+      "Lower bound of matching documents (Atlas Search without a filter only)"
+    ),
+  truncated: z
+    .boolean()
+    .describe(
+      "True if more results exist beyond the limit or were left out for the response budget"
+    ),
+  omitted: z
+    .number()
+    .int()
+    .describe("Number of results left out for the response budget"),
+});
+
+interface Highlight {
+  path: string;
+  snippet: string;
+}
+
+/**
+ * Get the Atlas Search index configured for a collection. An exact
+ * collection name takes precedence over patterns.
+ */
+function getSearchIndexName(collection: string): string | undefined {
+  const { searchIndexes } = getConfig();
+
+  if (Object.prototype.hasOwnProperty.call(searchIndexes, collection)) {
+    return searchIndexes[collection];
+  }
+
+  const pattern = Object.keys(searchIndexes).find((candidate) =>
+    matchesGlob(collection, candidate)
+  );
+  return pattern ? searchIndexes[pattern] : undefined;
+}
+
+/**
+ * Make sure a search can't match on redacted fields, since results and
+ * scores would reveal their contents. Atlas Search over every indexed
+ * field needs an explicit field list on collections with redacted fields.
+ */
+function assertSearchable(
+  fields: string[] | undefined,
+  rules: RedactionRules
+): void {
+  if (Object.keys(rules).length === 0) {
+    return;
+  }
+
+  if (!fields) {
+    throw new ValidationError(
+      `This collection has redacted fields, so pass "fields" to choose which fields to search`
+    );
+  }
+
+  assertNotRedacted(fields, rules, "a search");
+}
+
+/**
+ * Make sure a text index covers no redacted fields. $text searches every
+ * field of the index whatever "fields" says, so a wildcard text index
+ * can't be searched on collections with redacted fields.
+ */
+function assertTextIndexSearchable(
+  indexName: string,
+  indexedFields: string[],
+  rules: RedactionRules
+): void {
+  if (Object.keys(rules).length === 0) {
+    return;
+  }
+
+  if (indexedFields.includes("$**")) {
+    throw new ValidationError(
+      `Text index "${indexName}" covers every field, so it can't be searched on a collection with redacted fields`
+    );
+  }
+
+  assertNotRedacted(indexedFields, rules, "a search");
+}
+
+/**
+ * Collect the string values at a dotted path, through arrays.
+ */
+function getStrings(value: unknown, path: string[]): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => getStrings(item, path));
+  }
+  if (path.length === 0) {
+    return typeof value === "string" ? [value] : [];
+  }
+  if (value === null || typeof value !== "object") {
+    return [];
+  }
+  return getStrings((value as Document)[path[0]], path.slice(1));
+}
+
+/**
+ * Collect the paths of every string field of a document, for wildcard
+ * text indexes.
+ */
+function getStringPaths(value: unknown, prefix = ""): string[] {
+  if (typeof value === "string") {
+    return prefix ? [prefix] : [];
+  }
+  if (Array.isArray(value)) {
+    return [...new Set(value.flatMap((item) => getStringPaths(item, prefix)))];
+  }
+  if (value === null || typeof value !== "object" || "_bsontype" in value) {
+    return [];
+  }
+  return Object.entries(value).flatMap(([key, child]) =>
+    getStringPaths(child, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+/**
+ * Get the words and phrases of a $text query, leaving out negated ones.
+ */
+function getSearchTerms(query: string): string[] {
+  const terms: string[] = [];
+
+  for (const match of query.matchAll(/(-?)"([^"]+)"|(-?)(\S+)/g)) {
+    const [, phraseNegated, phrase, wordNegated, word] = match;
+    if (phrase && !phraseNegated) {
+      terms.push(phrase);
+    } else if (word && !wordNegated) {
+      terms.push(word.replace(/^\W+|\W+$/g, ""));
+    }
+  }
+
+  return terms.filter((term) => term.length > 0);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Highlight $text matches in a document's fields. The server doesn't
+ * report what matched, so the search terms are looked up (as prefixes, to
+ * allow for stemming) in the fields' text.
+ */
+function highlightText(
+  doc: Document,
+  paths: string[],
+  terms: string[]
+): Highlight[] {
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const pattern = new RegExp(
+    `\\b(?:${terms.map(escapeRegExp).join("|")})\\w*`,
+    "gi"
+  );
+  const highlights: Highlight[] = [];
+
+  for (const path of paths) {
+    for (const text of getStrings(doc, path.split("."))) {
+      pattern.lastIndex = 0;
+      const first = pattern.exec(text);
+      if (!first) {
+        continue;
+      }
+
+      const start = Math.max(0, first.index - SNIPPET_CONTEXT);
+      const end = Math.min(
+        text.length,
+        first.index + first[0].length + SNIPPET_CONTEXT
+      );
+      const snippet = text
+        .slice(start, end)
+        .replace(pattern, (hit) => `**${hit}**`);
+
+      highlights.push({
+        path,
+        snippet: `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`,
+      });
+      if (highlights.length >= MAX_HIGHLIGHTS) {
+        return highlights;
+      }
+    }
+  }
+
+  return highlights;
+}
+
+/**
+ * Convert Atlas Search highlights to snippets with hits in bold.
+ */
+function toHighlights(searchHighlights: unknown): Highlight[] {
+  if (!Array.isArray(searchHighlights)) {
+    return [];
+  }
+
+  return [...searchHighlights]
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, MAX_HIGHLIGHTS)
+    .map((highlight: Document) => ({
+      path: String(highlight.path),
+      snippet: (highlight.texts ?? [])
+        .map(({ value, type }: Document) =>
+          type === "hit" ? `**${value}**` : value
+        )
+        .join(""),
+    }));
+}
+
+/**
+ * Explain failures of $search in terms the caller can act on.
+ */
+function describeSearchError(error: unknown, index: string): unknown {
+  if (!(error instanceof MongoServerError)) {
+    return error;
+  }
+
+  // Unrecognized pipeline stage, or a deployment without search enabled
+  if (error.code === 40324 || error.codeName === "SearchNotEnabled") {
+    return new ValidationError(
+      `Atlas Search is not available on this deployment, but index "${index}" is configured for this collection in searchIndexes`
+    );
+  }
+
+  return error;
+}
+
+export async function searchTool(args: SearchArgs, extra: ToolExtra) {
+  const { collection, query, fields, filter = {}, limit } = args;
+
+  const access = getAccessPolicy(extra, collection);
+  assertToolAllowed(access, "search");
+  assertCollectionsAllowed(access, [collection]);
+
+  validateFilter(filter);
+  if ("$text" in filter) {
+    throw new ValidationError(
+      'Put the search words in "query", not a $text filter'
+    );
+  }
+
+  // Matches would reveal values of redacted fields in the filter
+  const rules = getRedactionRules(collection);
+  assertFilterNotRedacted(filter, rules);
+
+  const target = resolveTarget(args, access);
+  const db = await getDatabase(target);
+  const dbName = target.database;
+  const coll = db.collection(collection);
+
+  const effectiveLimit = applyLimit(limit, access.limits.maxLimit);
+  const atlasIndex = getSearchIndexName(collection);
+
+  let mode: "atlas-search" | "text";
+  let indexName: string;
+  let pipeline: Document[];
+  let highlightPaths: string[] = [];
+  let countQuery: (() => Promise<number | undefined>) | undefined;
+
+  if (atlasIndex) {
+    assertSearchable(fields, rules);
+
+    mode = "atlas-search";
+    indexName = atlasIndex;
+
+    const path = fields ?? { wildcard: "*" };
+    pipeline = [
+      {
+        $search: {
+          index: atlasIndex,
+          text: { query, path },
+          highlight: { path },
+        },
+      },
+    ];
+    if (Object.keys(filter).length > 0) {
+      pipeline.push({ $match: filter });
+    } else {
+      // The filter is applied after $search, so only unfiltered searches
+      // can be counted by the search index
+      countQuery = async () => {
+        const [meta] = await coll
+          .aggregate(
+            [
+              {
+                $searchMeta: {
+                  index: atlasIndex,
+                  text: { query, path },
+                  count: { type: "lowerBound" },
+                },
+              },
+            ],
+            getQueryOptions(access.limits)
+          )
+          .toArray();
+        return meta?.count?.lowerBound;
+      };
+    }
+    pipeline.push(
+      { $limit: effectiveLimit + 1 },
+      {
+        $addFields: {
+          [SCORE_FIELD]: { $meta: "searchScore" },
+          [HIGHLIGHTS_FIELD]: { $meta: "searchHighlights" },
+        },
+      }
+    );
+  } else {
+    const indexes = (await getIndexes(coll)) ?? [];
+    const textIndex = indexes.find((index) => index.key._fts === "text") as
+      | (Document & { name: string; weights?: Record<string, number> })
+      | undefined;
+
+    if (!textIndex) {
+      throw new ValidationError(
+        `"${dbName}.${collection}" has no text index, so it can't be searched. ` +
+          `Create one (e.g. db.${collection}.createIndex({ title: "text", body: "text" })), ` +
+          `add an Atlas Search index to searchIndexes in the config, or use find with a filter instead`
+      );
+    }
+
+    const indexedFields = Object.keys(textIndex.weights ?? {});
+    const isWildcard = indexedFields.includes("$**");
+
+    if (fields && !isWildcard) {
+      const missing = fields.filter((field) => !indexedFields.includes(field));
+      if (missing.length > 0) {
+        throw new ValidationError(
+          `Text index "${textIndex.name}" doesn't cover ${missing.join(", ")}; it covers ${indexedFields.join(", ")}. ` +
+            `$text always searches every indexed field, so leave out "fields" or name indexed ones`
+        );
+      }
+    }
+    assertTextIndexSearchable(textIndex.name, indexedFields, rules);
+
+    mode = "text";
+    indexName = textIndex.name;
+    highlightPaths = fields ?? (isWildcard ? [] : indexedFields);
+    pipeline = [
+      { $match: { ...filter, $text: { $search: query } } },
+      { $sort: { [SCORE_FIELD]: { $meta: "textScore" } } },
+      { $limit: effectiveLimit + 1 },
+      { $addFields: { [SCORE_FIELD]: { $meta: "textScore" } } },
+    ];
+  }
+
+  let documents: Document[];
+  let total: number | undefined;
+  try {
+    [documents, total] = await runGoverned(access.limits, () =>
+      Promise.all([
+        coll.aggregate(pipeline, getQueryOptions(access.limits)).toArray(),
+        countQuery?.(),
+      ])
+    );
+  } catch (error) {
+    throw mode === "atlas-search"
+      ? describeSearchError(error, indexName)
+      : error;
+  }
+
+  const hasMore = documents.length > effectiveLimit;
+  if (hasMore) {
+    documents.pop();
+  }
+
+  const terms = mode === "text" ? getSearchTerms(query) : [];
+  const scored = documents.map((doc) => {
+    const { [SCORE_FIELD]: score, [HIGHLIGHTS_FIELD]: searchHighlights } = doc;
+    delete doc[SCORE_FIELD];
+    delete doc[HIGHLIGHTS_FIELD];
+
+    return {
+      score: Number(score ?? 0),
+      highlights:
+        mode === "atlas-search"
+          ? toHighlights(searchHighlights)
+          : highlightText(
+              doc,
+              highlightPaths.length > 0
+                ? highlightPaths
+                : getStringPaths(doc).filter(
+                    (path) => !isRedacted(path, rules)
+                  ),
+              terms
+            ),
+    };
+  });
+
+  redactDocuments(documents, rules);
+
+  const budget = applyResponseBudget(undefined, access.limits.maxResponseBytes);
+  const { documents: output, omitted } = fitDocuments(documents, budget);
+  recordInvocation({ documentsReturned: output.length });
+
+  const results = output.map((doc, index) => ({
+    ...scored[index],
+    document: doc,
+  }));
+
+  const notes: string[] = [];
+  if (hasMore) {
+    notes.push(`limited to ${effectiveLimit}`);
+  }
+  if (omitted > 0) {
+    notes.push(describeOmitted(omitted, budget));
+  }
+  if (total !== undefined) {
+    notes.push(`at least ${total.toLocaleString()} matching`);
+  }
+
+  const how =
+    mode === "atlas-search"
+      ? `Atlas Search index "${indexName}"`
+      : `text index "${indexName}"`;
+
+  if (results.length === 0) {
+    return {
+      content: [
+        textContent(
+          `No results for "${query}" in "${dbName}.${collection}" (searched ${how})`
+        ),
+      ],
+      structuredContent: {
+        mode,
+        index: indexName,
+        results: [],
+        total,
+        truncated: false,
+        omitted: 0,
+      },
+    };
+  }
+
+  const summary = results
+    .map(({ score, highlights }, index) =>
+      [
+        `${index + 1}. score ${score.toFixed(2)}`,
+        ...highlights.map(({ path, snippet }) => `   ${path}: ${snippet}`),
+      ].join("\n")
+    )
+    .join("\n");
+
+  return {
+    content: [
+      textContent(
+        `Found ${results.length} result${results.length === 1 ? "" : "s"} for "${query}" in "${dbName}.${collection}" using ${how}` +
+          (notes.length > 0 ? ` (${notes.join("; ")})` : "") +
+          `:\n${summary}`
+      ),
+      textContent(serialize(output)),
+    ],
+    structuredContent: {
+      mode,
+      index: indexName,
+      results: results.map((result) => ({
+        ...result,
+        document: toExtendedJson([result.document])[0],
+      })),
+      total,
+      truncated: hasMore || omitted > 0,
+      omitted,
+    },
+  };
+}
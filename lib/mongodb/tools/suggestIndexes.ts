@@ -0,0 +1,303 @@
+import { z } from "zod";
+import type { SortDirection } from "mongodb";
+import { getDatabase } from "../client";
+import { resolveTarget, targetShape } from "../dataSources";
+import { cacheShape } from "../queryCache";
+import { validateFilter, ValidationError } from "../security";
+import { validatePipeline } from "../pipeline";
+import {
+  explainGoverned,
+  getQueryOptions,
+  governPipeline,
+  type GovernedExplain,
+} from "../governor";
+import { textContent } from "../serializer";
+import {
+  assertFilterNotRedacted,
+  getAggregationRedactionRules,
+  getRedactionRules,
+} from "../redaction";
+import {
+  getExecutionTotals,
+  getQueryPlans,
+  getUsedIndexes,
+  hasCollectionScan,
+} from "../explainPlan";
+import {
+  findCoveringIndex,
+  findRedundantIndexes,
+  findUnusedIndexes,
+  formatIndexKey,
+  getFindShape,
+  getPipelineShape,
+  suggestIndex,
+  type QueryShape,
+} from "../indexAdvisor";
+import { getIndexes, getIndexUsage } from "./listIndexes";
+import {
+  assertCollectionsAllowed,
+  assertToolAllowed,
+  getAccessPolicy,
+  type ToolExtra,
+} from "../access";
+
+export const suggestIndexesSchema = z.object({
+  collection: z.string().min(1).describe("Collection name"),
+  filter: z
+    .record(z.unknown())
+    .optional()
+    .describe(
+      "Query filter of the find to optimize. Example: { status: 'active', total: { $gt: 100 } }"
+    ),
+  sort: z
+    .record(z.union([z.literal(1), z.literal(-1)]))
+    .optional()
+    .describe("Sort of the find to optimize. Example: { createdAt: -1 }"),
+  pipeline: z
+    .array(z.record(z.unknown()))
+    .min(1)
+    .optional()
+    .describe(
+      "Aggregation pipeline to optimize, instead of filter and sort. Its leading $match and $sort stages are analyzed"
+    ),
+  ...cacheShape,
+  ...targetShape,
+});
+
+export type SuggestIndexesArgs = z.infer<typeof suggestIndexesSchema>;
+
+export const suggestIndexesOutputSchema = z.object({
+  currentPlan: z.object({
+    collectionScan: z.boolean(),
+    indexes: z.array(z.string()).describe("Indexes the current plan uses"),
+    totals: z
+      .object({
+        keysExamined: z.number(),
+        docsExamined: z.number(),
+        returned: z.number(),
+        executionTimeMs: z.number(),
+      })
+      .nullable(),
+    executionSkipped: z
+      .string()
+      .optional()
+      .describe(
+        "Why the query wasn't executed for stats (it would scan too large a collection)"
+      ),
+  }),
+  suggestion: z
+    .object({
+      key: z.record(z.union([z.literal(1), z.literal(-1)])),
+      equality: z.array(z.string()),
+      sort: z.array(z.string()),
+      range: z.array(z.string()),
+    })
+    .nullable()
+    .describe("Suggested index, or null if the query has nothing to index"),
+  coveringIndex: z
+    .string()
+    .nullable()
+    .describe("Existing index that already matches the suggestion"),
+  notes: z.array(z.string()),
+  redundant: z.array(z.object({ name: z.string(), coveredBy: z.string() })),
+  unused: z.array(z.object({ name: z.string(), since: z.string().optional() })),
+  usageAvailable: z
+    .boolean()
+    .describe("False if unused indexes could not be checked"),
+});
+
+function describeShape(shape: QueryShape): string[] {
+  const lines: string[] = [];
+  const sortFields = Object.keys(shape.sort);
+
+  if (shape.equality.length > 0) {
+    lines.push(`  - equality: ${shape.equality.join(", ")}`);
+  }
+  if (sortFields.length > 0) {
+    lines.push(`  - sort: ${sortFields.join(", ")}`);
+  }
+  if (shape.range.length > 0) {
+    lines.push(`  - range: ${shape.range.join(", ")}`);
+  }
+
+  return lines;
+}
+
+export async function suggestIndexesTool(
+  args: SuggestIndexesArgs,
+  extra: ToolExtra
+) {
+  const { collection, filter, sort, pipeline } = args;
+
+  const access = getAccessPolicy(extra, collection);
+  assertToolAllowed(access, "suggest-indexes");
+  assertCollectionsAllowed(access, [collection]);
+
+  if (pipeline && (filter || sort)) {
+    throw new ValidationError(
+      "Pass either a pipeline or a filter and sort, not both"
+    );
+  }
+
+  const target = resolveTarget(args, access);
+  const db = await getDatabase(target);
+  const dbName = target.database;
+  const coll = db.collection(collection);
+
+  let governed: GovernedExplain;
+  let shape: QueryShape;
+
+  if (pipeline) {
+    // Allow-listed stages and operators only, on collections the key may read
+    validatePipeline(pipeline, access);
+    // Reject pipelines that read redacted fields, as aggregate does
+    getAggregationRedactionRules(collection, pipeline);
+
+    shape = getPipelineShape(pipeline);
+    const governedPipeline = governPipeline(pipeline, access.limits);
+    governed = await explainGoverned(
+      coll,
+      access.limits,
+      "executionStats",
+      (level) =>
+        coll
+          .aggregate(governedPipeline, getQueryOptions(access.limits))
+          .explain(level)
+    );
+  } else {
+    const findFilter = filter ?? {};
+
+    // Validate filter for prohibited operators
+    validateFilter(findFilter);
+    // Execution stats count matches, so redacted fields can't be matched on
+    assertFilterNotRedacted(findFilter, getRedactionRules(collection));
+
+    shape = getFindShape(findFilter, sort);
+    governed = await explainGoverned(
+      coll,
+      access.limits,
+      "executionStats",
+      (level) =>
+        coll
+          .find(findFilter, {
+            sort: sort as Record<string, SortDirection>,
+            ...getQueryOptions(access.limits),
+          })
+          .explain(level)
+    );
+  }
+
+  const { explain: explainResult, executionSkipped } = governed;
+
+  const indexes = (await getIndexes(coll)) ?? [];
+  const usage = await getIndexUsage(coll, access.limits.maxTimeMS);
+
+  const plans = getQueryPlans(explainResult);
+  const usedIndexes = getUsedIndexes(plans);
+  const totals = getExecutionTotals(plans);
+
+  const lines: string[] = [
+    `Index suggestions for ${pipeline ? "aggregate" : "find"} on "${dbName}.${collection}":`,
+    "",
+  ];
+
+  // Current plan
+  const planDescription = hasCollectionScan(plans)
+    ? "collection scan (COLLSCAN)"
+    : usedIndexes.length > 0
+      ? `uses index ${usedIndexes.map((name) => `"${name}"`).join(", ")}`
+      : "no index used";
+  lines.push(`Current plan: ${planDescription}`);
+  if (totals) {
+    lines.push(
+      `  examined ${totals.keysExamined.toLocaleString()} keys and ${totals.docsExamined.toLocaleString()} documents to return ${totals.returned.toLocaleString()}`
+    );
+  }
+  if (executionSkipped) {
+    lines.push(`  ${executionSkipped}`);
+  }
+  lines.push("");
+
+  // Suggestion
+  const suggestion = suggestIndex(shape);
+  const covering = suggestion ? findCoveringIndex(suggestion, indexes) : null;
+  if (!suggestion) {
+    lines.push("No index can be suggested: the query has no indexable fields.");
+  } else {
+    if (covering) {
+      lines.push(
+        `The existing index "${covering.name}" ${formatIndexKey(covering.key)} already matches the equality, sort, range layout for this query.`
+      );
+    } else {
+      lines.push(`Suggested index: ${formatIndexKey(suggestion.key)}`);
+      lines.push(...describeShape(shape));
+      lines.push(
+        `  Create it yourself if it helps, e.g. db.${collection}.createIndex(${formatIndexKey(
+          suggestion.key
+        )}); this server never creates indexes.`
+      );
+    }
+  }
+
+  for (const note of shape.notes) {
+    lines.push(`Note: ${note}`);
+  }
+
+  // Existing indexes
+  const redundant = findRedundantIndexes(indexes);
+  const unused = usage ? findUnusedIndexes(indexes, usage) : [];
+
+  if (redundant.length > 0 || unused.length > 0) {
+    lines.push("", "Existing indexes:");
+
+    for (const { index, coveredBy } of redundant) {
+      lines.push(
+        `  - "${index.name}" ${formatIndexKey(index.key)} is redundant: "${coveredBy.name}" ${formatIndexKey(coveredBy.key)} starts with the same keys`
+      );
+    }
+
+    for (const { index, since } of unused) {
+      lines.push(
+        `  - "${index.name}" ${formatIndexKey(index.key)} has not been used${
+          since ? ` since ${since.toISOString()}` : ""
+        }`
+      );
+    }
+  }
+
+  if (!usage) {
+    lines.push(
+      "",
+      "Unused indexes can't be checked: the connection user may not run $indexStats."
+    );
+  }
+
+  return {
+    content: [textContent(lines.join("\n"))],
+    structuredContent: {
+      currentPlan: {
+        collectionScan: hasCollectionScan(plans),
+        indexes: usedIndexes,
+        totals,
+        executionSkipped,
+      },
+      suggestion: suggestion && {
+        key: suggestion.key,
+        equality: shape.equality,
+        sort: Object.keys(shape.sort),
+        range: shape.range,
+      },
+      coveringIndex: covering?.name ?? null,
+      notes: shape.notes,
+      redundant: redundant.map(({ index, coveredBy }) => ({
+        name: index.name,
+        coveredBy: coveredBy.name,
+      })),
+      unused: unused.map(({ index, since }) => ({
+        name: index.name,
+        since: since?.toISOString(),
+      })),
+      usageAvailable: usage !== null,
+    },
+  };
+}
@@ -0,0 +1,312 @@
+import { randomBytes } from "node:crypto";
+
+/**
+ * Trace spans for tool calls and the MongoDB commands they issue.
+ *
+ * Spans are sent to the exporter named by TRACE_EXPORTER:
+ * - otlp: OTLP/HTTP JSON to OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, or
+ *   OTEL_EXPORTER_OTLP_ENDPOINT + "/v1/traces", with the headers in
+ *   OTEL_EXPORTER_OTLP_HEADERS ("key=value,key2=value2")
+ * - console: one JSON line per span
+ * - none: spans are dropped
+ * The default is otlp when an OTLP endpoint is set, and none otherwise.
+ * Spans are queued and exported in batches, off the response path.
+ * OTEL_SERVICE_NAME names the service (default "mongodb-mcp-vercel").
+ */
+
+export type AttributeValue = string | number | boolean;
+
+export interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: "server" | "client";
+  /** Start and end as Unix epoch milliseconds */
+  startTime: number;
+  endTime?: number;
+  attributes: Record<string, AttributeValue>;
+  status: "unset" | "ok" | "error";
+  statusMessage?: string;
+}
+
+export interface SpanExporter {
+  name: string;
+  export(spans: Span[]): Promise<void>;
+}
+
+/** How long an OTLP export may take before it is abandoned */
+const EXPORT_TIMEOUT_MS = 5000;
+
+/** How long queued spans wait for more before they are exported */
+const EXPORT_DELAY_MS = 1000;
+
+/** Most spans sent in one export */
+const MAX_EXPORT_BATCH = 512;
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+function randomId(bytes: number): string {
+  return randomBytes(bytes).toString("hex");
+}
+
+/**
+ * Start a span. Without a parent, a W3C traceparent header value (e.g.
+ * from the MCP request) makes it part of the caller's trace.
+ */
+export function startSpan(
+  name: string,
+  kind: Span["kind"],
+  parent?: Span | string
+): Span {
+  let traceId = randomId(16);
+  let parentSpanId: string | undefined;
+
+  if (typeof parent === "string") {
+    const match = TRACEPARENT_PATTERN.exec(parent.trim());
+    if (match) {
+      [, traceId, parentSpanId] = match;
+    }
+  } else if (parent) {
+    traceId = parent.traceId;
+    parentSpanId = parent.spanId;
+  }
+
+  return {
+    traceId,
+    spanId: randomId(8),
+    parentSpanId,
+    name,
+    kind,
+    startTime: Date.now(),
+    attributes: {},
+    status: "unset",
+  };
+}
+
+/**
+ * End a span, marking it failed if an error message is given.
+ */
+export function endSpan(span: Span, error?: string): void {
+  span.endTime = Date.now();
+  span.status = error === undefined ? "ok" : "error";
+  span.statusMessage = error;
+}
+
+const consoleExporter: SpanExporter = {
+  name: "console",
+  async export(spans) {
+    for (const span of spans) {
+      console.log(JSON.stringify({ span }));
+    }
+  },
+};
+
+function toUnixNano(ms: number): string {
+  return `${Math.floor(ms)}${String(Math.round((ms % 1) * 1e6)).padStart(6, "0")}`;
+}
+
+function toOtlpValue(value: AttributeValue) {
+  if (typeof value === "string") {
+    return { stringValue: value };
+  }
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+}
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: toOtlpValue(value),
+  }));
+}
+
+function parseHeaders(raw: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const pair of (raw ?? "").split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      headers[decodeURIComponent(pair.slice(0, separator).trim())] =
+        decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+
+  return headers;
+}
+
+function createOtlpExporter(endpoint: string): SpanExporter {
+  const serviceName = process.env.OTEL_SERVICE_NAME || "mongodb-mcp-vercel";
+  const headers = parseHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS);
+
+  return {
+    name: "otlp",
+    async export(spans) {
+      const body = {
+        resourceSpans: [
+          {
+            resource: {
+              attributes: toOtlpAttributes({ "service.name": serviceName }),
+            },
+            scopeSpans: [
+              {
+                scope: { name: "mongodb-mcp-vercel" },
+                spans: spans.map((span) => ({
+                  traceId: span.traceId,
+                  spanId: span.spanId,
+                  parentSpanId: span.parentSpanId,
+                  name: span.name,
+                  // SPAN_KIND_SERVER and SPAN_KIND_CLIENT
+                  kind: span.kind === "server" ? 2 : 3,
+                  startTimeUnixNano: toUnixNano(span.startTime),
+                  endTimeUnixNano: toUnixNano(span.endTime ?? Date.now()),
+                  attributes: toOtlpAttributes(span.attributes),
+                  status: {
+                    code: { unset: 0, ok: 1, error: 2 }[span.status],
+                    message: span.statusMessage,
+                  },
+                })),
+              },
+            ],
+          },
+        ],
+      };
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OTLP endpoint responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+let exporter: SpanExporter | null | undefined;
+
+/**
+ * Get the configured exporter, or null when spans are dropped.
+ */
+function getSpanExporter(): SpanExporter | null {
+  if (exporter !== undefined) {
+    return exporter;
+  }
+
+  const tracesEndpoint =
+    process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ||
+    (process.env.OTEL_EXPORTER_OTLP_ENDPOINT &&
+      `${process.env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/+$/, "")}/v1/traces`);
+  const kind = process.env.TRACE_EXPORTER || (tracesEndpoint ? "otlp" : "none");
+
+  if (kind === "otlp") {
+    if (!tracesEndpoint) {
+      throw new Error(
+        "TRACE_EXPORTER is otlp but OTEL_EXPORTER_OTLP_ENDPOINT is not set"
+      );
+    }
+    exporter = createOtlpExporter(tracesEndpoint);
+  } else if (kind === "console") {
+    exporter = consoleExporter;
+  } else if (kind === "none") {
+    exporter = null;
+  } else {
+    throw new Error(
+      `Unknown TRACE_EXPORTER "${kind}" (expected otlp, console or none)`
+    );
+  }
+
+  return exporter;
+}
+
+/**
+ * Replace the span exporter, e.g. with a custom backend.
+ */
+export function setSpanExporter(spanExporter: SpanExporter | null): void {
+  exporter = spanExporter;
+}
+
+/** Finished spans waiting to be exported */
+const pendingSpans: Span[] = [];
+
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+let flushing: Promise<void> | undefined;
+
+async function exportBatch(target: SpanExporter, spans: Span[]): Promise<void> {
+  try {
+    await target.export(spans);
+  } catch (error) {
+    console.error(`Span exporter "${target.name}" failed:`, error);
+  }
+}
+
+async function drainSpans(): Promise<void> {
+  let target: SpanExporter | null;
+  try {
+    target = getSpanExporter();
+  } catch (error) {
+    pendingSpans.length = 0;
+    console.error("Tracing is misconfigured:", error);
+    return;
+  }
+
+  while (pendingSpans.length > 0) {
+    const batch = pendingSpans.splice(0, MAX_EXPORT_BATCH);
+    if (target) {
+      await exportBatch(target, batch);
+    }
+  }
+}
+
+/**
+ * Export every queued span, in batches. Failures are logged, never
+ * thrown, so tracing can't break a tool call.
+ */
+export function flushSpans(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+  }
+
+  // One flush at a time; spans queued meanwhile go out in the same drain
+  flushing ??= drainSpans().finally(() => {
+    flushing = undefined;
+    // Spans queued as the drain finished wait for the next flush
+    if (pendingSpans.length > 0) {
+      scheduleFlush();
+    }
+  });
+  return flushing;
+}
+
+function scheduleFlush(): void {
+  if (!flushTimer) {
+    flushTimer = setTimeout(() => void flushSpans(), EXPORT_DELAY_MS);
+    // Don't keep the process alive just to export spans
+    flushTimer.unref?.();
+  }
+}
+
+/**
+ * Queue finished spans for export. They are sent in the background, once
+ * a batch fills up or after EXPORT_DELAY_MS, so the export never delays
+ * a response.
+ */
+export function queueSpans(spans: Span[]): void {
+  if (spans.length === 0) {
+    return;
+  }
+
+  pendingSpans.push(...spans);
+
+  if (pendingSpans.length >= MAX_EXPORT_BATCH) {
+    void flushSpans();
+  } else {
+    scheduleFlush();
+  }
+}